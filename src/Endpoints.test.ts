@@ -4,9 +4,14 @@ import { initializeBasicRoutes, runServer } from './tests/server.js'
 import { headersSet } from './configs/headersSet.js'
 import type { TEndpointHttpConfig } from './configs/EndpointHttpConfig.js'
 import type { TResponse } from './types.js'
-import type { Environment } from './Environment.js'
+import { StatusError, CircuitOpenError, ProtocolError, ConfigureError, TimeoutError } from './errors.js'
+import { Environment } from './Environment.js'
 import type { ContextLike } from './interfaces/ContextLike.js'
+import type { THttpContextOverrides } from './contexts/Context.js'
 import { Middleware } from './interfaces/MiddlewareLike.js'
+import { MockRequestMiddleware } from './middlewares/MockRequestMiddleware.js'
+import { PathComponents } from './configs/PathComponents.js'
+import { LruCacheStorage } from './libs/HttpCache.js'
 import { Endpoints } from './Endpoints.js'
 
 beforeEach(async (ctx) => {
@@ -96,3 +101,608 @@ test('ApiRouter: Endpoints', async (ctx) => {
   expect(value2).toStrictEqual({ message: 'Hello World!', joke: 'You filthy brute' })
   expect(error2).toBeFalsy()
 })
+
+test('ApiRouter: Endpoints errorprocessor', async (ctx) => {
+  class EndpointsImpl extends Endpoints<'ERROR_STATUS'> {
+    readonly ERROR_STATUS: TEndpointHttpConfig = {
+      path: 'api/error_status_and_back_json',
+      postprocessor: 'JsonResponseMiddleware',
+      // Тело ответа с ошибкой будет прочитано и добавлено в StatusError.detail.data
+      errorprocessor: 'JsonResponseMiddleware'
+    }
+
+    constructor(baseUrl: string) {
+      super(null, { path: baseUrl, requestInit: { cache: 'no-cache' } })
+    }
+
+    errorStatus<T> (data: Record<string, any>): Promise<TResponse<T>> {
+      return this.exec('ERROR_STATUS', { method: 'POST', data })
+    }
+  }
+
+  const endpoints = new EndpointsImpl(ctx.serverOrigin)
+
+  const { ok, value, error } = await endpoints.errorStatus({ code: 400, message: 'Bad Request' })
+  expect(ok).toBe(false)
+  expect(value).toBeNull()
+  expect(error).toBeInstanceOf(StatusError)
+  expect(error!.detail.status).toBe(400)
+  expect(error!.detail.data).toStrictEqual({ code: 400, message: 'Bad Request' })
+
+  const { ok: ok1, value: value1 } = await endpoints.errorStatus({ code: 200, message: 'OK' })
+  expect(ok1).toBe(true)
+  expect(value1).toStrictEqual({ code: 200, message: 'OK' })
+})
+
+test('ApiRouter: Endpoints retryPolicy', async (ctx) => {
+  class EndpointsImpl extends Endpoints<'RETRY_STATUS' | 'RETRY_GET_ONLY'> {
+    readonly RETRY_STATUS: TEndpointHttpConfig = {
+      path: 'api/retry_status_and_back_json',
+      postprocessor: 'JsonResponseMiddleware',
+      retries: 3,
+      retryDelay: 10,
+      retryPolicy: { statuses: [429, 503] }
+    }
+
+    readonly RETRY_GET_ONLY: TEndpointHttpConfig = {
+      path: 'api/retry_status_and_back_json',
+      postprocessor: 'JsonResponseMiddleware',
+      retries: 3,
+      retryPolicy: { statuses: [503], methods: ['GET'] }
+    }
+
+    constructor(baseUrl: string) {
+      super(null, { path: baseUrl, requestInit: { cache: 'no-cache' } })
+    }
+
+    retryStatus<T> (data: Record<string, any>): Promise<TResponse<T>> {
+      return this.exec('RETRY_STATUS', { method: 'POST', data })
+    }
+
+    retryGetOnly<T> (data: Record<string, any>): Promise<TResponse<T>> {
+      return this.exec('RETRY_GET_ONLY', { method: 'POST', data })
+    }
+  }
+
+  const endpoints = new EndpointsImpl(ctx.serverOrigin)
+
+  // Две ошибки 503 и успешный третий запрос
+  const { ok, value } = await endpoints.retryStatus<{ count: number }>({ key: 'a', fails: 2, code: 503 })
+  expect(ok).toBe(true)
+  expect(value!.count).toBe(3)
+
+  // Retry-After в секундах имеет приоритет над retryDelay
+  const start = Date.now()
+  const { ok: ok1, value: value1 } = await endpoints.retryStatus<{ count: number }>({ key: 'b', fails: 1, code: 429, retryAfter: 1 })
+  expect(ok1).toBe(true)
+  expect(value1!.count).toBe(2)
+  expect(Date.now() - start).toBeGreaterThanOrEqual(900)
+
+  // Статус не входит в список
+  const { ok: ok2, error: error2 } = await endpoints.retryStatus({ key: 'c', fails: 1, code: 500 })
+  expect(ok2).toBe(false)
+  expect(error2).toBeInstanceOf(StatusError)
+  expect(error2!.detail.status).toBe(500)
+
+  // Исчерпано количество попыток
+  const { ok: ok3, error: error3 } = await endpoints.retryStatus({ key: 'd', fails: 10, code: 503 })
+  expect(ok3).toBe(false)
+  expect(error3!.detail.status).toBe(503)
+
+  // Метод POST не разрешен политикой
+  const { ok: ok4, error: error4 } = await endpoints.retryGetOnly({ key: 'e', fails: 1, code: 503 })
+  expect(ok4).toBe(false)
+  expect(error4!.detail.status).toBe(503)
+})
+
+test('ApiRouter: Endpoints retryPolicy timeout', async () => {
+  const mock = new MockRequestMiddleware()
+  mock.routes
+    .on('GET', '/api/hang', { status: 503 }, { times: 1 })
+    // Повторная попытка не отвечает дольше timeout
+    .on('GET', '/api/hang', { json: { ok: true } }, { delay: 3000 })
+
+  class EndpointsImpl extends Endpoints<'HANG'> {
+    readonly HANG: TEndpointHttpConfig = {
+      path: 'hang',
+      postprocessor: 'JsonResponseMiddleware',
+      timeout: 200,
+      retries: 2,
+      retryDelay: 10,
+      retryPolicy: { statuses: [503] }
+    }
+
+    constructor() {
+      super(new Environment({ middlewares: [mock], executorKindMap: new Map([['http', mock.kind]]) }), { path: 'http://localhost/api' })
+    }
+  }
+
+  const endpoints = new EndpointsImpl()
+  const start = Date.now()
+  const { ok, error } = await endpoints.exec('HANG', { method: 'GET' })
+  expect(ok).toBe(false)
+  expect(error).toBeInstanceOf(TimeoutError)
+  expect(Date.now() - start).toBeLessThan(1000)
+  expect(mock.routes.callsOf('/api/hang').length).toBe(2)
+})
+
+test('ApiRouter: Endpoints overrides', async (ctx) => {
+  const seenHeaders: [string, null | string][] = []
+  class HeadersSpy extends Middleware<any, any> {
+    static kind = 'HeadersSpy'
+    kind = 'HeadersSpy'
+    override process (ctx: ContextLike) {
+      const headers = (ctx as any).headers
+      seenHeaders.push([headers.get('x-app'), headers.get('x-call')])
+      return ctx.passthrough()
+    }
+  }
+
+  class EndpointsImpl extends Endpoints<'RETRY'> {
+    readonly RETRY: TEndpointHttpConfig = {
+      path: 'api/retry_status_and_back_json',
+      preprocessor: 'HeadersSpy',
+      postprocessor: 'JsonResponseMiddleware',
+      headers: { 'x-app': 'app' },
+      retries: 3,
+      retryPolicy: { statuses: [503] }
+    }
+
+    constructor(baseUrl: string) {
+      super(new Environment({ middlewares: [HeadersSpy] }), { path: baseUrl, requestInit: { cache: 'no-cache' } })
+    }
+  }
+
+  const endpoints = new EndpointsImpl(ctx.serverOrigin)
+
+  // Повторы конфигурации
+  const { ok, value } = await endpoints.exec<{ count: number }>('RETRY', { method: 'POST', data: { key: 'ov-a', fails: 1, code: 503 } })
+  expect(ok).toBe(true)
+  expect(value!.count).toBe(2)
+
+  // Повторы отключены только для этого вызова, заголовки расширяют заголовки конфигурации
+  seenHeaders.length = 0
+  const { ok: ok1, error: error1 } = await endpoints.exec('RETRY', {
+    method: 'POST',
+    data: { key: 'ov-b', fails: 1, code: 503 },
+    overrides: { retries: false, headers: { 'x-call': 'call' } }
+  })
+  expect(ok1).toBe(false)
+  expect(error1!.detail.status).toBe(503)
+  expect(seenHeaders).toStrictEqual([['app', 'call']])
+
+  // Следующий вызов снова использует параметры конфигурации
+  seenHeaders.length = 0
+  const { ok: ok2 } = await endpoints.exec('RETRY', { method: 'POST', data: { key: 'ov-c', fails: 1, code: 503 } })
+  expect(ok2).toBe(true)
+  expect(seenHeaders).toStrictEqual([['app', null], ['app', null]])
+
+  // Совпадающий заголовок вызова заменяет заголовок конфигурации, а headers:false сбрасывает заголовки
+  seenHeaders.length = 0
+  await endpoints.exec('RETRY', { method: 'POST', data: { key: 'ov-d' }, overrides: { headers: { 'x-app': 'call' } } })
+  await endpoints.exec('RETRY', { method: 'POST', data: { key: 'ov-e' }, overrides: { headers: false } })
+  expect(seenHeaders).toStrictEqual([['call', null], [null, null]])
+
+  // Недопустимые значения не игнорируются
+  const { ok: ok3, error: error3 } = await endpoints.exec('RETRY', { method: 'POST', data: {}, overrides: { timeout: -1 } })
+  expect(ok3).toBe(false)
+  expect(error3).toBeInstanceOf(ConfigureError)
+  const { error: error4 } = await endpoints.exec('RETRY', { method: 'POST', data: {}, overrides: { queuePriority: 1.5 } })
+  expect(error4).toBeInstanceOf(ConfigureError)
+})
+
+test('ApiRouter: Endpoints meta', async (ctx) => {
+  class EndpointsImpl extends Endpoints<'RETRY'> {
+    readonly RETRY: TEndpointHttpConfig = {
+      path: 'api/retry_status_and_back_json',
+      postprocessor: 'JsonResponseMiddleware',
+      queueKey: 'meta',
+      retries: 2,
+      retryPolicy: { statuses: [503] }
+    }
+
+    constructor(baseUrl: string) {
+      super(null, { path: baseUrl, requestInit: { cache: 'no-cache' } })
+    }
+  }
+
+  const endpoints = new EndpointsImpl(ctx.serverOrigin)
+
+  // Метаданные сохраняются после преобразования Response в JSON
+  const { ok, meta } = await endpoints.exec('RETRY', { method: 'POST', data: { key: 'meta-a', fails: 1, code: 503 } })
+  expect(ok).toBe(true)
+  expect(meta!.status).toBe(200)
+  expect(meta!.headers!.get('content-type')).toContain('application/json')
+  expect(meta!.url.endsWith('/api/retry_status_and_back_json')).toBe(true)
+  expect(meta!.attempt).toBe(2)
+  expect(Object.keys(meta!.timings)).toStrictEqual(['queued', 'fetching', 'postprocessing'])
+  expect(meta!.timings.fetching).toBeGreaterThanOrEqual(0)
+
+  // Ошибка статуса сохраняет статус и заголовки ответа
+  const { ok: ok1, error: error1, meta: meta1 } = await endpoints.exec('RETRY', { method: 'POST', data: { key: 'meta-b', fails: 1, code: 500 } })
+  expect(ok1).toBe(false)
+  expect(error1).toBeInstanceOf(StatusError)
+  expect(meta1!.status).toBe(500)
+  expect(meta1!.attempt).toBe(1)
+})
+
+test('ApiRouter: Endpoints circuitBreaker', async (ctx) => {
+  class EndpointsImpl extends Endpoints<'BREAKER' | 'NO_KEY'> {
+    readonly BREAKER: TEndpointHttpConfig = {
+      path: 'api/error_status_and_back_json',
+      postprocessor: 'JsonResponseMiddleware',
+      circuitBreaker: { key: 'backend', failureThreshold: 2, cooldown: 60000 }
+    }
+
+    readonly NO_KEY: TEndpointHttpConfig = {
+      path: 'api/error_status_and_back_json',
+      // @ts-expect-error Ключ выключателя обязателен
+      circuitBreaker: { failureThreshold: 2 }
+    }
+
+    constructor(baseUrl: string) {
+      super(null, { path: baseUrl, requestInit: { cache: 'no-cache' } })
+    }
+
+    get environment (): Environment {
+      return this._internalEnvironment
+    }
+
+    send<T> (data: Record<string, any>): Promise<TResponse<T>> {
+      return this.exec('BREAKER', { method: 'POST', data })
+    }
+  }
+
+  const endpoints = new EndpointsImpl(ctx.serverOrigin)
+
+  // Ошибки клиента не размыкают цепь
+  expect((await endpoints.send({ code: 400 })).error).toBeInstanceOf(StatusError)
+  expect((await endpoints.send({ code: 503 })).error).toBeInstanceOf(StatusError)
+  expect(endpoints.environment.circuitBreakers.tryGet('backend')!.state).toBe('closed')
+  expect((await endpoints.send({ code: 503 })).error).toBeInstanceOf(StatusError)
+  expect(endpoints.environment.circuitBreakers.tryGet('backend')!.state).toBe('open')
+
+  // Запрос отклоняется без обращения к серверу
+  const { ok, error } = await endpoints.send({ code: 200 })
+  expect(ok).toBe(false)
+  expect(error).toBeInstanceOf(CircuitOpenError)
+
+  endpoints.environment.circuitBreakers.reset('backend')
+  const { ok: ok1, value: value1 } = await endpoints.send({ code: 200 })
+  expect(ok1).toBe(true)
+  expect(value1).toStrictEqual({ code: 200 })
+
+  // Ключ конечной точки не уникален в окружении и не используется по умолчанию
+  const { error: error2 } = await endpoints.exec('NO_KEY', { method: 'POST', data: { code: 200 } })
+  expect(error2).toBeInstanceOf(ConfigureError)
+})
+
+test('ApiRouter: Endpoints dedupe', async (ctx) => {
+  class EndpointsImpl extends Endpoints<'COUNTER'> {
+    readonly COUNTER: TEndpointHttpConfig = {
+      path: 'api/get_counter_json',
+      postprocessor: 'JsonResponseMiddleware',
+      dedupe: { headers: ['Authorization'] }
+    }
+
+    constructor(baseUrl: string) {
+      super(null, { path: baseUrl, requestInit: { cache: 'no-cache' } })
+    }
+
+    count (abortSignal?: AbortSignal, overrides?: THttpContextOverrides): Promise<TResponse<{ count: number }>> {
+      return this.exec('COUNTER', { method: 'GET', abortSignal, overrides })
+    }
+  }
+
+  const endpoints = new EndpointsImpl(ctx.serverOrigin)
+
+  // Одновременные запросы выполняются один раз
+  const [r1, r2, r3] = await Promise.all([endpoints.count(), endpoints.count(), endpoints.count()])
+  expect(r1.value).toStrictEqual({ count: 1 })
+  expect(r2.value).toStrictEqual({ count: 1 })
+  expect(r3.value).toStrictEqual({ count: 1 })
+  // Объект результата у каждого вызывающего свой
+  expect(r1).not.toBe(r2)
+
+  // Завершенный запрос не переиспользуется
+  expect((await endpoints.count()).value).toStrictEqual({ count: 2 })
+
+  // Прерывание одного вызывающего не отменяет общий запрос
+  const controller = new AbortController()
+  const p1 = endpoints.count(controller.signal)
+  const p2 = endpoints.count()
+  setTimeout(() => controller.abort(), 10)
+  const [a1, a2] = await Promise.all([p1, p2])
+  expect(a1.ok).toBe(false)
+  expect(a2.value).toStrictEqual({ count: 3 })
+
+  // Вызов с параметрами overrides не присоединяется к общему запросу
+  const [o1, o2] = await Promise.all([endpoints.count(), endpoints.count(undefined, { headers: { authorization: 'other' } })])
+  expect([o1.value!.count, o2.value!.count].sort()).toStrictEqual([4, 5])
+})
+
+test('ApiRouter: Endpoints cache', async (ctx) => {
+  const requests: (null | string)[] = []
+  // Заменяет fetch() и отвечает 304 на совпадающий If-None-Match
+  class CacheExecutor extends Middleware<any, Response> {
+    static kind = 'CacheExecutor'
+    kind = 'CacheExecutor'
+
+    override process (ctx: ContextLike<any, any>, _: any): Response {
+      const etag = (ctx as any).headers.get('if-none-match') as null | string
+      requests.push(etag)
+      const headers: Record<string, string> = { 'content-type': 'application/json', etag: '"v1"' }
+      if ((ctx as any).url.toString().endsWith('/cached')) {
+        headers['cache-control'] = 'no-cache'
+      }
+      return etag === '"v1"'
+        ? new Response(null, { status: 304, headers })
+        : new Response(JSON.stringify({ message: 'cached' }), { status: 200, headers })
+    }
+  }
+
+  // Хранилище, которое не может прочитать или сохранить запись
+  const broken = new LruCacheStorage()
+  broken.get = () => {
+    throw new Error('storage is unavailable')
+  }
+  broken.set = () => Promise.reject(new Error('storage is unavailable'))
+
+  const env = new Environment()
+  const storage = new LruCacheStorage()
+
+  class EndpointsImpl extends Endpoints<'CACHED' | 'FRESH' | 'BROKEN' | 'CONDITIONAL' | 'GUARDED'> {
+    readonly CACHED: TEndpointHttpConfig = {
+      path: 'cached',
+      executor: CacheExecutor,
+      postprocessor: 'JsonResponseMiddleware',
+      cache: true
+    }
+
+    readonly FRESH: TEndpointHttpConfig = {
+      path: 'fresh',
+      executor: CacheExecutor,
+      postprocessor: 'JsonResponseMiddleware',
+      cache: { maxAge: 60000 }
+    }
+
+    readonly BROKEN: TEndpointHttpConfig = {
+      path: 'broken',
+      executor: CacheExecutor,
+      postprocessor: 'JsonResponseMiddleware',
+      cache: { storage: broken }
+    }
+
+    // Условный заголовок установлен конфигурацией, а не кешем
+    readonly CONDITIONAL: TEndpointHttpConfig = {
+      path: 'conditional',
+      executor: CacheExecutor,
+      postprocessor: 'JsonResponseMiddleware',
+      headers: { 'if-none-match': '"v1"' },
+      cache: true
+    }
+
+    readonly GUARDED: TEndpointHttpConfig = {
+      path: 'guarded',
+      executor: CacheExecutor,
+      postprocessor: 'JsonResponseMiddleware',
+      cache: { storage, maxAge: 60000 },
+      circuitBreaker: { key: 'cache', failureThreshold: 1 }
+    }
+
+    constructor(baseUrl: string) {
+      super(env, { path: baseUrl })
+    }
+
+    get<T> (key: 'CACHED' | 'FRESH' | 'BROKEN' | 'CONDITIONAL' | 'GUARDED'): Promise<TResponse<T>> {
+      return this.exec(key, { method: 'GET' })
+    }
+  }
+
+  const endpoints = new EndpointsImpl(ctx.serverOrigin)
+
+  // Ответ no-cache проверяется при каждом запросе, а 304 заменяется сохраненным значением
+  expect((await endpoints.get('CACHED')).value).toStrictEqual({ message: 'cached' })
+  expect((await endpoints.get('CACHED')).value).toStrictEqual({ message: 'cached' })
+  expect(requests).toStrictEqual([null, '"v1"'])
+
+  // Ответ без max-age свеж в течение maxAge конфигурации и возвращается без вызова executor
+  requests.length = 0
+  expect((await endpoints.get('FRESH')).value).toStrictEqual({ message: 'cached' })
+  expect((await endpoints.get('FRESH')).value).toStrictEqual({ message: 'cached' })
+  expect(requests).toStrictEqual([null])
+
+  // Ошибка чтения хранилища считается промахом кеша, ошибка записи не влияет на полученный ответ
+  requests.length = 0
+  const brokenResult = await endpoints.get('BROKEN')
+  expect(brokenResult.value).toStrictEqual({ message: 'cached' })
+  expect(brokenResult.meta!.attempt).toBe(1)
+  expect(requests).toStrictEqual([null])
+
+  // Ответ 304 без сохраненной записи запрашивается повторно без условных заголовков
+  requests.length = 0
+  expect((await endpoints.get('CONDITIONAL')).value).toStrictEqual({ message: 'cached' })
+  expect(requests).toStrictEqual(['"v1"', null])
+
+  // Разомкнутый выключатель не отклоняет запрос, на который можно ответить из кеша
+  requests.length = 0
+  expect((await endpoints.get('GUARDED')).ok).toBe(true)
+  env.circuitBreakers.tryGet('cache')!.failure()
+  expect((await endpoints.get('GUARDED')).value).toStrictEqual({ message: 'cached' })
+  expect(requests).toStrictEqual([null])
+  storage.clear()
+  expect((await endpoints.get('GUARDED')).error).toBeInstanceOf(CircuitOpenError)
+  expect(requests).toStrictEqual([null])
+})
+
+test('ApiRouter: Endpoints cache authorization', async () => {
+  const requests: (null | string)[] = []
+  // Отвечает телом, зависящим от заголовка Authorization
+  class UserExecutor extends Middleware<any, Response> {
+    static kind = 'UserExecutor'
+    kind = 'UserExecutor'
+
+    override process (ctx: ContextLike<any, any>, _: any): Response {
+      const authorization = (ctx as any).headers.get('authorization') as null | string
+      requests.push(authorization)
+      return new Response(JSON.stringify({ user: authorization }), {
+        status: 200,
+        headers: { 'content-type': 'application/json', 'cache-control': 'max-age=60', vary: 'Authorization' }
+      })
+    }
+  }
+
+  class EndpointsImpl extends Endpoints<'SHARED' | 'PRIVATE'> {
+    readonly SHARED: TEndpointHttpConfig = {
+      path: 'shared',
+      executor: UserExecutor,
+      postprocessor: 'JsonResponseMiddleware',
+      cache: { storage: new LruCacheStorage(), authorized: true }
+    }
+
+    readonly PRIVATE: TEndpointHttpConfig = {
+      path: 'private',
+      executor: UserExecutor,
+      postprocessor: 'JsonResponseMiddleware',
+      cache: { storage: new LruCacheStorage() }
+    }
+
+    constructor() {
+      super(null, { path: 'http://localhost/api' })
+    }
+
+    get<T> (key: 'SHARED' | 'PRIVATE', authorization: string): Promise<TResponse<T>> {
+      return this.exec(key, { method: 'GET', overrides: { headers: { authorization } } })
+    }
+  }
+
+  const endpoints = new EndpointsImpl()
+
+  // Запись с Vary: Authorization не возвращается пользователю с другим заголовком
+  expect((await endpoints.get('SHARED', 'a')).value).toStrictEqual({ user: 'a' })
+  expect((await endpoints.get('SHARED', 'b')).value).toStrictEqual({ user: 'b' })
+  expect((await endpoints.get('SHARED', 'b')).value).toStrictEqual({ user: 'b' })
+  expect((await endpoints.get('SHARED', 'a')).value).toStrictEqual({ user: 'a' })
+  expect(requests).toStrictEqual(['a', 'b', 'a'])
+
+  // Без параметра authorized запросы с заголовком Authorization не кешируются
+  requests.length = 0
+  expect((await endpoints.get('PRIVATE', 'a')).value).toStrictEqual({ user: 'a' })
+  expect((await endpoints.get('PRIVATE', 'a')).value).toStrictEqual({ user: 'a' })
+  expect(requests).toStrictEqual(['a', 'a'])
+})
+
+test('ApiRouter: Endpoints url', () => {
+  const env = new Environment()
+
+  class EndpointsImpl extends Endpoints<'USER' | 'LIST' | 'BROKEN'> {
+    readonly USER: TEndpointHttpConfig = { path: new PathComponents('users/{id}', true) }
+    readonly LIST: TEndpointHttpConfig = { path: 'users' }
+    readonly BROKEN: TEndpointHttpConfig = { preset: 'unknown_preset' }
+
+    constructor() {
+      super(env, { path: 'https://example.com/api' })
+    }
+  }
+
+  const endpoints = new EndpointsImpl()
+
+  // URL формируется без запроса так же, как это сделает exec()
+  expect(endpoints.url('USER', { path: { id: 7 }, query: null, hash: 'top' })).toStrictEqual({ ok: true, value: 'https://example.com/api/users/7#top' })
+  expect(endpoints.url('LIST', { path: null, query: { page: 2 }, hash: null }).value).toBe('https://example.com/api/users?page=2')
+  expect(endpoints.url('LIST', 'active').value).toBe('https://example.com/api/users/active')
+
+  // Ошибки возвращаются, а не выбрасываются
+  expect(endpoints.url('USER').error).toBeInstanceOf(ProtocolError)
+  expect(endpoints.url('BROKEN').error).toBeInstanceOf(ConfigureError)
+
+  // Окружение формирует URL из произвольной конфигурации
+  expect(env.url({ path: 'https://example.com/files' }, 'a.png').value).toBe('https://example.com/files/a.png')
+})
+
+test('ApiRouter: Endpoints invalidate', () => {
+  const env = new Environment()
+  env.presetConfig({ timeout: 1000 }, 'slow')
+
+  class EndpointsImpl extends Endpoints<'USERS' | 'FILES'> {
+    readonly USERS: TEndpointHttpConfig = { path: 'users', preset: 'slow' }
+    readonly FILES: TEndpointHttpConfig = { path: 'files' }
+
+    constructor() {
+      super(env, { path: 'https://example.com/api' })
+    }
+
+    config (key: 'USERS' | 'FILES') {
+      return this._internalBuildConfig(key)
+    }
+  }
+
+  const endpoints = new EndpointsImpl()
+  const users = endpoints.config('USERS')
+  const files = endpoints.config('FILES')
+  expect(users.timeout).toBe(1000)
+  // Собранная конфигурация кешируется
+  expect(endpoints.config('USERS')).toBe(users)
+
+  // Замена пресета пересобирает зависимые конфигурации при следующем обращении
+  const revision = env.configRevision
+  env.replacePresetConfig('slow', { timeout: 5000 })
+  expect(env.configRevision).not.toBe(revision)
+  expect(endpoints.config('USERS').timeout).toBe(5000)
+  expect(users.timeout).toBe(1000)
+  expect(() => env.replacePresetConfig('unknown_preset', {})).toThrow(ConfigureError)
+
+  // Сброс одного ключа не затрагивает остальные
+  const files2 = endpoints.config('FILES')
+  expect(files2).not.toBe(files)
+  const users2 = endpoints.config('USERS')
+  endpoints.invalidate('USERS')
+  expect(endpoints.config('USERS')).not.toBe(users2)
+  expect(endpoints.config('FILES')).toBe(files2)
+
+  // Общий сигнал окружения
+  env.invalidate()
+  expect(endpoints.config('FILES')).not.toBe(files2)
+
+  // Новая базовая конфигурация
+  endpoints.reconfigure({ path: 'https://example.org/v2' })
+  expect(endpoints.url('FILES').value).toBe('https://example.org/v2/files')
+})
+
+test('ApiRouter: Endpoints validate', () => {
+  const env = new Environment()
+
+  class EndpointsImpl extends Endpoints<'USERS' | 'NO_URL' | 'NO_CONTEXT' | 'NO_MIDDLEWARE'> {
+    readonly USERS: TEndpointHttpConfig = { path: 'https://example.com/api/users', postprocessor: 'JsonResponseMiddleware' }
+    readonly NO_URL: TEndpointHttpConfig = {}
+    readonly NO_CONTEXT: TEndpointHttpConfig = { path: 'https://example.com/api', context: 'unknown_context' }
+    readonly NO_MIDDLEWARE: TEndpointHttpConfig = { path: 'https://example.com/api', preprocessor: ['unknown_pre'], postprocessor: 'unknown_post' }
+    // Вспомогательные поля производного класса не являются конфигурациями
+    protected readonly _store = new Map<string, number>()
+    protected readonly _names = ['USERS']
+    readonly onEvent = (): null => null
+
+    constructor() {
+      super(env)
+    }
+  }
+
+  const endpoints = new EndpointsImpl()
+  // Все ошибки собираются в один отчет, а не останавливаются на первой
+  const report = endpoints.validate()
+  expect(report.ok).toBe(false)
+  expect(report.keys).toStrictEqual(['USERS'])
+  expect(report.issues.map(({ key }) => key)).toStrictEqual(['NO_URL', 'NO_CONTEXT', 'NO_MIDDLEWARE', 'NO_MIDDLEWARE'])
+  expect(report.issues.every(({ error }) => error instanceof ConfigureError)).toBe(true)
+
+  expect(endpoints.validate(['USERS'])).toStrictEqual({ ok: true, keys: ['USERS'], issues: [] })
+
+  try {
+    endpoints.buildAll()
+    expect.unreachable()
+  } catch (e) {
+    expect(e).toBeInstanceOf(ConfigureError)
+    expect((e as ConfigureError).detail.data).toHaveLength(4)
+  }
+  expect(() => endpoints.buildAll(['USERS'])).not.toThrow()
+})
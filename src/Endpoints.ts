@@ -1,18 +1,91 @@
 import type { TResponse } from './types.js'
+import { safeToJson } from './utils.js'
 import { ApiRouterError, ConfigureError, errorDetails } from './errors.js'
 import type { TEndpointOptionsConfig } from './configs/types.js'
 import type { HttpContextLike, THttpContextOptions } from './contexts/Context.js'
 import { type EndpointConfig, EndpointOptionsConfig } from './configs/EndpointConfig.js'
+import { type TMiddlewareRef, isMiddlewareRef } from './middlewares/Middleware.js'
 import { buildEndpointConfig } from './configs/utils.js'
+import type { TUrlComponents } from './configs/UrlConfig.js'
+import { type TConfigProvenance, explainEndpointConfig } from './configs/ConfigProvenance.js'
+import {
+  type TTypedHttpContextOptions,
+  type TTypedEndpointResult,
+  type TIsTypedEndpoint,
+  typedContextOptionsToContextOptions
+} from './configs/TypedEndpoint.js'
 import { Environment } from './Environment.js'
 
+/**
+ * Ключи конфигураций, которые не объявлены через {@link typedEndpoint}.
+ */
+type TUntypedEndpointKey<TSelf, TConfigKey extends (string | symbol)> = {
+  [K in TConfigKey]: K extends keyof TSelf ? (TIsTypedEndpoint<TSelf[K]> extends true ? never : K) : K
+}[TConfigKey]
+
+/**
+ * Ошибка сборки конфигурации конечной точки.
+ */
+interface TEndpointIssue {
+  readonly key: string | symbol
+  readonly error: ApiRouterError
+}
+
+/**
+ * Результат {@link Endpoints.validate()}.
+ */
+interface TEndpointsReport {
+  /**
+   * `true`, если все конфигурации собраны без ошибок.
+   */
+  readonly ok: boolean
+  /**
+   * Ключи успешно собранных конфигураций.
+   */
+  readonly keys: readonly (string | symbol)[]
+  /**
+   * Все найденные ошибки. Одна конфигурация может иметь несколько ошибок.
+   */
+  readonly issues: readonly TEndpointIssue[]
+}
+
+/**
+ * Похоже ли значение свойства на конфигурацию конечной точки: литерал объекта или {@link EndpointOptionsConfig}.
+ * Экземпляры других классов, массивы и функции вспомогательных полей производного класса не учитываются.
+ */
+function _isEndpointConfigLike (value: unknown): boolean {
+  if (value instanceof EndpointOptionsConfig) {
+    return true
+  }
+  if (value === null || typeof value !== 'object') {
+    return false
+  }
+  const proto = Object.getPrototypeOf(value)
+  return proto === Object.prototype || proto === null
+}
+
 /**
  * Конфигуратор `endpoints`.
+ *
+ * Второй параметр типа принимает сам производный класс и включает вывод типов {@link exec()} для конфигураций
+ * {@link typedEndpoint}. Полиморфный `this` для этого не подходит - внутри методов класса его типы не вычисляются.
+ *
+ * @example
+ * ```ts
+ * class Api extends Endpoints<'USER', Api> {
+ *   readonly USER = typedEndpoint<TUser>()({ path: 'users/{id}', preset: 'json' })
+ *
+ *   getUser (id: number): Promise<TResponse<TUser>> {
+ *     return this.exec('USER', { method: 'GET', params: { id } })
+ *   }
+ * }
+ * ```
  */
-abstract class Endpoints<TConfigKey extends (string | symbol)> {
+abstract class Endpoints<TConfigKey extends (string | symbol), TSelf = unknown> {
   protected readonly _internalEndpoints = new Map<TConfigKey, EndpointConfig>()
   protected readonly _internalEnvironment: Environment
-  protected readonly _internalConfig: EndpointOptionsConfig
+  protected _internalConfig: EndpointOptionsConfig
+  protected _internalRevision: number
 
   /**
    * @param env           Общее окружение.
@@ -25,25 +98,39 @@ abstract class Endpoints<TConfigKey extends (string | symbol)> {
     useSelfTarget?: undefined | null | boolean
   ) {
     this._internalEnvironment = env ?? new Environment()
+    this._internalConfig = this._internalOptionsConfig(config, useSelfTarget)
+    this._internalRevision = this._internalEnvironment.configRevision
+  }
+
+  protected _internalOptionsConfig (
+    config: undefined | null | TEndpointOptionsConfig | EndpointOptionsConfig,
+    useSelfTarget: undefined | null | boolean
+  ): EndpointOptionsConfig {
     if (config instanceof EndpointOptionsConfig) {
       if (useSelfTarget) {
-        this._internalConfig = this._internalEnvironment.extendsOptionsConfig(config, { target: this })
-      }
-      else {
-        this._internalConfig = config
+        return this._internalEnvironment.extendsOptionsConfig(config, { target: this })
       }
+      return config
     }
-    else {
-      if (useSelfTarget) {
-        this._internalConfig = this._internalEnvironment.extendsOptionsConfig(config ?? {}, { target: this })
-      }
-      else {
-        this._internalConfig = this._internalEnvironment.optionsConfig(config ?? {})
-      }
+    if (useSelfTarget) {
+      return this._internalEnvironment.extendsOptionsConfig(config ?? {}, { target: this })
+    }
+    return this._internalEnvironment.optionsConfig(config ?? {})
+  }
+
+  /**
+   * Сбрасывает кеш собранных конфигураций, если ревизия окружения {@link Environment.configRevision} изменилась.
+   */
+  protected _internalSyncRevision (): void {
+    const revision = this._internalEnvironment.configRevision
+    if (this._internalRevision !== revision) {
+      this._internalRevision = revision
+      this._internalEndpoints.clear()
     }
   }
 
   protected _internalBuildConfig (key: TConfigKey): EndpointConfig {
+    this._internalSyncRevision()
     const cnf = this._internalEndpoints.get(key)
     if (cnf) {
       return cnf
@@ -66,11 +153,161 @@ abstract class Endpoints<TConfigKey extends (string | symbol)> {
     }
   }
 
-  exec<T> (key: TConfigKey, options: THttpContextOptions): any | Promise<TResponse<T>> {
+  /**
+   * Сбрасывает собранную конфигурацию конечной точки `key` или все конфигурации, если ключ не указан. Конфигурации
+   * будут пересобраны при следующем обращении, а уже выполняющиеся запросы сохранят прежнюю конфигурацию.
+   *
+   * @param key Необязательный ключ конфигурации.
+   */
+  invalidate (key?: undefined | null | TConfigKey): void {
+    if (key === undefined || key === null) {
+      this._internalEndpoints.clear()
+    }
+    else {
+      this._internalEndpoints.delete(key)
+    }
+  }
+
+  /**
+   * Заменяет базовую конфигурацию, например базовый `URL`, и сбрасывает все собранные конфигурации.
+   *
+   * @param config        Новая базовая конфигурация.
+   * @param useSelfTarget Если `true` в конфигурацию будет установлен `{ target: this }`.
+   */
+  reconfigure (config: TEndpointOptionsConfig | EndpointOptionsConfig, useSelfTarget?: undefined | null | boolean): void {
+    this._internalConfig = this._internalOptionsConfig(config, useSelfTarget)
+    this._internalEndpoints.clear()
+  }
+
+  /**
+   * Возвращает итоговую строку `URL` конечной точки `key` так же, как ее сформирует {@link exec()}, но без
+   * выполнения запроса.
+   *
+   * @param key  Ключ конфигурации.
+   * @param path Компоненты пути, аналогичные {@link THttpContextOptions.path}.
+   */
+  url (key: TConfigKey, path?: undefined | null | string | TUrlComponents): TResponse<string> {
+    let config: EndpointConfig
+    try {
+      config = this._internalBuildConfig(key)
+    } catch (e) {
+      return { ok: false, value: null, error: e instanceof ApiRouterError ? e : new ConfigureError(errorDetails.ConfigureError(`Конфигурация ${safeToJson(key)} не была собрана.`, e)) }
+    }
+    return this._internalEnvironment.url(config, path)
+  }
+
+  /**
+   * Возвращает итоговые параметры конфигурации `key` с указанием слоя, из которого получен каждый параметр: окружение,
+   * базовая конфигурация `Endpoints`, пресет или поле конечной точки. Для сериализации используйте
+   * {@link configProvenanceToJson()}.
+   *
+   * @param key Ключ конфигурации.
+   */
+  explain (key: TConfigKey): TConfigProvenance {
+    return explainEndpointConfig(this._internalEnvironment, key, (this as any)[key], this._internalConfig)
+  }
+
+  /**
+   * Ключи объявленных конфигураций: собственные перечисляемые свойства экземпляра, кроме `_internal*`, значениями
+   * которых являются литералы объектов или {@link EndpointOptionsConfig}.
+   *
+   * Производный класс, который хранит во вспомогательных полях литералы объектов, может переопределить этот метод и
+   * возвратить явный список ключей.
+   */
+  protected _internalDeclaredKeys (): TConfigKey[] {
+    const keys: TConfigKey[] = []
+    for (const key of Reflect.ownKeys(this)) {
+      if (typeof key === 'string' && key.startsWith('_internal')) {
+        continue
+      }
+      const desc = Object.getOwnPropertyDescriptor(this, key)!
+      if (desc.enumerable && _isEndpointConfigLike(desc.value)) {
+        keys.push(key as TConfigKey)
+      }
+    }
+    return keys
+  }
+
+  /**
+   * Проверяет ленивые ссылки собранной конфигурации на `Context` и `Middleware`, которые иначе разрешаются только при
+   * первом запросе.
+   */
+  protected _internalResolveConfig (key: TConfigKey, config: EndpointConfig, issues: TEndpointIssue[]): void {
+    if (this._internalEnvironment.contextRegistry.isUnresolved(config.context)) {
+      issues.push({ key, error: new ConfigureError(errorDetails.ConfigureError(`Конфигурация ${safeToJson(key)} ссылается на незарегистрированный Context ${safeToJson(config.context.kind)}.`)) })
+    }
+    const refs: TMiddlewareRef<any, any>[] = []
+    for (const item of [config.preprocessor, config.postprocessor, config.errorprocessor, (config as { executor?: unknown }).executor]) {
+      if (isMiddlewareRef(item)) {
+        refs.push(...(item.iterable ? item.ref.refs : [item]))
+      }
+    }
+    for (const ref of refs) {
+      try {
+        // Ленивая ссылка создает экземпляр или выбрасывает ошибку для незарегистрированного имени
+        void ref.ref
+      } catch (e) {
+        issues.push({ key, error: e instanceof ApiRouterError ? e : new ConfigureError(errorDetails.ConfigureError(`Конфигурация ${safeToJson(key)}. Конструктор Middleware завершился ошибкой.`, e)) })
+      }
+    }
+  }
+
+  /**
+   * Собирает все объявленные конфигурации, разрешает ленивые ссылки на `Context` и `Middleware` и возвращает отчет со
+   * всеми найденными ошибками. Метод не выбрасывает исключений, успешно собранные конфигурации кешируются.
+   *
+   * @param keys Необязательный список ключей. По умолчанию все объявленные конфигурации экземпляра.
+   */
+  validate (keys?: undefined | null | readonly TConfigKey[]): TEndpointsReport {
+    const built: TConfigKey[] = []
+    const issues: TEndpointIssue[] = []
+    for (const key of keys ?? this._internalDeclaredKeys()) {
+      let config: EndpointConfig
+      try {
+        config = this._internalBuildConfig(key)
+      } catch (e) {
+        issues.push({ key, error: e instanceof ApiRouterError ? e : new ConfigureError(errorDetails.ConfigureError(`Конфигурация ${safeToJson(key)} не была собрана.`, e)) })
+        continue
+      }
+      const count = issues.length
+      this._internalResolveConfig(key, config, issues)
+      if (count === issues.length) {
+        built.push(key)
+      }
+    }
+    return { ok: issues.length === 0, keys: built, issues }
+  }
+
+  /**
+   * Собирает все объявленные конфигурации так же, как {@link validate()}, и выбрасывает одну ошибку
+   * {@link ConfigureError} со списком всех проблем. Список {@link TEndpointIssue} доступен в `error.detail.data`.
+   *
+   * @param keys Необязательный список ключей. По умолчанию все объявленные конфигурации экземпляра.
+   */
+  buildAll (keys?: undefined | null | readonly TConfigKey[]): void {
+    const report = this.validate(keys)
+    if (!report.ok) {
+      const detail = errorDetails.ConfigureError(`Конфигурации конечных точек содержат ошибки:\n${report.issues.map(({ key, error }) => `  ${safeToJson(key)}: ${error.detail.message ?? error.detail.name}`).join('\n')}`)
+      detail.data = report.issues
+      throw new ConfigureError(detail)
+    }
+  }
+
+  /**
+   * Выполняет запрос конечной точки `key`.
+   *
+   * Для конфигураций {@link typedEndpoint} типы `data`, `params`, `query` и результата выводятся из ключа.
+   * Конфигурации с обработчиком {@link TEndpointHttpConfig.handler} ничего не возвращают.
+   */
+  exec<K extends TConfigKey & keyof TSelf> (key: K, options: TTypedHttpContextOptions<TSelf[K]>): TTypedEndpointResult<TSelf[K]>
+  exec<T> (key: TUntypedEndpointKey<TSelf, TConfigKey>, options: THttpContextOptions): any | Promise<TResponse<T>>
+  exec (key: TConfigKey, options: THttpContextOptions): any {
+    this._internalSyncRevision()
     // Если конфиг уже в кеше, то сам по себе он уже не вызовет ошибку
     let config = this._internalEndpoints.get(key)
     let ctx: HttpContextLike<any>
     try {
+      options = typedContextOptionsToContextOptions(options)
       // Если конфиг не собран, запрашиваем сборку
       config ??= this._internalBuildConfig(key)
       // Контекст может получить неверные параметры и упасть
@@ -89,5 +326,7 @@ abstract class Endpoints<TConfigKey extends (string | symbol)> {
 }
 
 export {
+  type TEndpointIssue,
+  type TEndpointsReport,
   Endpoints
 }
@@ -0,0 +1,73 @@
+import { test, expect } from 'vitest'
+import { Middleware } from './interfaces/MiddlewareLike.js'
+import type { TEndpointHttpConfig } from './configs/EndpointHttpConfig.js'
+import { Environment } from './Environment.js'
+import { Endpoints } from './Endpoints.js'
+
+class AuthMiddleware extends Middleware<any, any> {
+  static kind = 'AuthMiddleware'
+  kind = 'AuthMiddleware'
+}
+
+test('Environment.fork', () => {
+  const base = new Environment({ presets: { json: { postprocessor: 'JsonResponseMiddleware', timeout: 1000 } } })
+  const child = base.fork({
+    headersExtendsMode: 1,
+    middlewares: [AuthMiddleware],
+    presets: { auth: { extends: 'json', headers: { authorization: 'token' } } }
+  })
+
+  expect(child.parent).toBe(base)
+  // Режимы и элементы реестров наследуются и перекрываются без изменения родителя
+  expect(child.headersExtendsMode).toBe(1)
+  expect(base.headersExtendsMode).toBe(0)
+  expect(child.middlewareRegistry.has('JsonResponseMiddleware')).toBe(true)
+  expect(child.middlewareRegistry.hasOwn('JsonResponseMiddleware')).toBe(false)
+  expect(child.middlewareRegistry.has('AuthMiddleware')).toBe(true)
+  expect(base.middlewareRegistry.has('AuthMiddleware')).toBe(false)
+  expect(child.presetRegistry.has('json')).toBe(true)
+  expect(base.presetRegistry.has('auth')).toBe(false)
+  expect([...child.presetRegistry.keys]).toStrictEqual(['json', 'auth'])
+  expect(child.contextKindMap.get('http')).toBe('http')
+
+  // Элементы, зарегистрированные в родителе позже, доступны дочернему окружению
+  base.presetConfig({ retries: 2 }, 'late')
+  expect(child.presetRegistry.getOrThrow('late').retries).toBe(2)
+
+  // Замена пресета в дочернем окружении перекрывает, но не изменяет родителя
+  child.replacePresetConfig('json', { timeout: 5000 })
+  expect(child.presetRegistry.getOrThrow('json').timeout).toBe(5000)
+  expect(base.presetRegistry.getOrThrow('json').timeout).toBe(1000)
+
+  // Очереди родителя разделяются, новые создаются в дочернем окружении
+  const shared = base.namedQueue.getQueue('shared')
+  expect(child.namedQueue.getQueue('shared')).toBe(shared)
+  child.namedQueue.getQueue('local')
+  expect(base.namedQueue.tryGet('local')).toBeNull()
+})
+
+test('Environment.fork: invalidate', () => {
+  const base = new Environment({ presets: { json: { timeout: 1000 } } })
+  const child = base.fork()
+
+  class EndpointsImpl extends Endpoints<'USERS'> {
+    readonly USERS: TEndpointHttpConfig = { path: 'users', preset: 'json' }
+
+    constructor() {
+      super(child, { path: 'https://example.com/api' })
+    }
+
+    config () {
+      return this._internalBuildConfig('USERS')
+    }
+  }
+
+  const endpoints = new EndpointsImpl()
+  expect(endpoints.config().timeout).toBe(1000)
+  // Изменения родителя сбрасывают конфигурации дочернего окружения
+  base.replacePresetConfig('json', { timeout: 2000 })
+  expect(endpoints.config().timeout).toBe(2000)
+  const config = endpoints.config()
+  base.invalidate()
+  expect(endpoints.config()).not.toBe(config)
+})
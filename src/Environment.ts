@@ -1,6 +1,28 @@
-import type { UOptional } from './types.js'
+import type { UOptional, TResponse } from './types.js'
+import { errorDetails, ApiRouterError, ConfigureError } from './errors.js'
 import { isNonemptyString, isObject, isPlainObject, safeToJson } from './utils.js'
 import { NamedAsyncQueue } from './libs/AsyncQueue.js'
+import { NamedCircuitBreaker } from './libs/CircuitBreaker.js'
+import { LruCacheStorage } from './libs/HttpCache.js'
+import type { BodySerializerLike } from './interfaces/BodySerializerLike.js'
+import {
+  JsonBodySerializer,
+  FormUrlEncodedBodySerializer,
+  MultipartBodySerializer,
+  BodySerializerRegistry
+} from './libs/BodySerializer.js'
+import type { ResponseDecoderLike } from './interfaces/ResponseDecoderLike.js'
+import {
+  JsonResponseDecoder,
+  TextResponseDecoder,
+  XmlResponseDecoder,
+  FormDataResponseDecoder,
+  NdjsonResponseDecoder,
+  ArrayBufferResponseDecoder,
+  BlobResponseDecoder,
+  ResponseDecoderRegistry
+} from './libs/ResponseDecoder.js'
+import type { HttpCacheStorageLike } from './interfaces/HttpCacheStorageLike.js'
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 import type { MiddlewareLike } from './interfaces/MiddlewareLike.js'
 import type { ContextLike, TContextConstructor } from './interfaces/ContextLike.js'
@@ -13,37 +35,64 @@ import type {
 import {
   createEndpointOptionsConfig,
   createEndpointPresetConfig,
-  extendsEndpointConfigs
+  extendsEndpointConfigs,
+  buildEndpointConfig
 } from './configs/utils.js'
 import { EndpointConfigRegistry, PresetConfigRegistry } from './configs/registries.js'
 import type { TRequestInitExtendsMode } from './configs/RequestInitConfig.js'
 import type { THeadersAppendMode, THeadersExtendsMode } from './configs/HeadersConfig.js'
 import type { TUrlQueryAppendMode, TUrlQueryExtendsMode } from './configs/UrlQueryParams.js'
-import type { TUrlHashExtendsMode } from './configs/UrlConfig.js'
+import { type TUrlHashExtendsMode, type TUrlComponents, urlConfigToString } from './configs/UrlConfig.js'
 import {
-  type EndpointConfig,
+  EndpointConfig,
   type TEndpointConfigConstructor,
   EndpointOptionsConfig,
   EndpointPresetConfig
 } from './configs/EndpointConfig.js'
 import { EndpointHttpConfig } from './configs/EndpointHttpConfig.js'
+import { EndpointSseConfig } from './configs/EndpointSseConfig.js'
 import { type TMiddlewareDef, MiddlewareRegistry } from './middlewares/Middleware.js'
 import { HttpRequestMiddleware } from './middlewares/HttpRequestMiddleware.js'
 import { JsonResponseMiddleware } from './middlewares/JsonResponseMiddleware.js'
 import { TextResponseMiddleware } from './middlewares/TextResponseMiddleware.js'
 import { EmptyMiddleware } from './middlewares/EmptyMiddleware.js'
+import { HeadersResponseMiddleware } from './middlewares/HeadersResponseMiddleware.js'
+import { DecodeResponseMiddleware } from './middlewares/DecodeResponseMiddleware.js'
+import { NdjsonStreamMiddleware } from './middlewares/NdjsonStreamMiddleware.js'
 import { ContextRegistry } from './contexts/Context.js'
 import { HttpContext } from './contexts/HttpContext.js'
+import { SseContext } from './contexts/SseContext.js'
 
 /**
  * Разделяемые зависимости.
  */
 interface IEnvironment {
   readonly namedQueue: NamedAsyncQueue
+  /**
+   * Автоматические выключатели конечных точек. Позволяет наблюдать за состоянием и сбрасывать их.
+   */
+  readonly circuitBreakers: NamedCircuitBreaker
+  /**
+   * Хранилище кеша ответов по умолчанию для параметра конфигурации `cache`. По умолчанию {@link LruCacheStorage}.
+   */
+  readonly cacheStorage: HttpCacheStorageLike
   readonly middlewareRegistry: MiddlewareRegistry
   readonly contextRegistry: ContextRegistry
   readonly presetRegistry: PresetConfigRegistry
   readonly configRegistry: EndpointConfigRegistry
+  /**
+   * Сериализаторы тела запроса для параметра конфигурации `serializer` и заголовка `Content-Type`.
+   */
+  readonly serializerRegistry: BodySerializerRegistry
+  /**
+   * Декодеры тела ответа для `DecodeResponseMiddleware`, ключами являются шаблоны медиа типов.
+   */
+  readonly decoderRegistry: ResponseDecoderRegistry
+  /**
+   * Ревизия конфигураций. Изменяется при вызове {@link Environment.invalidate()} или замене пресета в
+   * {@link presetRegistry}. Классы `Endpoints` сравнивают значение и пересобирают кешированные конфигурации.
+   */
+  readonly configRevision: number
   /**
    * Значение по умолчанию для конфигураций конечных точек {@link EndpointConfig.kind}.
    * Если не определено будет использовано `'http'`.
@@ -98,6 +147,14 @@ type TEnvironmentCustomOptions = {
    * Объект с экземплярами {@link EndpointPresetConfig} или структурами пресетов конфигураций.
    */
   presets?: undefined | null | false | Record<string, false | TEndpointPresetConfig | EndpointPresetConfig>
+  /**
+   * Массив или объект с сериализаторами {@link BodySerializerLike}, ключом объекта является медиа тип.
+   */
+  serializers?: undefined | null | false | Record<string, false | BodySerializerLike> | BodySerializerLike[]
+  /**
+   * Объект с декодерами {@link ResponseDecoderLike}, ключом объекта является шаблон медиа типа.
+   */
+  decoders?: undefined | null | false | Record<string, false | ResponseDecoderLike>
 }
 
 /**
@@ -105,25 +162,79 @@ type TEnvironmentCustomOptions = {
  */
 type TEnvironmentOptions = UOptional<Omit<IEnvironment, 'contextKindMap'>> & TEnvironmentCustomOptions & { contextKindMap?: undefined | null | Record<string, string> | IEnvironment['contextKindMap'] }
 
+/**
+ * Параметры {@link Environment.fork()}.
+ *
+ * Реестры дочернего окружения наследуют элементы родителя, поэтому `middlewares`, `contexts`, `configs`, `presets`,
+ * `serializers` и `decoders` добавляют или перекрывают элементы только в дочернем окружении. Привязки `contextKindMap` и
+ * `executorKindMap` сливаются с родительскими, остальные параметры по умолчанию берутся из родителя.
+ */
+type TEnvironmentForkOptions = UOptional<Pick<IEnvironment,
+  'circuitBreakers' | 'cacheStorage' | 'defaultConfigKind' |
+  'queryExtendsMode' | 'queryAppendMode' | 'hashExtendsMode' |
+  'requestInitExtendsMode' | 'headersExtendsMode' | 'headersAppendMode'
+>> & TEnvironmentCustomOptions & {
+  contextKindMap?: undefined | null | Record<string, string> | ReadonlyMap<string, string>
+  executorKindMap?: undefined | null | Record<string, string> | ReadonlyMap<string, string>
+}
+
 const defaultMiddlewares = Object.freeze([
   HttpRequestMiddleware,
   TextResponseMiddleware,
   JsonResponseMiddleware,
+  HeadersResponseMiddleware,
+  DecodeResponseMiddleware,
+  NdjsonStreamMiddleware,
   EmptyMiddleware
 ] as const)
 const defaultConfigs = Object.freeze([
-  EndpointHttpConfig
+  EndpointHttpConfig,
+  EndpointSseConfig
 ] as const)
 const defaultContexts = Object.freeze([
-  HttpContext
+  HttpContext,
+  SseContext
 ] as const)
 const defaultContextKindMap = Object.freeze({
-  [EndpointHttpConfig.kind]: HttpContext.kind
+  [EndpointHttpConfig.kind]: HttpContext.kind,
+  [EndpointSseConfig.kind]: SseContext.kind
 } as const)
 const defaultExecutorKindMap = Object.freeze({
-  [EndpointHttpConfig.kind]: HttpRequestMiddleware.kind
+  [EndpointHttpConfig.kind]: HttpRequestMiddleware.kind,
+  [EndpointSseConfig.kind]: HttpRequestMiddleware.kind
 } as const)
 const defaultPresets: Record<string, EndpointPresetConfig> = Object.freeze({} as const)
+const defaultDecoders: Readonly<Record<string, ResponseDecoderLike>> = (() => {
+  const json = new JsonResponseDecoder()
+  const xml = new XmlResponseDecoder()
+  const formData = new FormDataResponseDecoder()
+  const ndjson = new NdjsonResponseDecoder()
+  const blob = new BlobResponseDecoder()
+  return Object.freeze({
+    'application/json': json,
+    'text/json': json,
+    '*/*+json': json,
+    'application/x-ndjson': ndjson,
+    'application/jsonl': ndjson,
+    'application/json-seq': ndjson,
+    'application/xml': xml,
+    'text/xml': xml,
+    '*/*+xml': xml,
+    'text/*': new TextResponseDecoder(),
+    'multipart/form-data': formData,
+    'application/x-www-form-urlencoded': formData,
+    'application/octet-stream': new ArrayBufferResponseDecoder(),
+    'application/pdf': blob,
+    'image/*': blob,
+    'audio/*': blob,
+    'video/*': blob
+  })
+})()
+const defaultSerializers = Object.freeze([
+  new JsonBodySerializer(),
+  new FormUrlEncodedBodySerializer(),
+  new MultipartBodySerializer()
+] as const)
 
 function _ensureDefaultConfigKind (value: any): string {
   return isNonemptyString(value) ? value : EndpointHttpConfig.kind
@@ -149,14 +260,24 @@ function _ensureExecutorKindMap (value: any): Map<string, string> {
   return new Map(Object.entries(value))
 }
 
+function _forkKindMap (parent: ReadonlyMap<string, string>, value: any): Map<string, string> {
+  const map = new Map(parent)
+  if (isObject(value)) {
+    for (const [key, kind] of (value instanceof Map ? value : Object.entries(value))) {
+      map.set(key, kind)
+    }
+  }
+  return map
+}
+
 function _normalizeMode<T extends number> (value: any, values: T[], defaultValue: T): T {
   return values.includes(value) ? value as T : defaultValue
 }
 
-function _registerMiddleware (middlewareRegistry: MiddlewareRegistry, middlewares: TEnvironmentCustomOptions['middlewares']) {
-  const defMiddleware = new Map(defaultMiddlewares.map((v) => [v.kind, v]))
+function _registerMiddleware (middlewareRegistry: MiddlewareRegistry, middlewares: TEnvironmentCustomOptions['middlewares'], defaults: readonly TMiddlewareDef<any, any>[] = defaultMiddlewares) {
+  const defMiddleware = new Map(defaults.map((v) => [v.kind, v]))
   const register = (item: TMiddlewareDef<any, any>) => {
-    if (middlewareRegistry.has(item.kind)) {
+    if (middlewareRegistry.hasOwn(item.kind)) {
       console.warn(`[ApiRouter.Environment] Middlewares ${safeToJson(item.kind)} уже зарегистрирован.`)
     }
     else {
@@ -187,10 +308,10 @@ function _registerMiddleware (middlewareRegistry: MiddlewareRegistry, middleware
   }
 }
 
-function _registerContext (contextRegistry: ContextRegistry, contexts: TEnvironmentCustomOptions['contexts']) {
-  const defCtx = new Map(defaultContexts.map((v) => [v.kind as string, v]))
+function _registerContext (contextRegistry: ContextRegistry, contexts: TEnvironmentCustomOptions['contexts'], defaults: readonly (typeof defaultContexts)[number][] = defaultContexts) {
+  const defCtx = new Map(defaults.map((v) => [v.kind as string, v]))
   const register = (item: TContextConstructor<ContextLike>) => {
-    if (contextRegistry.has(item.kind)) {
+    if (contextRegistry.hasOwn(item.kind)) {
       console.warn(`[ApiRouter.Environment] Context ${safeToJson(item.kind)} уже зарегистрирован.`)
     }
     else {
@@ -221,10 +342,10 @@ function _registerContext (contextRegistry: ContextRegistry, contexts: TEnvironm
   }
 }
 
-function _registerConfig (configRegistry: EndpointConfigRegistry, configs: TEnvironmentCustomOptions['configs']) {
-  const defCfg = new Map<string, TEndpointConfigConstructor<EndpointConfig>>(defaultConfigs.map((v) => [v.kind, v as TEndpointConfigConstructor<EndpointConfig>]))
+function _registerConfig (configRegistry: EndpointConfigRegistry, configs: TEnvironmentCustomOptions['configs'], defaults: readonly TEndpointConfigConstructor<any>[] = defaultConfigs) {
+  const defCfg = new Map<string, TEndpointConfigConstructor<EndpointConfig>>(defaults.map((v) => [v.kind, v as TEndpointConfigConstructor<EndpointConfig>]))
   const register = (item: TEndpointConfigConstructor<EndpointConfig>) => {
-    if (configRegistry.has(item.kind)) {
+    if (configRegistry.hasOwn(item.kind)) {
       console.warn(`[ApiRouter.Environment] Конструктор EndpointConfig ${safeToJson(item.kind)} уже зарегистрирован.`)
     }
     else {
@@ -255,10 +376,70 @@ function _registerConfig (configRegistry: EndpointConfigRegistry, configs: TEnvi
   }
 }
 
-function _registerPreset (presetRegistry: PresetConfigRegistry, presets: TEnvironmentCustomOptions['presets'], env: IEnvironment) {
-  const defPreset = new Map(Object.entries(defaultPresets))
+function _registerSerializer (serializerRegistry: BodySerializerRegistry, serializers: TEnvironmentCustomOptions['serializers'], defaults: readonly BodySerializerLike[] = defaultSerializers) {
+  const defSerializer = new Map(defaults.map((v) => [v.mediaType, v]))
+  const register = (item: BodySerializerLike) => {
+    if (serializerRegistry.hasOwn(item.mediaType)) {
+      console.warn(`[ApiRouter.Environment] Сериализатор ${safeToJson(item.mediaType)} уже зарегистрирован.`)
+    }
+    else {
+      serializerRegistry.register(item)
+    }
+  }
+  if (serializers) {
+    if (Array.isArray(serializers)) {
+      for (const item of serializers) {
+        defSerializer.delete(item.mediaType)
+        register(item)
+      }
+    }
+    else if (isPlainObject(serializers)) {
+      for (const [key, item] of Object.entries(serializers)) {
+        defSerializer.delete(key)
+        if (item) {
+          register(item)
+        }
+      }
+    }
+  }
+  else if (serializers === false) {
+    defSerializer.clear()
+  }
+  for (const item of defSerializer.values()) {
+    register(item)
+  }
+}
+
+function _registerDecoder (decoderRegistry: ResponseDecoderRegistry, decoders: TEnvironmentCustomOptions['decoders'], defaults: Readonly<Record<string, ResponseDecoderLike>> = defaultDecoders) {
+  const defDecoder = new Map(Object.entries(defaults))
+  const register = (key: string, item: ResponseDecoderLike) => {
+    if (decoderRegistry.hasOwn(key)) {
+      console.warn(`[ApiRouter.Environment] Декодер ${safeToJson(key)} уже зарегистрирован.`)
+    }
+    else {
+      decoderRegistry.register(key, item)
+    }
+  }
+  if (isPlainObject(decoders)) {
+    for (const [key, item] of Object.entries(decoders)) {
+      defDecoder.delete(key)
+      if (item) {
+        register(key, item)
+      }
+    }
+  }
+  else if (decoders === false) {
+    defDecoder.clear()
+  }
+  for (const [key, item] of defDecoder) {
+    register(key, item)
+  }
+}
+
+function _registerPreset (presetRegistry: PresetConfigRegistry, presets: TEnvironmentCustomOptions['presets'], env: IEnvironment, defaults: Readonly<Record<string, EndpointPresetConfig>> = defaultPresets) {
+  const defPreset = new Map(Object.entries(defaults))
   const register = (key: string, item: EndpointPresetConfig) => {
-    if (presetRegistry.has(key)) {
+    if (presetRegistry.hasOwn(key)) {
       console.warn(`[ApiRouter.Environment] EndpointPresetConfig ${safeToJson(key)} уже зарегистрирован.`)
     }
     else {
@@ -289,10 +470,14 @@ function _registerPreset (presetRegistry: PresetConfigRegistry, presets: TEnviro
  */
 class Environment implements IEnvironment {
   protected readonly _namedQueue: NamedAsyncQueue
+  protected readonly _circuitBreakers: NamedCircuitBreaker
+  protected readonly _cacheStorage: HttpCacheStorageLike
   protected readonly _middlewareRegistry: MiddlewareRegistry
   protected readonly _contextRegistry: ContextRegistry
   protected readonly _presetRegistry: PresetConfigRegistry
   protected readonly _configRegistry: EndpointConfigRegistry
+  protected readonly _serializerRegistry: BodySerializerRegistry
+  protected readonly _decoderRegistry: ResponseDecoderRegistry
   protected readonly _contextKindMap: ReadonlyMap<string, string>
   protected readonly _executorKindMap: ReadonlyMap<string, string>
   protected readonly _defaultConfigKind: string
@@ -302,13 +487,19 @@ class Environment implements IEnvironment {
   protected readonly _requestInitExtendsMode: TRequestInitExtendsMode
   protected readonly _headersExtendsMode: THeadersExtendsMode
   protected readonly _headersAppendMode: THeadersAppendMode
+  protected _configRevision = 0
+  protected _parent: null | Environment = null
 
   constructor(options?: undefined | null | TEnvironmentOptions) {
     this._namedQueue = options?.namedQueue ?? new NamedAsyncQueue()
+    this._circuitBreakers = options?.circuitBreakers ?? new NamedCircuitBreaker()
+    this._cacheStorage = options?.cacheStorage ?? new LruCacheStorage()
     this._middlewareRegistry = options?.middlewareRegistry ?? new MiddlewareRegistry()
     this._contextRegistry = options?.contextRegistry ?? new ContextRegistry()
     this._presetRegistry = options?.presetRegistry ?? new PresetConfigRegistry()
     this._configRegistry = options?.configRegistry ?? new EndpointConfigRegistry()
+    this._serializerRegistry = options?.serializerRegistry ?? new BodySerializerRegistry()
+    this._decoderRegistry = options?.decoderRegistry ?? new ResponseDecoderRegistry()
     this._contextKindMap = _ensureContextKindMap(options?.contextKindMap)
     this._executorKindMap = _ensureExecutorKindMap(options?.executorKindMap)
     this._defaultConfigKind = _ensureDefaultConfigKind(options?.defaultConfigKind)
@@ -322,12 +513,21 @@ class Environment implements IEnvironment {
     _registerMiddleware(this._middlewareRegistry, options?.middlewares)
     _registerContext(this._contextRegistry, options?.contexts)
     _registerConfig(this._configRegistry, options?.configs)
+    // Пресеты могут ссылаться на сериализаторы
+    _registerSerializer(this._serializerRegistry, options?.serializers)
+    _registerDecoder(this._decoderRegistry, options?.decoders)
     _registerPreset(this._presetRegistry, options?.presets, this)
   }
 
   get namedQueue (): NamedAsyncQueue {
     return this._namedQueue
   }
+  get circuitBreakers (): NamedCircuitBreaker {
+    return this._circuitBreakers
+  }
+  get cacheStorage (): HttpCacheStorageLike {
+    return this._cacheStorage
+  }
   get middlewareRegistry (): MiddlewareRegistry {
     return this._middlewareRegistry
   }
@@ -340,6 +540,21 @@ class Environment implements IEnvironment {
   get configRegistry (): EndpointConfigRegistry {
     return this._configRegistry
   }
+  get serializerRegistry (): BodySerializerRegistry {
+    return this._serializerRegistry
+  }
+  get decoderRegistry (): ResponseDecoderRegistry {
+    return this._decoderRegistry
+  }
+  get configRevision (): number {
+    return this._invalidations() + this._presetRegistry.revision
+  }
+  /**
+   * Родительское окружение, если окружение создано методом {@link fork()}.
+   */
+  get parent (): null | Environment {
+    return this._parent
+  }
   get contextKindMap (): ReadonlyMap<string, string> {
     return this._contextKindMap
   }
@@ -391,6 +606,87 @@ class Environment implements IEnvironment {
     return preset
   }
 
+  /**
+   * Заменяет зарегистрированный пресет. Собранные конфигурации конечных точек будут пересобраны при следующем
+   * обращении.
+   *
+   * @param name    Имя зарегистрированного пресета.
+   * @param options Новые параметры пресета.
+   */
+  replacePresetConfig (name: string, options: TEndpointPresetConfig | EndpointPresetConfig): EndpointPresetConfig {
+    const preset = options instanceof EndpointPresetConfig ? options : createEndpointPresetConfig(this, options)
+    this._presetRegistry.replace(name, preset)
+    return preset
+  }
+
+  /**
+   * Изменяет {@link configRevision}. Все `Endpoints` этого окружения пересоберут конфигурации при следующем обращении,
+   * выполняющиеся запросы сохранят прежнюю конфигурацию.
+   */
+  invalidate (): void {
+    ++this._configRevision
+  }
+
+  /**
+   * Количество вызовов {@link invalidate()} этого окружения и всех родителей.
+   */
+  protected _invalidations (): number {
+    return this._configRevision + (this._parent?._invalidations() ?? 0)
+  }
+
+  /**
+   * Создает дочернее окружение, реестры и очереди которого наследуют элементы этого окружения.
+   *
+   * Новые и перекрывающие элементы регистрируются только в дочернем окружении и не изменяют родителя. Очереди и
+   * автоматические выключатели родителя с теми же ключами разделяются, новые очереди создаются в дочернем окружении.
+   * Вызов {@link invalidate()} или замена пресета в родителе сбрасывает конфигурации `Endpoints` дочернего окружения.
+   *
+   * @param overrides Элементы реестров и параметры, которые перекрывают родительские.
+   *
+   * @example
+   * ```ts
+   * const base = new Environment({ presets: { json: { postprocessor: 'JsonResponseMiddleware' } } })
+   * const app = base.fork({ headersExtendsMode: 1, presets: { auth: { extends: 'json', headers: { authorization } } } })
+   * ```
+   */
+  fork (overrides?: undefined | null | TEnvironmentForkOptions): Environment {
+    const child = new Environment({
+      namedQueue: this._namedQueue.fork(),
+      circuitBreakers: overrides?.circuitBreakers ?? this._circuitBreakers,
+      cacheStorage: overrides?.cacheStorage ?? this._cacheStorage,
+      middlewareRegistry: this._middlewareRegistry.fork(),
+      contextRegistry: this._contextRegistry.fork(),
+      presetRegistry: this._presetRegistry.fork(),
+      configRegistry: this._configRegistry.fork(),
+      serializerRegistry: this._serializerRegistry.fork(),
+      decoderRegistry: this._decoderRegistry.fork(),
+      contextKindMap: _forkKindMap(this._contextKindMap, overrides?.contextKindMap),
+      executorKindMap: _forkKindMap(this._executorKindMap, overrides?.executorKindMap),
+      defaultConfigKind: overrides?.defaultConfigKind ?? this._defaultConfigKind,
+      queryExtendsMode: overrides?.queryExtendsMode ?? this._queryExtendsMode,
+      queryAppendMode: overrides?.queryAppendMode ?? this._queryAppendMode,
+      hashExtendsMode: overrides?.hashExtendsMode ?? this._hashExtendsMode,
+      requestInitExtendsMode: overrides?.requestInitExtendsMode ?? this._requestInitExtendsMode,
+      headersExtendsMode: overrides?.headersExtendsMode ?? this._headersExtendsMode,
+      headersAppendMode: overrides?.headersAppendMode ?? this._headersAppendMode,
+      // Элементы по умолчанию унаследованы от родителя
+      middlewares: false,
+      contexts: false,
+      configs: false,
+      presets: false,
+      serializers: false,
+      decoders: false
+    })
+    child._parent = this
+    _registerMiddleware(child._middlewareRegistry, overrides?.middlewares, [])
+    _registerContext(child._contextRegistry, overrides?.contexts, [])
+    _registerConfig(child._configRegistry, overrides?.configs, [])
+    _registerSerializer(child._serializerRegistry, overrides?.serializers, [])
+    _registerDecoder(child._decoderRegistry, overrides?.decoders, {})
+    _registerPreset(child._presetRegistry, overrides?.presets, child, {})
+    return child
+  }
+
   /**
    * Сливает обобщенные параметры конфигураций конечных точек в нормализованный {@link EndpointOptionsConfig}.
    *
@@ -408,11 +704,35 @@ class Environment implements IEnvironment {
   extendsPresetConfig (...configs: (TEndpointOptionsConfig | EndpointOptionsConfig | TEndpointPresetConfig | EndpointPresetConfig | TEndpointNormalizedOptionsConfig | TEndpointNormalizedPresetConfig)[]): EndpointPresetConfig {
     return new EndpointPresetConfig(extendsEndpointConfigs<false>(this, false, ...configs))
   }
+
+  /**
+   * Возвращает итоговую строку `URL` конечной точки без выполнения запроса. Контекст, очередь и `middleware` не
+   * используются.
+   *
+   * @param config Собранная конфигурация или параметры конфигурации конечной точки.
+   * @param path   Компоненты пути, аналогичные параметру запроса `path`.
+   */
+  url (config: EndpointConfig | TEndpointOptionsConfig | EndpointOptionsConfig, path?: undefined | null | string | TUrlComponents): TResponse<string> {
+    try {
+      const cfg = config instanceof EndpointConfig ? config : buildEndpointConfig(this, 'url', config, this.optionsConfig({}))
+      if (!(cfg instanceof EndpointHttpConfig) && !(cfg instanceof EndpointSseConfig)) {
+        throw new ConfigureError(errorDetails.ConfigureError(`Конфигурация kind:${safeToJson(cfg.kind)} не имеет 'URL' запроса.`))
+      }
+      return { ok: true, value: urlConfigToString(cfg.url, path) }
+    } catch (e) {
+      return {
+        ok: false,
+        value: null,
+        error: e instanceof ApiRouterError ? e : new ConfigureError(errorDetails.ConfigureError('Не удалось построить \'URL\' конечной точки.', e))
+      }
+    }
+  }
 }
 
 export {
   type IEnvironment,
   type TEnvironmentCustomOptions,
   type TEnvironmentOptions,
+  type TEnvironmentForkOptions,
   Environment
 }
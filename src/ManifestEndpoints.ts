@@ -0,0 +1,45 @@
+import { type TEndpointManifest, loadEndpointManifest } from './configs/EndpointManifest.js'
+import { Endpoints } from './Endpoints.js'
+import { Environment } from './Environment.js'
+
+/**
+ * Конфигуратор `endpoints`, конечные точки которого загружены из манифеста {@link TEndpointManifest}.
+ *
+ * Конфигурации манифеста устанавливаются как свойства экземпляра, поэтому {@link exec()} и {@link url()} работают так
+ * же, как для конечных точек, объявленных полями класса. Пресеты манифеста регистрируются в окружении, и второй
+ * манифест с теми же именами пресетов в том же окружении будет отклонен.
+ *
+ * @example
+ * ```ts
+ * const api = new ManifestEndpoints(env, await (await fetch('/endpoints.json')).text())
+ * const users = await api.exec('USERS', { method: 'GET' })
+ * ```
+ */
+class ManifestEndpoints extends Endpoints<string> {
+  protected readonly _internalManifestKeys: readonly string[]
+
+  /**
+   * @param env      Общее окружение.
+   * @param manifest Манифест или строка `JSON`.
+   */
+  constructor(env: undefined | null | Environment, manifest: string | TEndpointManifest) {
+    env ??= new Environment()
+    const loaded = loadEndpointManifest(env, manifest, (key) => key.startsWith('_internal') || key in ManifestEndpoints.prototype)
+    super(env, loaded.options)
+    for (const [key, config] of Object.entries(loaded.endpoints)) {
+      Object.defineProperty(this, key, { value: config, enumerable: true })
+    }
+    this._internalManifestKeys = Object.freeze(Object.keys(loaded.endpoints))
+  }
+
+  /**
+   * Ключи конечных точек манифеста.
+   */
+  get keys (): readonly string[] {
+    return this._internalManifestKeys
+  }
+}
+
+export {
+  ManifestEndpoints
+}
@@ -0,0 +1,88 @@
+import type { TResponse } from './types.js'
+import { safeToJson } from './utils.js'
+import { errorDetails, ConfigureError } from './errors.js'
+import type { THttpRequestMethod, TEndpointOptionsConfig } from './configs/types.js'
+import type { THttpContextOptions } from './contexts/Context.js'
+import {
+  type TOpenApiDocument,
+  type TOpenApiImportOptions,
+  type TOpenApiEndpoint,
+  importOpenApi
+} from './configs/OpenApi.js'
+import { Endpoints } from './Endpoints.js'
+import type { Environment } from './Environment.js'
+
+/**
+ * Параметры вызова {@link OpenApiEndpoints.request()}. Метод по умолчанию берется из операции.
+ */
+type TOpenApiRequestOptions = Omit<THttpContextOptions, 'method'> & {
+  method?: undefined | null | THttpRequestMethod
+  /**
+   * Значения заполнителей пути операции.
+   */
+  params?: undefined | null | Record<string, string | number>
+  query?: undefined | null | Record<string, string | number>
+}
+
+/**
+ * Конфигуратор `endpoints`, конечные точки которого созданы из документа OpenAPI во время выполнения.
+ *
+ * Для сборки проекта с проверкой типов используйте исходный код {@link openApiToEndpointsSource()}.
+ *
+ * @example
+ * ```ts
+ * const api = new OpenApiEndpoints(env, await (await fetch('/openapi.json')).json())
+ * const pet = await api.request('showPetById', { params: { petId: 7 } })
+ * ```
+ */
+class OpenApiEndpoints extends Endpoints<string> {
+  protected readonly _internalOperations: Readonly<Record<string, TOpenApiEndpoint>>
+
+  /**
+   * @param env     Общее окружение.
+   * @param doc     Документ OpenAPI.
+   * @param options Параметры импорта.
+   * @param config  Необязательная базовая конфигурация конечных точек.
+   */
+  constructor(
+    env: undefined | null | Environment,
+    doc: TOpenApiDocument,
+    options?: undefined | null | TOpenApiImportOptions,
+    config?: undefined | null | TEndpointOptionsConfig
+  ) {
+    const operations = importOpenApi(doc, options)
+    for (const key of Object.keys(operations)) {
+      if (key.startsWith('_internal') || key in OpenApiEndpoints.prototype) {
+        throw new ConfigureError(errorDetails.ConfigureError(`OpenAPI. Ключ операции ${safeToJson(key)} совпадает с членом класса OpenApiEndpoints.`))
+      }
+    }
+    super(env, config)
+    for (const [key, operation] of Object.entries(operations)) {
+      Object.defineProperty(this, key, { value: operation.config, enumerable: true })
+    }
+    this._internalOperations = Object.freeze(operations)
+  }
+
+  /**
+   * Операции документа по ключам конечных точек.
+   */
+  get operations (): Readonly<Record<string, TOpenApiEndpoint>> {
+    return this._internalOperations
+  }
+
+  /**
+   * Выполняет операцию `key` методом, объявленным в документе.
+   *
+   * @param key     Ключ операции.
+   * @param options Параметры запроса.
+   */
+  request<T> (key: string, options?: undefined | null | TOpenApiRequestOptions): any | Promise<TResponse<T>> {
+    const method = options?.method ?? this._internalOperations[key]?.method ?? 'GET'
+    return this.exec(key, { ...options, method } as THttpContextOptions)
+  }
+}
+
+export {
+  type TOpenApiRequestOptions,
+  OpenApiEndpoints
+}
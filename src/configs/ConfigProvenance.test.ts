@@ -0,0 +1,81 @@
+import { test, expect } from 'vitest'
+import { ConfigureError } from '../errors.js'
+import { Environment } from '../Environment.js'
+import { Endpoints } from '../Endpoints.js'
+import type { TEndpointHttpConfig, EndpointHttpConfig } from './EndpointHttpConfig.js'
+import { configProvenanceToJson } from './ConfigProvenance.js'
+
+test('explainEndpointConfig', () => {
+  const env = new Environment({ headersExtendsMode: 1 })
+  env.presetConfig({ timeout: 3000, retries: 2, headers: { 'x-preset': '1' } }, 'json')
+
+  class EndpointsImpl extends Endpoints<'USERS' | 'FILES' | 'BROKEN'> {
+    readonly USERS: TEndpointHttpConfig = { path: 'users', preset: 'json', timeout: 5000, headers: { 'x-user': '1' } }
+    readonly FILES: TEndpointHttpConfig = { path: 'files', timeout: false }
+    readonly BROKEN: TEndpointHttpConfig = { preset: 'unknown_preset' }
+
+    constructor() {
+      super(env, { path: 'https://example.com/api', timeout: 1000, queueKey: 'api' })
+    }
+
+    config (key: 'USERS') {
+      return this._internalBuildConfig(key) as EndpointHttpConfig<any>
+    }
+  }
+
+  const endpoints = new EndpointsImpl()
+  const users = endpoints.explain('USERS')
+  expect(users.kind).toBe('http')
+  expect(users.presetName).toBe('json')
+
+  // Поле конечной точки перекрывает пресет и базовую конфигурацию
+  expect(users.fields.timeout.value).toBe(5000)
+  expect(users.fields.timeout.source).toBe('endpoint')
+  expect(users.fields.timeout.layers).toStrictEqual(['endpoints', 'preset', 'endpoint'])
+  expect(users.fields.retries.source).toBe('preset')
+  expect(users.fields.queueKey.source).toBe('endpoints')
+  expect(users.fields.dedupe).toStrictEqual({ value: null, source: null, layers: [], mode: null })
+
+  // Заголовки слиты из пресета и конечной точки с режимом окружения, в режиме replace ключи последнего слоя идут первыми,
+  // как и в собранной конфигурации
+  expect(users.fields.headers.layers).toStrictEqual(['preset', 'endpoint'])
+  expect(users.fields.headers.mode).toStrictEqual({ extendsMode: 1, appendMode: 0 })
+  expect(users.fields.headers.value!.entries).toStrictEqual([['x-user', '1'], ['x-preset', '1']])
+  expect(endpoints.config('USERS').headers.entries).toStrictEqual(users.fields.headers.value!.entries)
+
+  // Значения по умолчанию окружения
+  expect(users.fields.kind.source).toBe('environment')
+  expect(users.fields.executor.source).toBe('environment')
+  expect(users.fields.requestInit.source).toBe('environment')
+
+  // Явный сброс тоже является источником значения
+  const files = endpoints.explain('FILES')
+  expect(files.fields.timeout).toMatchObject({ value: null, source: 'endpoint', layers: ['endpoints', 'endpoint'] })
+  expect(files.presetName).toBeNull()
+
+  expect(() => endpoints.explain('BROKEN')).toThrow(ConfigureError)
+})
+
+test('configProvenanceToJson', () => {
+  const env = new Environment()
+  class EndpointsImpl extends Endpoints<'USERS'> {
+    readonly USERS: TEndpointHttpConfig = { path: 'users', postprocessor: 'JsonResponseMiddleware', retryPolicy: { statuses: [503] }, handler: () => null }
+
+    constructor() {
+      super(env, { path: 'https://example.com/api?v=1' })
+    }
+  }
+
+  const json = configProvenanceToJson(new EndpointsImpl().explain('USERS'))
+  // Результат сериализуется без потерь
+  expect(JSON.parse(JSON.stringify(json))).toStrictEqual(json)
+  expect(json.key).toBe('USERS')
+  expect(json.fields.path).toMatchObject({ value: 'https://example.com/api/users', source: 'endpoint', layers: ['endpoints', 'endpoint'] })
+  expect(json.fields.path!.mode).toStrictEqual({ queryExtendsMode: 0, queryAppendMode: 0, hashExtendsMode: 0 })
+  expect(json.fields.postprocessor!.value).toBe('JsonResponseMiddleware')
+  expect(json.fields.executor!.value).toBe('http')
+  expect(json.fields.context!.value).toBe('http')
+  expect(json.fields.retryPolicy!.value).toStrictEqual({ statuses: [503], errors: null, methods: null, maxRetryTime: null })
+  expect(json.fields.handler!.value).toBe('[Function handler]')
+  expect(json.fields.headers!.value).toStrictEqual([])
+})
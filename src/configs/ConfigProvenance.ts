@@ -0,0 +1,291 @@
+import type { TNonemptyString } from '../types.js'
+import { isArray, isFunction, isObject, isPlainObject, isSymbol, safeToJson } from '../utils.js'
+import { errorDetails, ConfigureError } from '../errors.js'
+import { ContextFactoryLike } from '../interfaces/ContextLike.js'
+import { BodySerializerLike } from '../interfaces/BodySerializerLike.js'
+import { type TMiddlewareInstanceRef, isMiddlewareRef } from '../middlewares/Middleware.js'
+import type { IEnvironment } from '../Environment.js'
+import { type TEndpointNormalizedOptionsConfig, type TEndpointOptionsConfig, defaultEndpointOptionsConfig } from './types.js'
+import { EndpointPresetConfig, type EndpointOptionsConfig } from './EndpointConfig.js'
+import { HeadersConfig } from './HeadersConfig.js'
+import { RequestInitConfig } from './RequestInitConfig.js'
+import { UrlConfig } from './UrlConfig.js'
+import { RetryPolicy } from './RetryPolicy.js'
+import { traceEndpointConfigs, resolveEndpointPreset } from './utils.js'
+
+/**
+ * Слой, из которого получено значение параметра конфигурации:
+ *
+ *  + `environment` - значение по умолчанию {@link IEnvironment}, если ни один слой не определил параметр.
+ *  + `endpoints`   - базовая конфигурация конструктора `Endpoints`.
+ *  + `preset`      - именованный или встроенный пресет.
+ *  + `endpoint`    - конфигурация поля конечной точки.
+ */
+type TConfigProvenanceLayer = 'environment' | 'endpoints' | 'preset' | 'endpoint'
+
+/**
+ * Режим слияния, с которым параметр расширяется следующими слоями.
+ */
+type TConfigProvenanceMode = Readonly<Record<string, number>>
+
+/**
+ * Итоговое значение параметра конфигурации и его происхождение.
+ */
+interface TConfigProvenanceField<T> {
+  /**
+   * Итоговое нормализованное значение.
+   */
+  readonly value: T
+  /**
+   * Последний слой, изменивший значение, или `null`, если значение не определено ни одним слоем.
+   */
+  readonly source: null | TConfigProvenanceLayer
+  /**
+   * Все слои, которые определяли параметр, в порядке слияния. Для заголовков, `requestInit` и `path` значение может
+   * быть результатом слияния нескольких слоев.
+   */
+  readonly layers: readonly TConfigProvenanceLayer[]
+  /**
+   * Режим слияния для `headers`, `requestInit` и `path`, для остальных параметров `null`.
+   */
+  readonly mode: null | TConfigProvenanceMode
+}
+
+/**
+ * Итоговая конфигурация конечной точки с происхождением каждого параметра.
+ */
+interface TConfigProvenance {
+  readonly key: string | symbol
+  /**
+   * Итоговый тип конфигурации {@link EndpointConfig.kind}.
+   */
+  readonly kind: string
+  /**
+   * Имя примененного пресета или `null`, если пресет не применялся или был передан объектом.
+   */
+  readonly presetName: null | string
+  readonly fields: { readonly [K in keyof TEndpointNormalizedOptionsConfig]: TConfigProvenanceField<TEndpointNormalizedOptionsConfig[K]> }
+}
+
+/**
+ * Допустимое значение `JSON`.
+ */
+type TConfigProvenanceJsonValue = null | boolean | number | string | TConfigProvenanceJsonValue[] | { [k: string]: TConfigProvenanceJsonValue }
+
+/**
+ * Сериализуемая форма {@link TConfigProvenance}.
+ */
+interface TConfigProvenanceJson {
+  key: string
+  kind: string
+  presetName: null | string
+  fields: Record<string, {
+    value: TConfigProvenanceJsonValue
+    source: null | TConfigProvenanceLayer
+    layers: TConfigProvenanceLayer[]
+    mode: null | Record<string, number>
+  }>
+}
+
+function _isTouched (source: object, key: string, before: unknown, after: unknown): boolean {
+  if (before !== after) {
+    return true
+  }
+  // Значение могло быть переустановлено тем же значением или явно сброшено
+  const raw = (source as Record<string, unknown>)[key]
+  return raw === false || (raw !== undefined && raw !== null && raw === after)
+}
+
+function _modeOf (key: keyof TEndpointNormalizedOptionsConfig, value: unknown): null | TConfigProvenanceMode {
+  if (key === 'headers' && value instanceof HeadersConfig) {
+    return Object.freeze({ extendsMode: value.extendsMode, appendMode: value.appendMode })
+  }
+  if (key === 'requestInit' && value instanceof RequestInitConfig) {
+    return Object.freeze({ extendsMode: value.extendsMode })
+  }
+  if (key === 'path' && value instanceof UrlConfig) {
+    const { queryExtendsMode, queryAppendMode, hashExtendsMode } = value.extendsOptions
+    return Object.freeze({ queryExtendsMode, queryAppendMode, hashExtendsMode })
+  }
+  return null
+}
+
+/**
+ * Сливает конфигурацию конечной точки так же, как это делает `Endpoints`, и возвращает итоговые параметры с указанием
+ * слоя, из которого получен каждый параметр.
+ *
+ * Экземпляр {@link EndpointConfig} не создается, поэтому функция не регистрирует очереди и автоматические выключатели.
+ * Значения по умолчанию окружения (`kind`, `context`, `executor`, пустые `requestInit` и `headers`) отмечаются слоем
+ * `environment`.
+ *
+ * @param env        Разделяемое окружение {@link IEnvironment}.
+ * @param key        Ключ конечной точки.
+ * @param config     Пользовательская конфигурация.
+ * @param baseConfig Базовая конфигурация `Endpoints`.
+ */
+function explainEndpointConfig (
+  env: IEnvironment,
+  key: string | symbol,
+  config: TEndpointOptionsConfig | EndpointOptionsConfig,
+  baseConfig: EndpointOptionsConfig
+): TConfigProvenance {
+  if (!isObject(config)) {
+    throw new ConfigureError(errorDetails.ConfigureError(`Свойство конфигурации ${safeToJson(key)} должно быть объектом.`))
+  }
+
+  const preset = resolveEndpointPreset(env, config, baseConfig)
+  const layers: [TConfigProvenanceLayer, object][] = preset
+    ? [['endpoints', baseConfig], ['preset', preset], ['endpoint', config]]
+    : [['endpoints', baseConfig], ['endpoint', config]]
+  const keys = Object.keys(defaultEndpointOptionsConfig()) as (keyof TEndpointNormalizedOptionsConfig)[]
+  const touched = new Map<keyof TEndpointNormalizedOptionsConfig, TConfigProvenanceLayer[]>(keys.map((k) => [k, []]))
+
+  const cfg = traceEndpointConfigs(env, layers.map(([, v]) => v), (index, before, after) => {
+    const [layer, source] = layers[index]!
+    for (const k of keys) {
+      if (_isTouched(source, k, before[k], after[k])) {
+        touched.get(k)!.push(layer)
+      }
+    }
+  })
+
+  // Значения по умолчанию, которые подставит конструктор конфигурации
+  const defaults: Partial<TEndpointNormalizedOptionsConfig> = {}
+  const kind = cfg.kind ?? env.defaultConfigKind
+  if (!cfg.kind) {
+    defaults.kind = kind as TNonemptyString
+  }
+  if (!cfg.context) {
+    const ctxKind = env.contextKindMap.get(kind)
+    defaults.context = ctxKind ? env.contextRegistry.factory(ctxKind) ?? null : null
+  }
+  if (!cfg.executor) {
+    const exKind = env.executorKindMap.get(kind)
+    defaults.executor = exKind ? env.middlewareRegistry.ref(exKind) ?? null : null
+  }
+  if (!cfg.requestInit) {
+    defaults.requestInit = new RequestInitConfig(null, env.requestInitExtendsMode)
+  }
+  if (!cfg.headers) {
+    defaults.headers = new HeadersConfig(null, env.headersExtendsMode, env.headersAppendMode)
+  }
+
+  const fields = {} as Record<string, TConfigProvenanceField<unknown>>
+  for (const k of keys) {
+    const list = touched.get(k)!
+    const hasDefault = (k in defaults) && defaults[k] !== null
+    const value = hasDefault ? defaults[k] : cfg[k]
+    if (hasDefault) {
+      list.push('environment')
+    }
+    fields[k] = Object.freeze({
+      value,
+      source: list[list.length - 1] ?? null,
+      layers: Object.freeze(list),
+      mode: _modeOf(k, value)
+    })
+  }
+
+  const presetName = config.preset === false ? null : (config.preset ?? baseConfig.preset)
+  return Object.freeze({
+    key,
+    kind,
+    presetName: (preset && typeof presetName === 'string') ? presetName : null,
+    fields: Object.freeze(fields) as TConfigProvenance['fields']
+  })
+}
+
+function _middlewareKind (ref: TMiddlewareInstanceRef<any, any>): string {
+  try {
+    return ref.ref.kind
+  } catch (_) {
+    // Ленивая ссылка на незарегистрированный Middleware
+    return '[Unregistered Middleware]'
+  }
+}
+
+function _toJsonValue (value: unknown): TConfigProvenanceJsonValue {
+  if (value === undefined || value === null) {
+    return null
+  }
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value
+  }
+  if (isSymbol(value)) {
+    return value.toString()
+  }
+  if (isFunction(value)) {
+    return `[Function ${value.name || 'anonymous'}]`
+  }
+  if (isMiddlewareRef(value)) {
+    return value.iterable ? value.ref.refs.map((item) => _middlewareKind(item)) : _middlewareKind(value)
+  }
+  if (value instanceof UrlConfig) {
+    return value.toMutable().toString()
+  }
+  if (value instanceof HeadersConfig) {
+    return value.entries.map(([k, v]) => [k, v])
+  }
+  if (value instanceof RequestInitConfig) {
+    return _toJsonValue({ ...value.requestInitBase })
+  }
+  if (value instanceof RetryPolicy) {
+    return _toJsonValue({ statuses: value.statuses, errors: value.errors, methods: value.methods, maxRetryTime: value.maxRetryTime })
+  }
+  if (value instanceof ContextFactoryLike) {
+    return value.kind
+  }
+  if (value instanceof BodySerializerLike) {
+    return value.mediaType
+  }
+  if (value instanceof EndpointPresetConfig) {
+    return '[EndpointPresetConfig]'
+  }
+  if (value instanceof Set) {
+    return [...value].map((item) => _toJsonValue(item))
+  }
+  if (isArray(value)) {
+    return value.map((item) => _toJsonValue(item))
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, _toJsonValue(v)]))
+  }
+  return `[${(value as object).constructor?.name || 'Object'}]`
+}
+
+/**
+ * Приводит {@link TConfigProvenance} к сериализуемой форме для `JSON.stringify()` и инструментов отладки.
+ *
+ * Функции и экземпляры классов заменяются строками описания, `Middleware` - именами `kind`, `UrlConfig` - строкой
+ * шаблона `URL`, сериализаторы - медиа типом, заголовки - массивом пар.
+ *
+ * @param provenance Результат {@link explainEndpointConfig()}.
+ */
+function configProvenanceToJson (provenance: TConfigProvenance): TConfigProvenanceJson {
+  const fields: TConfigProvenanceJson['fields'] = {}
+  for (const [k, field] of Object.entries(provenance.fields) as [string, TConfigProvenanceField<unknown>][]) {
+    fields[k] = {
+      value: _toJsonValue(field.value),
+      source: field.source,
+      layers: [...field.layers],
+      mode: field.mode ? { ...field.mode } : null
+    }
+  }
+  return {
+    key: isSymbol(provenance.key) ? provenance.key.toString() : provenance.key,
+    kind: provenance.kind,
+    presetName: provenance.presetName,
+    fields
+  }
+}
+
+export {
+  type TConfigProvenanceLayer,
+  type TConfigProvenanceMode,
+  type TConfigProvenanceField,
+  type TConfigProvenance,
+  type TConfigProvenanceJsonValue,
+  type TConfigProvenanceJson,
+  explainEndpointConfig,
+  configProvenanceToJson
+}
@@ -7,10 +7,14 @@ import type {
   TFnRetryDelay
 } from '../types.js'
 import type { ContextFactoryLike } from '../interfaces/ContextLike.js'
+import type { BodySerializerLike } from '../interfaces/BodySerializerLike.js'
 import type { TMiddlewareInstanceRef, TMiddlewareRef } from '../middlewares/Middleware.js'
 import type { IEnvironment } from '../Environment.js'
 import type {
   TEndpointNormalizedBaseConfig,
+  TEndpointCircuitBreakerNormalizedOptions,
+  TEndpointDedupeNormalizedOptions,
+  TEndpointCacheNormalizedOptions,
   TEndpointNormalizedOptionsConfig,
   TEndpointNormalizedPresetConfig,
   TResponseHandler
@@ -18,6 +22,7 @@ import type {
 import type { RequestInitConfig } from './RequestInitConfig.js'
 import type { HeadersConfig } from './HeadersConfig.js'
 import type { UrlConfig } from './UrlConfig.js'
+import type { RetryPolicy } from './RetryPolicy.js'
 
 /**
  * Базовая конфигурация конечной точки применимая ко всем подклассам.
@@ -29,10 +34,19 @@ abstract class EndpointConfigBase {
   protected readonly _queueKey: null | TNonemptyString
   protected readonly _queuePriority: null | TNonNegInteger
   protected readonly _queueLimit: null | TPositiveInteger
+  protected readonly _queueRateLimit: null | TPositiveInteger
+  protected readonly _queueRateInterval: null | TPositiveNumber
+  protected readonly _queueRateBurst: null | TPositiveInteger
   protected readonly _queueUnordered: null | TNumericBool
   protected readonly _timeout: null | TPositiveNumber
   protected readonly _retries: null | TPositiveInteger
   protected readonly _retryDelay: null | TFnRetryDelay
+  protected readonly _retryPolicy: null | RetryPolicy
+  protected readonly _circuitBreaker: null | TEndpointCircuitBreakerNormalizedOptions
+  protected readonly _dedupe: null | TEndpointDedupeNormalizedOptions
+  protected readonly _cache: null | TEndpointCacheNormalizedOptions
+  protected readonly _serializer: null | BodySerializerLike
+  protected readonly _responseTypes: null | readonly string[]
 
   protected constructor(config: TEndpointNormalizedBaseConfig) {
     this._preprocessor = config.preprocessor
@@ -40,11 +54,20 @@ abstract class EndpointConfigBase {
     this._errorprocessor = config.errorprocessor
     this._queuePriority = config.queuePriority
     this._queueLimit = config.queueLimit
+    this._queueRateLimit = config.queueRateLimit
+    this._queueRateInterval = config.queueRateInterval
+    this._queueRateBurst = config.queueRateBurst
     this._queueKey = config.queueKey
     this._queueUnordered = config.queueUnordered
     this._timeout = config.timeout
     this._retries = config.retries
     this._retryDelay = config.retryDelay
+    this._retryPolicy = config.retryPolicy
+    this._circuitBreaker = config.circuitBreaker
+    this._dedupe = config.dedupe
+    this._cache = config.cache
+    this._serializer = config.serializer
+    this._responseTypes = config.responseTypes
   }
 
   get preprocessor (): null | TMiddlewareRef<any, any> {
@@ -71,6 +94,18 @@ abstract class EndpointConfigBase {
     return this._queueLimit
   }
 
+  get queueRateLimit (): null | TPositiveInteger {
+    return this._queueRateLimit
+  }
+
+  get queueRateInterval (): null | TPositiveNumber {
+    return this._queueRateInterval
+  }
+
+  get queueRateBurst (): null | TPositiveInteger {
+    return this._queueRateBurst
+  }
+
   get queueUnordered (): null | TNumericBool {
     return this._queueUnordered
   }
@@ -86,6 +121,30 @@ abstract class EndpointConfigBase {
   get retryDelay (): null | TFnRetryDelay {
     return this._retryDelay
   }
+
+  get retryPolicy (): null | RetryPolicy {
+    return this._retryPolicy
+  }
+
+  get circuitBreaker (): null | TEndpointCircuitBreakerNormalizedOptions {
+    return this._circuitBreaker
+  }
+
+  get dedupe (): null | TEndpointDedupeNormalizedOptions {
+    return this._dedupe
+  }
+
+  get cache (): null | TEndpointCacheNormalizedOptions {
+    return this._cache
+  }
+
+  get serializer (): null | BodySerializerLike {
+    return this._serializer
+  }
+
+  get responseTypes (): null | readonly string[] {
+    return this._responseTypes
+  }
 }
 
 /**
@@ -97,9 +156,15 @@ class EndpointPresetConfig extends EndpointConfigBase {
   protected readonly _executor: null | TMiddlewareInstanceRef<any, any>
   protected readonly _requestInit: null | RequestInitConfig
   protected readonly _headers: null | HeadersConfig
+  protected readonly _extends: null | TNonemptyString
 
-  constructor(config: TEndpointNormalizedPresetConfig) {
+  /**
+   * @param config        Нормализованная конфигурация.
+   * @param extendsPreset Имя зарегистрированного родительского пресета.
+   */
+  constructor(config: TEndpointNormalizedPresetConfig, extendsPreset?: undefined | null | TNonemptyString) {
     super(config)
+    this._extends = extendsPreset ?? null
     this._kind = config.kind
     this._context = config.context
     this._executor = config.executor
@@ -126,6 +191,13 @@ class EndpointPresetConfig extends EndpointConfigBase {
   get headers (): null | HeadersConfig {
     return this._headers
   }
+
+  /**
+   * Имя зарегистрированного родительского пресета или `null`.
+   */
+  get extends (): null | TNonemptyString {
+    return this._extends
+  }
 }
 
 /**
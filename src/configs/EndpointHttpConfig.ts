@@ -1,4 +1,5 @@
-import { type AsyncQueue } from '../libs/AsyncQueue.js'
+import { type AsyncQueue, asyncQueueRateLimitOrNull } from '../libs/AsyncQueue.js'
+import type { CircuitBreaker } from '../libs/CircuitBreaker.js'
 import { ConfigureError, errorDetails } from '../errors.js'
 import type { ContextFactoryLike } from '../interfaces/ContextLike.js'
 import type { TMiddlewareInstanceRef } from '../middlewares/Middleware.js'
@@ -30,20 +31,36 @@ interface TEndpointHttpConfig extends
   // ...
 }
 
-type TEndpointHttpConfigRequiredProps = {
+/**
+ * Обязательные параметры конфигураций, которые выполняют запрос по `URL` с заголовками {@link HeadersConfig}.
+ */
+type TEndpointRequestConfigRequiredProps = {
   url: UrlConfig
   context: ContextFactoryLike<HttpContextLike<any>, EndpointHttpConfig<any>>
   executor: TMiddlewareInstanceRef<any, any>
-  queue: null | AsyncQueue
   requestInit: RequestInitConfig
   headers: HeadersConfig
   handler: null | TResponseHandler<any>
 }
 
-function ensureEndpointHttpConfigRequiredProps (env: IEnvironment, config: EndpointOptionsConfig, key: symbol | string, kind: string): TEndpointHttpConfigRequiredProps {
-  const resolved = {} as TEndpointHttpConfigRequiredProps
+/**
+ * Обязательные параметры конфигурации {@link EndpointHttpConfig}: параметры запроса, очередь и выключатель.
+ */
+type TEndpointHttpConfigRequiredProps = TEndpointRequestConfigRequiredProps & {
+  queue: null | AsyncQueue
+  breaker: null | CircuitBreaker
+}
+
+/**
+ * Разрешает обязательные параметры конфигурации `kind`: `URL`, контекст и исполнитель по привязкам окружения,
+ * параметры запроса и обработчик. Очередь и выключатель не создаются.
+ *
+ * @throws ConfigureError Если нет базового `URL`, контекста или исполнителя.
+ */
+function ensureEndpointRequestConfigRequiredProps (env: IEnvironment, config: EndpointOptionsConfig, key: symbol | string, kind: string): TEndpointRequestConfigRequiredProps {
+  const resolved = {} as TEndpointRequestConfigRequiredProps
   if (!(config.path instanceof UrlConfig)) {
-    throw new ConfigureError(errorDetails.ConfigureError(`Конфигурация 'EndpointHttpConfig:http, key:${safeToJson(key)}' предполагает обязательный базовый абсолютный 'UrlConfig'.`))
+    throw new ConfigureError(errorDetails.ConfigureError(`Конфигурация 'EndpointConfig:${kind}, key:${safeToJson(key)}' предполагает обязательный базовый абсолютный 'UrlConfig'.`))
   }
   resolved.url = config.path
   if (config.context) {
@@ -53,7 +70,7 @@ function ensureEndpointHttpConfigRequiredProps (env: IEnvironment, config: Endpo
     const ctxKind = env.contextKindMap.get(kind)
     let ctxCls: ContextFactoryLike
     if (!ctxKind || !(ctxCls = env.contextRegistry.factory(ctxKind))) {
-      throw new ConfigureError(errorDetails.ConfigureError(`Конфигурация 'EndpointHttpConfig:http, key:${safeToJson(key)}' не связана ни с одним контекстом выполнения 'Context'.`))
+      throw new ConfigureError(errorDetails.ConfigureError(`Конфигурация 'EndpointConfig:${kind}, key:${safeToJson(key)}' не связана ни с одним контекстом выполнения 'Context'.`))
     }
     resolved.context = ctxCls as ContextFactoryLike<HttpContextLike<any>, EndpointHttpConfig<any>>
   }
@@ -64,16 +81,10 @@ function ensureEndpointHttpConfigRequiredProps (env: IEnvironment, config: Endpo
     const exKind = env.executorKindMap.get(kind)
     let exRef: TMiddlewareInstanceRef<any, any>
     if (!exKind || !(exRef = env.middlewareRegistry.ref(exKind))) {
-      throw new ConfigureError(errorDetails.ConfigureError(`Конфигурация 'EndpointHttpConfig:http, key:${safeToJson(key)}' не связана ни с одним основным исполнителем запроса 'Middleware'.`))
+      throw new ConfigureError(errorDetails.ConfigureError(`Конфигурация 'EndpointConfig:${kind}, key:${safeToJson(key)}' не связана ни с одним основным исполнителем запроса 'Middleware'.`))
     }
     resolved.executor = exRef
   }
-  if (config.queueKey) {
-    resolved.queue = env.namedQueue.getOrCreateQueue(config.queueKey, config.queueLimit)
-  }
-  else {
-    resolved.queue = null
-  }
   resolved.requestInit = config.requestInit ?? new RequestInitConfig(null, env.requestInitExtendsMode)
   resolved.headers = config.headers ?? new HeadersConfig(null, env.headersExtendsMode, env.headersAppendMode)
 
@@ -90,32 +101,74 @@ function ensureEndpointHttpConfigRequiredProps (env: IEnvironment, config: Endpo
   return resolved
 }
 
+/**
+ * Разрешает обязательные параметры {@link ensureEndpointRequestConfigRequiredProps}, очередь и выключатель.
+ *
+ * @throws ConfigureError Если нет базового `URL`, контекста, исполнителя или ключа выключателя.
+ */
+function ensureEndpointHttpConfigRequiredProps (env: IEnvironment, config: EndpointOptionsConfig, key: symbol | string, kind: string): TEndpointHttpConfigRequiredProps {
+  const resolved = ensureEndpointRequestConfigRequiredProps(env, config, key, kind) as TEndpointHttpConfigRequiredProps
+  if (config.queueKey) {
+    resolved.queue = env.namedQueue.getOrCreateQueue(
+      config.queueKey,
+      config.queueLimit,
+      asyncQueueRateLimitOrNull(config.queueRateLimit, config.queueRateInterval, config.queueRateBurst)
+    )
+  }
+  else {
+    resolved.queue = null
+  }
+  if (config.circuitBreaker) {
+    // Ключ конечной точки или очереди не уникален в окружении и не может быть ключом выключателя по умолчанию
+    if (!config.circuitBreaker.key) {
+      throw new ConfigureError(errorDetails.ConfigureError(`Конфигурация 'EndpointConfig:${kind}, key:${safeToJson(key)}' предполагает обязательный ключ 'circuitBreaker.key'.`))
+    }
+    resolved.breaker = env.circuitBreakers.getOrCreate(config.circuitBreaker.key, config.circuitBreaker)
+  }
+  else {
+    resolved.breaker = null
+  }
+
+  return resolved
+}
+
 class EndpointHttpConfig<TOut> extends EndpointConfig {
   static get kind (): 'http' { return 'http' }
   get kind (): 'http' { return 'http' }
 
+  protected readonly _env: IEnvironment
   protected readonly _key: symbol | string
   protected readonly _url: UrlConfig
   protected readonly _context: ContextFactoryLike<HttpContextLike<any>, EndpointHttpConfig<any>>
   protected readonly _executor: TMiddlewareInstanceRef<any, any>
   protected readonly _queue: null | AsyncQueue
+  protected readonly _breaker: null | CircuitBreaker
   protected readonly _requestInit: RequestInitConfig
   protected readonly _headers: HeadersConfig
   protected readonly _handler: null | TResponseHandler<TOut>
 
   constructor(env: IEnvironment, config: EndpointOptionsConfig, key: symbol | string) {
     super(config)
+    this._env = env
     this._key = key
     const resolved = ensureEndpointHttpConfigRequiredProps(env, config, key, this.kind)
     this._url = resolved.url
     this._context = resolved.context
     this._executor = resolved.executor
     this._queue = resolved.queue
+    this._breaker = resolved.breaker
     this._requestInit = resolved.requestInit
     this._headers = resolved.headers
     this._handler = resolved.handler
   }
 
+  /**
+   * Окружение, в котором создана конфигурация. Используется контекстом для нормализации параметров вызова.
+   */
+  get env (): IEnvironment {
+    return this._env
+  }
+
   get key (): symbol | string {
     return this._key
   }
@@ -128,6 +181,13 @@ class EndpointHttpConfig<TOut> extends EndpointConfig {
     return this._queue
   }
 
+  /**
+   * Экземпляр автоматического выключателя, если задан параметр {@link circuitBreaker}.
+   */
+  get breaker (): null | CircuitBreaker {
+    return this._breaker
+  }
+
   get executor (): TMiddlewareInstanceRef<any, any> {
     return this._executor
   }
@@ -151,5 +211,9 @@ class EndpointHttpConfig<TOut> extends EndpointConfig {
 
 export {
   type TEndpointHttpConfig,
+  type TEndpointRequestConfigRequiredProps,
+  type TEndpointHttpConfigRequiredProps,
+  ensureEndpointRequestConfigRequiredProps,
+  ensureEndpointHttpConfigRequiredProps,
   EndpointHttpConfig
 }
@@ -0,0 +1,90 @@
+import { test, expect } from 'vitest'
+import { ConfigureError } from '../errors.js'
+import { Environment } from '../Environment.js'
+import { ManifestEndpoints } from '../ManifestEndpoints.js'
+import { MockRequestMiddleware } from '../middlewares/MockRequestMiddleware.js'
+import { validateEndpointManifest, loadEndpointManifest } from './EndpointManifest.js'
+
+test('validateEndpointManifest', () => {
+  const env = new Environment()
+
+  expect(validateEndpointManifest(env, {
+    options: { path: 'https://example.com/api', timeout: 5000 },
+    presets: { json: { postprocessor: 'JsonResponseMiddleware', retries: 2, retryDelay: 'exponential' } },
+    endpoints: {
+      USERS: { path: 'users', preset: 'json', headers: { 'x-app': 'demo' }, requestInit: { cache: 'no-cache' } },
+      FILES: { path: { path: 'files', query: { page: 1 } }, postprocessor: false, dedupe: true }
+    }
+  })).toStrictEqual([])
+
+  // Каждая ошибка имеет точный путь к значению
+  expect(validateEndpointManifest(env, {
+    presets: { bad: { path: 'x' } },
+    endpoints: {
+      USERS: { timeout: -1, preset: 'missing', postprocessor: ['JsonResponseMiddleware', 'Unknown'] },
+      'a.b': { retryPolicy: { methods: ['GET', 'FETCH'] }, path: false }
+    }
+  }).map(({ path }) => path)).toStrictEqual([
+    '$.presets.bad.path',
+    '$.endpoints.USERS.timeout',
+    '$.endpoints.USERS.preset',
+    '$.endpoints.USERS.postprocessor[1]',
+    '$.endpoints["a.b"].retryPolicy.methods[1]',
+    '$.endpoints["a.b"].path'
+  ])
+
+  // Наследование пресетов манифеста не должно образовывать цикл, родитель может быть зарегистрирован позже
+  expect(validateEndpointManifest(env, {
+    presets: { a: { extends: 'b' }, b: { extends: 'a' }, c: { extends: 'lazy' } },
+    endpoints: { A: { extends: 'c' } }
+  }).map(({ path }) => path)).toStrictEqual([
+    '$.presets.a.extends',
+    '$.presets.b.extends',
+    '$.endpoints.A.extends'
+  ])
+
+  expect(validateEndpointManifest(env, [])[0]!.path).toBe('$')
+  expect(validateEndpointManifest(env, {})[0]!.path).toBe('$.endpoints')
+})
+
+test('loadEndpointManifest', () => {
+  const env = new Environment()
+
+  expect(() => loadEndpointManifest(env, '{')).toThrow(ConfigureError)
+  try {
+    loadEndpointManifest(env, '{"presets":{"p":{}},"endpoints":{"A":{"queueLimit":0}}}')
+    expect.unreachable()
+  } catch (e) {
+    expect(e).toBeInstanceOf(ConfigureError)
+    expect((e as ConfigureError).detail.data).toStrictEqual([{ path: '$.endpoints.A.queueLimit', message: 'Ожидается целое положительное число, получено: 0.' }])
+  }
+  // Манифест с ошибками не регистрирует пресеты
+  expect(env.presetRegistry.has('p')).toBe(false)
+
+  loadEndpointManifest(env, { presets: { p: {} }, endpoints: {} })
+  expect(env.presetRegistry.has('p')).toBe(true)
+  // Повторная регистрация отклоняется
+  expect(validateEndpointManifest(env, { presets: { p: {} }, endpoints: {} })[0]!.path).toBe('$.presets.p')
+})
+
+test('ManifestEndpoints', async () => {
+  const mock = new MockRequestMiddleware()
+  mock.routes
+    .on('GET', '/api/users/{id}', ({ params, headers }) => ({ json: { id: params.id, app: new Headers(headers as [string, string][]).get('x-app') } }))
+  const env = new Environment({ middlewares: [mock], executorKindMap: new Map([['http', mock.kind]]) })
+
+  const api = new ManifestEndpoints(env, JSON.stringify({
+    options: { path: 'http://localhost/api' },
+    presets: { json: { postprocessor: 'JsonResponseMiddleware', headers: { 'x-app': 'demo' } } },
+    endpoints: {
+      USERS: { path: 'users', preset: 'json' }
+    }
+  }))
+
+  expect(api.keys).toStrictEqual(['USERS'])
+  expect(api.url('USERS', '7').value).toBe('http://localhost/api/users/7')
+  expect((await api.exec('USERS', { method: 'GET', path: '7' })).value).toStrictEqual({ id: '7', app: 'demo' })
+
+  // Ключи, совпадающие с членами класса, запрещены
+  expect(() => new ManifestEndpoints(env, { endpoints: { exec: {} } })).toThrow(/\$\.endpoints\.exec/)
+})
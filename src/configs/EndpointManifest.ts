@@ -0,0 +1,471 @@
+import {
+  type TRetryDelayStrategyName,
+  type TRetryDelayStrategy,
+  isPositiveInteger,
+  isPositiveNumber,
+  isNonNegInteger,
+  isNonNegNumber,
+  isRetryDelayStrategy
+} from '../types.js'
+import { hasOwn, isArray, isBoolean, isNonemptyString, isPlainObject, isString, safeToJson } from '../utils.js'
+import { errorDetails, ConfigureError } from '../errors.js'
+import type { IEnvironment } from '../Environment.js'
+import { type THttpRequestMethod, type TEndpointOptionsConfig, isHttpRequestMethod } from './types.js'
+import { type TRequestInitBaseOptions, requestInitBaseConfigProps } from './RequestInitConfig.js'
+import { createEndpointPresetConfig } from './utils.js'
+import { isMediaTypePattern } from '../libs/ResponseDecoder.js'
+
+/**
+ * Параметры конфигурации пресета манифеста {@link TEndpointManifest}.
+ *
+ * Это подмножество {@link TEndpointPresetConfig}, которое можно сохранить в `JSON`. Конструкторы, функции и
+ * экземпляры заменяются именами `kind`, зарегистрированными в окружении.
+ */
+interface TManifestPresetConfig {
+  kind?: undefined | null | false | string
+  context?: undefined | null | false | string
+  executor?: undefined | null | false | string
+  preprocessor?: undefined | null | false | string | readonly string[]
+  postprocessor?: undefined | null | false | string | readonly string[]
+  errorprocessor?: undefined | null | false | string | readonly string[]
+  queueKey?: undefined | null | false | string
+  queueLimit?: undefined | null | false | number
+  queueRateLimit?: undefined | null | false | number
+  queueRateInterval?: undefined | null | false | number
+  queueRateBurst?: undefined | null | false | number
+  queuePriority?: undefined | null | false | number
+  queueUnordered?: undefined | null | false | 0 | 1
+  timeout?: undefined | null | false | number
+  retries?: undefined | null | false | number
+  retryDelay?: undefined | null | false | number | TRetryDelayStrategyName | TRetryDelayStrategy
+  retryPolicy?: undefined | null | false | {
+    statuses?: undefined | null | readonly number[]
+    methods?: undefined | null | readonly THttpRequestMethod[]
+    maxRetryTime?: undefined | null | number
+  }
+  circuitBreaker?: undefined | null | false | {
+    key: string
+    failureThreshold?: undefined | null | number
+    window?: undefined | null | number
+    cooldown?: undefined | null | number
+    halfOpenRequests?: undefined | null | number
+  }
+  dedupe?: undefined | null | boolean | { headers?: undefined | null | readonly string[] }
+  cache?: undefined | null | boolean | { maxAge?: undefined | null | number, authorized?: undefined | null | boolean }
+  /**
+   * Медиа тип сериализатора, зарегистрированного в {@link IEnvironment.serializerRegistry}.
+   */
+  serializer?: undefined | null | false | string
+  /**
+   * Допустимые шаблоны медиа типов ответа.
+   */
+  responseTypes?: undefined | null | false | readonly string[]
+  requestInit?: undefined | null | false | (TRequestInitBaseOptions & { headers?: undefined | null | Record<string, string> | readonly (readonly [string, string])[] })
+  headers?: undefined | null | false | Record<string, string> | readonly (readonly [string, string])[]
+  /**
+   * Имя родительского пресета из {@link TEndpointManifest.presets} или зарегистрированного в окружении. Родитель может
+   * быть зарегистрирован позже загрузки манифеста.
+   */
+  extends?: undefined | null | false | string
+}
+
+/**
+ * Параметры конфигурации конечной точки манифеста {@link TEndpointManifest}.
+ */
+interface TManifestEndpointConfig extends Omit<TManifestPresetConfig, 'extends'> {
+  /**
+   * Абсолютный или относительный путь, или его компоненты.
+   */
+  path?: undefined | null | string | {
+    origin?: undefined | null | string
+    path?: undefined | null | string
+    query?: undefined | null | string | Record<string, string | number | boolean | null>
+    hash?: undefined | null | string
+  }
+  /**
+   * Имя пресета из {@link TEndpointManifest.presets} или зарегистрированного в окружении.
+   */
+  preset?: undefined | null | false | string
+}
+
+/**
+ * Декларативное описание конечных точек, которое можно сохранить в `JSON`.
+ *
+ * @example
+ * ```json
+ * {
+ *   "options": { "path": "https://example.com/api", "timeout": 5000 },
+ *   "presets": { "json": { "postprocessor": "JsonResponseMiddleware", "retries": 2 } },
+ *   "endpoints": {
+ *     "USERS": { "path": "users", "preset": "json", "headers": { "x-app": "demo" } }
+ *   }
+ * }
+ * ```
+ */
+interface TEndpointManifest {
+  /**
+   * Базовая конфигурация, которую расширяют все конечные точки. Обычно здесь указывается базовый `URL`.
+   */
+  options?: undefined | null | TManifestEndpointConfig
+  /**
+   * Пресеты, которые будут зарегистрированы в окружении под своими именами.
+   */
+  presets?: undefined | null | Record<string, TManifestPresetConfig>
+  /**
+   * Конфигурации конечных точек по ключам.
+   */
+  endpoints: Record<string, TManifestEndpointConfig>
+}
+
+/**
+ * Ошибка проверки манифеста.
+ */
+interface TManifestIssue {
+  /**
+   * Путь к значению в формате `$.endpoints.USERS.timeout`.
+   */
+  readonly path: string
+  readonly message: string
+}
+
+/**
+ * Параметры манифеста, приведенные к конфигурациям библиотеки.
+ */
+interface TLoadedEndpointManifest {
+  readonly options: TEndpointOptionsConfig
+  readonly endpoints: Readonly<Record<string, TEndpointOptionsConfig>>
+}
+
+interface _TManifestContext {
+  readonly env: IEnvironment
+  readonly presets: ReadonlySet<string>
+  readonly isReservedKey: null | ((key: string) => boolean)
+  readonly issues: TManifestIssue[]
+}
+
+type _TFieldCheck = (ctx: _TManifestContext, path: string, value: any) => void
+
+const _reIdentifier = /^[A-Za-z_$][\w$]*$/
+
+function _joinPath (path: string, key: string | number): string {
+  if (isString(key)) {
+    return _reIdentifier.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`
+  }
+  return `${path}[${key}]`
+}
+
+function _issue (ctx: _TManifestContext, path: string, message: string): void {
+  ctx.issues.push(Object.freeze({ path, message }))
+}
+
+function _expect (ctx: _TManifestContext, path: string, ok: boolean, expected: string, value: any): boolean {
+  if (!ok) {
+    _issue(ctx, path, `Ожидается ${expected}, получено: ${safeToJson(value)}.`)
+  }
+  return ok
+}
+
+function _check (ok: (value: any) => boolean, expected: string): _TFieldCheck {
+  return (ctx, path, value) => {
+    _expect(ctx, path, ok(value), expected, value)
+  }
+}
+
+const _checkNonemptyString = _check(isNonemptyString, 'непустая строка')
+const _checkPositiveInteger = _check(isPositiveInteger, 'целое положительное число')
+const _checkPositiveNumber = _check(isPositiveNumber, 'положительное число')
+const _checkNonNegInteger = _check(isNonNegInteger, 'целое неотрицательное число')
+const _checkNonNegNumber = _check(isNonNegNumber, 'неотрицательное число')
+const _checkString = _check(isString, 'строка')
+const _checkBoolean = _check(isBoolean, 'boolean')
+
+function _checkArrayOf (check: _TFieldCheck): _TFieldCheck {
+  return (ctx, path, value) => {
+    if (_expect(ctx, path, isArray(value), 'массив', value)) {
+      for (let i = 0; i < value.length; ++i) {
+        check(ctx, _joinPath(path, i), value[i])
+      }
+    }
+  }
+}
+
+function _checkObject (fields: Readonly<Record<string, _TFieldCheck>>): _TFieldCheck {
+  return (ctx, path, value) => {
+    if (!_expect(ctx, path, isPlainObject(value), 'объект', value)) {
+      return
+    }
+    for (const [key, item] of Object.entries(value)) {
+      const check = hasOwn(fields, key) ? fields[key] : null
+      if (!check) {
+        _issue(ctx, _joinPath(path, key), 'Неизвестное поле.')
+      }
+      else if (item !== undefined && item !== null) {
+        check(ctx, _joinPath(path, key), item)
+      }
+    }
+  }
+}
+
+function _checkRegistered (registry: 'configRegistry' | 'contextRegistry' | 'middlewareRegistry', label: string): _TFieldCheck {
+  return (ctx, path, value) => {
+    if (_expect(ctx, path, isNonemptyString(value), 'имя зарегистрированного типа', value) && !ctx.env[registry].has(value)) {
+      _issue(ctx, path, `${label} ${safeToJson(value)} не зарегистрирован.`)
+    }
+  }
+}
+
+const _checkMiddleware = _checkRegistered('middlewareRegistry', 'Middleware')
+
+const _checkSerializer: _TFieldCheck = (ctx, path, value) => {
+  if (_expect(ctx, path, isNonemptyString(value), 'медиа тип зарегистрированного сериализатора', value) && !ctx.env.serializerRegistry.find(value)) {
+    _issue(ctx, path, `Сериализатор ${safeToJson(value)} не зарегистрирован.`)
+  }
+}
+
+const _checkProcessor: _TFieldCheck = (ctx, path, value) => {
+  if (isArray(value)) {
+    _checkArrayOf(_checkMiddleware)(ctx, path, value)
+  }
+  else {
+    _checkMiddleware(ctx, path, value)
+  }
+}
+
+const _checkHeaderEntry: _TFieldCheck = (ctx, path, value) => {
+  _expect(ctx, path, isArray(value) && value.length === 2 && isString(value[0]) && isString(value[1]), 'пара строк [name, value]', value)
+}
+
+const _checkHeaders: _TFieldCheck = (ctx, path, value) => {
+  if (isArray(value)) {
+    _checkArrayOf(_checkHeaderEntry)(ctx, path, value)
+  }
+  else if (_expect(ctx, path, isPlainObject(value), 'объект или массив заголовков', value)) {
+    for (const [key, item] of Object.entries(value)) {
+      _checkString(ctx, _joinPath(path, key), item)
+    }
+  }
+}
+
+const _checkRequestInit = _checkObject(Object.fromEntries([
+  ...requestInitBaseConfigProps.map((key) => [key, key === 'keepalive'
+    ? _check((v) => typeof v === 'boolean', 'boolean')
+    : key === 'method' ? _check(isHttpRequestMethod, 'метод запроса') : _checkString] as const),
+  ['headers', _checkHeaders]
+]))
+
+const _checkQueryValue = _check((v) => v === null || isString(v) || typeof v === 'number' || typeof v === 'boolean', 'строка, число или boolean')
+
+const _checkPath: _TFieldCheck = (ctx, path, value) => {
+  if (isString(value)) {
+    return
+  }
+  _checkObject({
+    origin: _checkString,
+    path: _checkString,
+    query: (ctx, path, value) => {
+      if (!isString(value) && _expect(ctx, path, isPlainObject(value), 'строка или объект', value)) {
+        for (const [key, item] of Object.entries(value)) {
+          _checkQueryValue(ctx, _joinPath(path, key), item)
+        }
+      }
+    },
+    hash: _checkString
+  })(ctx, path, value)
+}
+
+const _checkPreset: _TFieldCheck = (ctx, path, value) => {
+  if (_expect(ctx, path, isNonemptyString(value), 'имя пресета', value) && !ctx.presets.has(value) && !ctx.env.presetRegistry.has(value)) {
+    _issue(ctx, path, `Пресет ${safeToJson(value)} не объявлен в манифесте и не зарегистрирован.`)
+  }
+}
+
+const _baseFields: Readonly<Record<Exclude<keyof TManifestPresetConfig, 'extends'>, _TFieldCheck>> = Object.freeze({
+  kind: _checkRegistered('configRegistry', 'Тип конфигурации'),
+  context: _checkRegistered('contextRegistry', 'Контекст'),
+  executor: _checkMiddleware,
+  preprocessor: _checkProcessor,
+  postprocessor: _checkProcessor,
+  errorprocessor: _checkProcessor,
+  queueKey: _checkNonemptyString,
+  queueLimit: _checkPositiveInteger,
+  queueRateLimit: _checkPositiveInteger,
+  queueRateInterval: _checkPositiveNumber,
+  queueRateBurst: _checkPositiveInteger,
+  queuePriority: _checkNonNegInteger,
+  queueUnordered: _check((v) => v === 0 || v === 1, '0 или 1'),
+  timeout: _checkPositiveNumber,
+  retries: _checkPositiveInteger,
+  retryDelay: _check((v) => isPositiveNumber(v) || isRetryDelayStrategy(v), "положительное число, 'linear', 'exponential' или параметры стратегии"),
+  retryPolicy: _checkObject({
+    statuses: _checkArrayOf(_checkPositiveInteger),
+    methods: _checkArrayOf(_check(isHttpRequestMethod, 'метод запроса')),
+    maxRetryTime: _checkPositiveNumber
+  }),
+  circuitBreaker: (ctx, path, value) => {
+    _checkObject({
+      key: _checkNonemptyString,
+      failureThreshold: _checkPositiveInteger,
+      window: _checkPositiveNumber,
+      cooldown: _checkPositiveNumber,
+      halfOpenRequests: _checkPositiveInteger
+    })(ctx, path, value)
+    if (isPlainObject(value) && (value.key === undefined || value.key === null)) {
+      _issue(ctx, _joinPath(path, 'key'), 'Обязательное поле.')
+    }
+  },
+  dedupe: (ctx, path, value) => {
+    if (value !== true) {
+      _checkObject({ headers: _checkArrayOf(_checkNonemptyString) })(ctx, path, value)
+    }
+  },
+  cache: (ctx, path, value) => {
+    if (value !== true) {
+      _checkObject({ maxAge: _checkNonNegNumber, authorized: _checkBoolean })(ctx, path, value)
+    }
+  },
+  serializer: _checkSerializer,
+  responseTypes: _checkArrayOf((ctx, path, value) => {
+    _expect(ctx, path, isNonemptyString(value) && isMediaTypePattern(value.trim().toLowerCase()), 'шаблон медиа типа', value)
+  }),
+  requestInit: _checkRequestInit,
+  headers: _checkHeaders
+})
+
+const _presetFields: Readonly<Record<keyof TManifestPresetConfig, _TFieldCheck>> = Object.freeze({
+  ..._baseFields,
+  extends: _checkNonemptyString
+})
+
+const _endpointFields: Readonly<Record<keyof TManifestEndpointConfig, _TFieldCheck>> = Object.freeze({
+  ..._baseFields,
+  path: _checkPath,
+  preset: _checkPreset
+})
+
+function _checkConfig (ctx: _TManifestContext, path: string, value: any, fields: Readonly<Record<string, _TFieldCheck>>): void {
+  if (!_expect(ctx, path, isPlainObject(value), 'объект', value)) {
+    return
+  }
+  for (const [key, item] of Object.entries(value)) {
+    const check = hasOwn(fields, key) ? fields[key] : null
+    if (!check) {
+      _issue(ctx, _joinPath(path, key), 'Неизвестное поле.')
+    }
+    // Флаг false сбрасывает наследуемое значение и допустим для всех полей, кроме пути
+    else if (item !== undefined && item !== null && (item !== false || key === 'path')) {
+      check(ctx, _joinPath(path, key), item)
+    }
+  }
+}
+
+function _checkPresetCycles (ctx: _TManifestContext, path: string, presets: Record<string, any>): void {
+  const parentOf = (name: string): null | string => {
+    const parent = hasOwn(presets, name) && isPlainObject(presets[name]) ? presets[name].extends : null
+    return isNonemptyString(parent) && hasOwn(presets, parent) ? parent : null
+  }
+  for (const name of Object.keys(presets)) {
+    const chain = [name]
+    let parent = parentOf(name)
+    while (parent !== null && !chain.includes(parent)) {
+      chain.push(parent)
+      parent = parentOf(parent)
+    }
+    if (parent === name) {
+      _issue(ctx, _joinPath(_joinPath(path, name), 'extends'), `Цикл наследования пресетов: ${[...chain, name].map((v) => safeToJson(v)).join(' -> ')}.`)
+    }
+  }
+}
+
+/**
+ * Проверяет манифест и возвращает список ошибок. Пустой список означает, что манифест может быть загружен.
+ *
+ * Помимо типов значений проверяется, что имена `kind` зарегистрированы в окружении, а пресеты объявлены в манифесте
+ * или зарегистрированы и не пересекаются с зарегистрированными, а наследование пресетов манифеста не образует цикл.
+ *
+ * @param env           Окружение, в котором будет загружен манифест.
+ * @param manifest      Манифест.
+ * @param isReservedKey Необязательная функция проверки ключей конечных точек, которые не могут быть использованы.
+ */
+function validateEndpointManifest (env: IEnvironment, manifest: any, isReservedKey?: undefined | null | ((key: string) => boolean)): TManifestIssue[] {
+  const issues: TManifestIssue[] = []
+  const presets = new Set<string>(isPlainObject(manifest?.presets) ? Object.keys(manifest.presets) : [])
+  const ctx: _TManifestContext = { env, presets, isReservedKey: isReservedKey ?? null, issues }
+  _checkObject({
+    options: (ctx, path, value) => _checkConfig(ctx, path, value, _endpointFields),
+    presets: (ctx, path, value) => {
+      if (_expect(ctx, path, isPlainObject(value), 'объект', value)) {
+        for (const [name, item] of Object.entries(value)) {
+          const itemPath = _joinPath(path, name)
+          if (name === '') {
+            _issue(ctx, itemPath, 'Имя пресета не может быть пустой строкой.')
+          }
+          else if (env.presetRegistry.has(name)) {
+            _issue(ctx, itemPath, `Пресет ${safeToJson(name)} уже зарегистрирован в окружении.`)
+          }
+          _checkConfig(ctx, itemPath, item, _presetFields)
+        }
+        _checkPresetCycles(ctx, path, value)
+      }
+    },
+    endpoints: (ctx, path, value) => {
+      if (_expect(ctx, path, isPlainObject(value), 'объект', value)) {
+        for (const [key, item] of Object.entries(value)) {
+          const itemPath = _joinPath(path, key)
+          if (ctx.isReservedKey?.(key)) {
+            _issue(ctx, itemPath, `Ключ ${safeToJson(key)} зарезервирован и не может быть именем конечной точки.`)
+          }
+          _checkConfig(ctx, itemPath, item, _endpointFields)
+        }
+      }
+    }
+  })(ctx, '$', manifest)
+  if (isPlainObject(manifest) && !('endpoints' in manifest)) {
+    _issue(ctx, '$.endpoints', 'Обязательное поле отсутствует.')
+  }
+  return issues
+}
+
+/**
+ * Проверяет манифест, регистрирует его пресеты в окружении и возвращает конфигурации конечных точек.
+ *
+ * Если манифест содержит ошибки, пресеты не регистрируются и поднимается {@link ConfigureError} с перечнем ошибок
+ * в сообщении. Список {@link TManifestIssue} доступен в поле ошибки `data`.
+ *
+ * @param env           Окружение.
+ * @param manifest      Манифест или строка `JSON`.
+ * @param isReservedKey Необязательная функция проверки ключей конечных точек, которые не могут быть использованы.
+ */
+function loadEndpointManifest (env: IEnvironment, manifest: string | TEndpointManifest, isReservedKey?: undefined | null | ((key: string) => boolean)): TLoadedEndpointManifest {
+  let value: any = manifest
+  if (isString(manifest)) {
+    try {
+      value = JSON.parse(manifest)
+    } catch (e) {
+      throw new ConfigureError(errorDetails.ConfigureError(`Манифест конечных точек не является допустимым JSON: ${e instanceof Error ? e.message : safeToJson(e)}`, e))
+    }
+  }
+  const issues = validateEndpointManifest(env, value, isReservedKey)
+  if (issues.length > 0) {
+    const detail = errorDetails.ConfigureError(`Манифест конечных точек содержит ошибки:\n${issues.map(({ path, message }) => `  ${path}: ${message}`).join('\n')}`)
+    detail.data = issues
+    throw new ConfigureError(detail)
+  }
+  const { options, presets, endpoints } = value as TEndpointManifest
+  for (const [name, preset] of Object.entries(presets ?? {})) {
+    env.presetRegistry.register(name, createEndpointPresetConfig(env, preset as TEndpointOptionsConfig))
+  }
+  return Object.freeze({
+    options: (options ?? {}) as TEndpointOptionsConfig,
+    endpoints: Object.freeze({ ...endpoints }) as Record<string, TEndpointOptionsConfig>
+  })
+}
+
+export {
+  type TManifestPresetConfig,
+  type TManifestEndpointConfig,
+  type TEndpointManifest,
+  type TManifestIssue,
+  type TLoadedEndpointManifest,
+  validateEndpointManifest,
+  loadEndpointManifest
+}
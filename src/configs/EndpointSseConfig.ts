@@ -0,0 +1,124 @@
+import { ConfigureError, errorDetails } from '../errors.js'
+import type { ContextFactoryLike } from '../interfaces/ContextLike.js'
+import type { TMiddlewareInstanceRef } from '../middlewares/Middleware.js'
+import type { SseContext } from '../contexts/SseContext.js'
+import type { IEnvironment } from '../Environment.js'
+import { type EndpointOptionsConfig, EndpointConfig } from './EndpointConfig.js'
+import { ensureEndpointRequestConfigRequiredProps } from './EndpointHttpConfig.js'
+import { safeToJson } from '../utils.js'
+import type { UrlConfig } from './UrlConfig.js'
+import type { RequestInitConfig } from './RequestInitConfig.js'
+import type { HeadersConfig } from './HeadersConfig.js'
+import type {
+  TEndpointBaseConfig,
+  TEndpointPartPathConfig,
+  TEndpointPartPresetConfig,
+  TEndpointPartRequestInitConfig,
+  TEndpointPartHandlerConfig,
+  TResponseHandler
+} from './types.js'
+
+/**
+ * Конфигурация конечной точки Server-Sent Events.
+ *
+ * Поток `text/event-stream` запрашивается основным исполнителем `http`, поэтому `URL`, заголовки и пресеты работают
+ * так же, как для {@link TEndpointHttpConfig}. События доставляются обработчиком {@link handler}, который обязателен.
+ *
+ * Параметры переподключения:
+ *
+ *  + `retries` - допустимое число неудачных попыток подряд, по умолчанию без ограничений.
+ *  + `retryDelay` - задержка перед переподключением, если сервер не передал поле `retry`.
+ *  + `timeout` - время ожидания ответа сервера для каждой попытки, но не время чтения потока.
+ *
+ * Переподключения не ставятся в очередь и не учитываются выключателем: параметры `queue*` и `circuitBreaker`
+ * игнорируются и не создают очередь или выключатель в окружении.
+ *
+ * @example
+ * ```ts
+ * class Api extends Endpoints {
+ *   readonly EVENTS: TEndpointSseConfig = { kind: 'sse', path: 'events', handler: 'onEvent' }
+ *
+ *   onEvent (ok: boolean, event: null | TSseEvent, error?: null | ApiRouterError) {
+ *     // ...
+ *   }
+ * }
+ * ```
+ */
+interface TEndpointSseConfig extends
+  TEndpointBaseConfig,
+  TEndpointPartPathConfig,
+  TEndpointPartRequestInitConfig,
+  TEndpointPartHandlerConfig<any>,
+  TEndpointPartPresetConfig {
+  kind: 'sse'
+}
+
+class EndpointSseConfig<TOut> extends EndpointConfig {
+  static get kind (): 'sse' { return 'sse' }
+  get kind (): 'sse' { return 'sse' }
+
+  protected readonly _env: IEnvironment
+  protected readonly _key: symbol | string
+  protected readonly _url: UrlConfig
+  protected readonly _context: ContextFactoryLike<SseContext<any>, EndpointSseConfig<any>>
+  protected readonly _executor: TMiddlewareInstanceRef<any, any>
+  protected readonly _requestInit: RequestInitConfig
+  protected readonly _headers: HeadersConfig
+  protected readonly _handler: TResponseHandler<TOut>
+
+  constructor(env: IEnvironment, config: EndpointOptionsConfig, key: symbol | string) {
+    super(config)
+    this._env = env
+    this._key = key
+    const resolved = ensureEndpointRequestConfigRequiredProps(env, config, key, this.kind)
+    if (!resolved.handler) {
+      throw new ConfigureError(errorDetails.ConfigureError(`Конфигурация 'EndpointConfig:${this.kind}, key:${safeToJson(key)}' предполагает обязательный обработчик событий 'handler'.`))
+    }
+    this._url = resolved.url
+    this._context = resolved.context as unknown as ContextFactoryLike<SseContext<any>, EndpointSseConfig<any>>
+    this._executor = resolved.executor
+    this._requestInit = resolved.requestInit
+    this._headers = resolved.headers
+    this._handler = resolved.handler
+  }
+
+  /**
+   * Окружение, в котором создана конфигурация.
+   */
+  get env (): IEnvironment {
+    return this._env
+  }
+
+  get key (): symbol | string {
+    return this._key
+  }
+
+  get context (): ContextFactoryLike<SseContext<any>, EndpointSseConfig<any>> {
+    return this._context
+  }
+
+  get executor (): TMiddlewareInstanceRef<any, any> {
+    return this._executor
+  }
+
+  get url (): UrlConfig {
+    return this._url
+  }
+
+  get requestInit (): RequestInitConfig {
+    return this._requestInit
+  }
+
+  get headers (): HeadersConfig {
+    return this._headers
+  }
+
+  get handler (): TResponseHandler<TOut> {
+    return this._handler
+  }
+}
+
+export {
+  type TEndpointSseConfig,
+  EndpointSseConfig
+}
@@ -0,0 +1,134 @@
+import { test, expect } from 'vitest'
+import { ConfigureError } from '../errors.js'
+import { Environment } from '../Environment.js'
+import { OpenApiEndpoints } from '../OpenApiEndpoints.js'
+import { MockRequestMiddleware } from '../middlewares/MockRequestMiddleware.js'
+import { UrlConfig, urlConfigToString } from './UrlConfig.js'
+import {
+  type TOpenApiDocument,
+  openApiResponseKind,
+  importOpenApi,
+  openApiToEndpointsSource
+} from './OpenApi.js'
+
+const petstore: TOpenApiDocument = {
+  openapi: '3.0.3',
+  info: { title: 'Pets', version: '1.0.0' },
+  servers: [{ url: 'https://example.com/{base}', variables: { base: { default: 'v1' } } }],
+  paths: {
+    '/pets': {
+      get: {
+        operationId: 'listPets',
+        summary: 'List pets',
+        parameters: [
+          { name: 'limit', in: 'query', schema: { type: 'integer', default: 20 } },
+          { name: 'X-Trace', in: 'header', schema: { type: 'string', default: 'on' } }
+        ],
+        responses: { 200: { content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/Pet' } } } } } }
+      },
+      post: {
+        operationId: 'createPet',
+        requestBody: { $ref: '#/components/requestBodies/NewPet' },
+        responses: { 201: { content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } } }
+      }
+    },
+    '/pets/{petId}': {
+      parameters: [{ $ref: '#/components/parameters/PetId' }],
+      get: {
+        operationId: 'showPetById',
+        responses: { 200: { content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } } }
+      },
+      delete: {
+        responses: { 204: { description: 'deleted' } }
+      }
+    },
+    '/pets/{petId}/photo': {
+      get: {
+        operationId: 'petPhoto',
+        parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'integer' } }],
+        responses: { 200: { content: { 'image/png': { schema: { type: 'string', format: 'binary' } } } } }
+      }
+    }
+  },
+  components: {
+    schemas: {
+      Pet: { type: 'object', required: ['id', 'name'], properties: { id: { type: 'integer' }, name: { type: 'string' }, tag: { type: 'string', nullable: true } } },
+      NewPet: { type: 'object', required: ['name'], properties: { name: { type: 'string' } } }
+    },
+    parameters: {
+      PetId: { name: 'petId', in: 'path', required: true, schema: { type: 'integer' } }
+    },
+    requestBodies: {
+      NewPet: { content: { 'application/json': { schema: { $ref: '#/components/schemas/NewPet' } } } }
+    }
+  }
+}
+
+test('openApiResponseKind', () => {
+  expect(openApiResponseKind('application/json; charset=utf-8')).toBe('JsonResponseMiddleware')
+  expect(openApiResponseKind('application/problem+json')).toBe('JsonResponseMiddleware')
+  expect(openApiResponseKind('text/plain')).toBe('TextResponseMiddleware')
+  expect(openApiResponseKind('image/png')).toBe('BlobImageResponseMiddleware')
+  expect(openApiResponseKind('application/octet-stream')).toBeNull()
+  expect(openApiResponseKind(null)).toBeNull()
+})
+
+test('importOpenApi', () => {
+  const endpoints = importOpenApi(petstore, { headers: { 'x-app': 'demo' } })
+  expect(Object.keys(endpoints)).toStrictEqual(['listPets', 'createPet', 'showPetById', 'delete_pets_petId', 'petPhoto'])
+
+  const list = endpoints.listPets!
+  expect(list.method).toBe('GET')
+  expect(list.path).toBe('pets')
+  expect(list.config.postprocessor).toBe('JsonResponseMiddleware')
+  expect(list.config.headers).toStrictEqual({ 'x-app': 'demo', 'X-Trace': 'on' })
+  // Сервер с переменными стал UrlConfig, а default параметров query - параметрами URL
+  expect(list.config.path).toBeInstanceOf(UrlConfig)
+  expect(urlConfigToString(list.config.path as UrlConfig)).toBe('https://example.com/v1/pets?limit=20')
+
+  const show = endpoints.showPetById!
+  expect(show.pathParams.map((v) => v.name)).toStrictEqual(['petId'])
+  expect(urlConfigToString(show.config.path as UrlConfig, { path: { petId: 7 }, query: null, hash: null })).toBe('https://example.com/v1/pets/7')
+
+  expect(endpoints.createPet!.requestSchema).toStrictEqual({ $ref: '#/components/schemas/NewPet' })
+  expect(endpoints.delete_pets_petId!.config.postprocessor).toBeNull()
+  expect(endpoints.petPhoto!.config.postprocessor).toBe('BlobImageResponseMiddleware')
+
+  // Относительный сервер без origin расширяет базовую конфигурацию Endpoints
+  const relative = importOpenApi({ ...petstore, servers: [{ url: '/api' }] })
+  expect(relative.listPets!.config.path).not.toBeInstanceOf(UrlConfig)
+  expect(importOpenApi({ ...petstore, servers: [{ url: '/api' }] }, { origin: 'http://localhost:3000' }).listPets!.config.path).toBeInstanceOf(UrlConfig)
+
+  expect(() => importOpenApi({ openapi: '2.0' })).toThrow(ConfigureError)
+  expect(() => importOpenApi({ openapi: '3.1.0', paths: { '/files/{name}.json': { get: {} } } })).toThrow(ConfigureError)
+  expect(() => importOpenApi({ openapi: '3.1.0', paths: { '/a': { get: { parameters: [{ $ref: '#/components/parameters/Missing' }] } } } })).toThrow(ConfigureError)
+})
+
+test('openApiToEndpointsSource', () => {
+  const source = openApiToEndpointsSource(petstore, { className: 'PetsApi', importFrom: '../index.js' })
+  expect(source).toContain("import { type Environment, type TEndpointOptionsConfig, Endpoints, typedEndpoint } from '../index.js'")
+  expect(source).toContain('export type Pet = {\n  id: number\n  name: string\n  tag?: string | null\n}')
+  expect(source).toContain("export class PetsApi extends Endpoints<'listPets' | 'createPet' | 'showPetById' | 'delete_pets_petId' | 'petPhoto', PetsApi> {")
+  expect(source).toContain("static readonly methods = Object.freeze({ listPets: 'GET', createPet: 'POST', showPetById: 'GET', delete_pets_petId: 'DELETE', petPhoto: 'GET' } as const)")
+  expect(source).toContain("  /** List pets */\n  readonly listPets = typedEndpoint<Pet[], undefined, { limit?: number }>()({ path: 'pets', postprocessor: 'JsonResponseMiddleware' })")
+  expect(source).toContain("readonly createPet = typedEndpoint<Pet, NewPet, never>()({ path: 'pets', postprocessor: 'JsonResponseMiddleware' })")
+  expect(source).toContain("readonly delete_pets_petId = typedEndpoint<Response, undefined, never>()({ path: 'pets/{petId}' })")
+  expect(source).toContain("readonly petPhoto = typedEndpoint<Blob, undefined, never>()({ path: 'pets/{petId}/photo', postprocessor: 'BlobImageResponseMiddleware' })")
+  expect(source).toContain("super(env, { path: 'https://example.com/v1', ...config })")
+})
+
+test('OpenApiEndpoints', async () => {
+  const mock = new MockRequestMiddleware()
+  mock.routes
+    .on('GET', '/v1/pets/{petId}', ({ params }) => ({ json: { id: Number(params.petId), name: 'Rex' } }))
+    .on('DELETE', '/v1/pets/{petId}', { status: 204 })
+  const env = new Environment({ middlewares: [mock], executorKindMap: new Map([['http', mock.kind]]) })
+  const api = new OpenApiEndpoints(env, petstore)
+
+  expect(api.operations.showPetById!.method).toBe('GET')
+  expect((await api.request('showPetById', { params: { petId: 7 } })).value).toStrictEqual({ id: 7, name: 'Rex' })
+  expect((await api.request('delete_pets_petId', { params: { petId: 7 } })).ok).toBe(true)
+  expect(mock.routes.calls.map((v) => v.method)).toStrictEqual(['GET', 'DELETE'])
+
+  expect(() => new OpenApiEndpoints(env, { openapi: '3.0.0', paths: { '/a': { get: { operationId: 'exec' } } } })).toThrow(ConfigureError)
+})
@@ -0,0 +1,526 @@
+import { isArray, isNonemptyString, isPlainObject, isString, safeToJson } from '../utils.js'
+import { errorDetails, ConfigureError } from '../errors.js'
+import { type THttpRequestMethod, type TEndpointOptionsConfig, httpRequestMethods } from './types.js'
+import { PathComponents } from './PathComponents.js'
+import { UrlConfig, parsedUrlOrNull } from './UrlConfig.js'
+
+/**
+ * Схема значения OpenAPI. Описаны только поля, которые используются при импорте.
+ */
+interface TOpenApiSchema {
+  $ref?: undefined | string
+  type?: undefined | string | readonly string[]
+  format?: undefined | string
+  enum?: undefined | readonly (null | string | number | boolean)[]
+  const?: undefined | null | string | number | boolean
+  nullable?: undefined | boolean
+  items?: undefined | TOpenApiSchema
+  properties?: undefined | Record<string, TOpenApiSchema>
+  required?: undefined | readonly string[]
+  additionalProperties?: undefined | boolean | TOpenApiSchema
+  oneOf?: undefined | readonly TOpenApiSchema[]
+  anyOf?: undefined | readonly TOpenApiSchema[]
+  allOf?: undefined | readonly TOpenApiSchema[]
+  default?: unknown
+}
+
+interface TOpenApiReference {
+  $ref: string
+}
+
+interface TOpenApiParameter {
+  name: string
+  in: 'query' | 'header' | 'path' | 'cookie'
+  required?: undefined | boolean
+  schema?: undefined | TOpenApiSchema
+}
+
+interface TOpenApiMediaType {
+  schema?: undefined | TOpenApiSchema
+}
+
+interface TOpenApiRequestBody {
+  required?: undefined | boolean
+  content?: undefined | Record<string, TOpenApiMediaType>
+}
+
+interface TOpenApiResponse {
+  description?: undefined | string
+  content?: undefined | Record<string, TOpenApiMediaType>
+}
+
+interface TOpenApiServer {
+  url: string
+  variables?: undefined | Record<string, { default: string }>
+}
+
+interface TOpenApiOperation {
+  operationId?: undefined | string
+  summary?: undefined | string
+  parameters?: undefined | readonly (TOpenApiParameter | TOpenApiReference)[]
+  requestBody?: undefined | TOpenApiRequestBody | TOpenApiReference
+  responses?: undefined | Record<string, TOpenApiResponse | TOpenApiReference>
+  servers?: undefined | readonly TOpenApiServer[]
+}
+
+type TOpenApiPathItem = {
+  parameters?: undefined | readonly (TOpenApiParameter | TOpenApiReference)[]
+  servers?: undefined | readonly TOpenApiServer[]
+} & { [K in Lowercase<THttpRequestMethod>]?: undefined | TOpenApiOperation }
+
+/**
+ * Документ OpenAPI `3.x`.
+ */
+interface TOpenApiDocument {
+  openapi: string
+  info?: undefined | { title?: undefined | string, version?: undefined | string }
+  servers?: undefined | readonly TOpenApiServer[]
+  paths?: undefined | Record<string, TOpenApiPathItem>
+  components?: undefined | {
+    schemas?: undefined | Record<string, TOpenApiSchema>
+    parameters?: undefined | Record<string, TOpenApiParameter>
+    requestBodies?: undefined | Record<string, TOpenApiRequestBody>
+    responses?: undefined | Record<string, TOpenApiResponse>
+  }
+}
+
+/**
+ * Параметры импорта OpenAPI.
+ */
+interface TOpenApiImportOptions {
+  /**
+   * Индекс сервера в `servers` документа. По умолчанию `0`.
+   */
+  server?: undefined | null | number
+  /**
+   * Абсолютный адрес, относительно которого разрешается относительный `url` сервера. Если не установлен, операции
+   * с относительным сервером получат относительный путь и будут расширять базовую конфигурацию `Endpoints`.
+   */
+  origin?: undefined | null | string
+  /**
+   * Заголовки, которые будут добавлены ко всем операциям.
+   */
+  headers?: undefined | null | Record<string, string>
+}
+
+/**
+ * Параметр операции.
+ */
+interface TOpenApiEndpointParam {
+  readonly name: string
+  readonly required: boolean
+  readonly schema: null | TOpenApiSchema
+}
+
+/**
+ * Конечная точка, созданная из операции OpenAPI.
+ */
+interface TOpenApiEndpoint {
+  /**
+   * Ключ конечной точки: `operationId` или имя вида `get_users_id`.
+   */
+  readonly key: string
+  readonly method: THttpRequestMethod
+  /**
+   * Шаблон пути операции без пути сервера, например `users/{id}`.
+   */
+  readonly path: string
+  readonly summary: null | string
+  readonly pathParams: readonly TOpenApiEndpointParam[]
+  readonly queryParams: readonly TOpenApiEndpointParam[]
+  /**
+   * `Content-Type` тела запроса или `null`.
+   */
+  readonly requestContentType: null | string
+  readonly requestSchema: null | TOpenApiSchema
+  /**
+   * `Content-Type` успешного ответа или `null`, если ответ не имеет тела.
+   */
+  readonly responseContentType: null | string
+  readonly responseSchema: null | TOpenApiSchema
+  /**
+   * Конфигурация конечной точки. Путь является {@link UrlConfig}, если `url` сервера разрешился в абсолютный адрес.
+   */
+  readonly config: TEndpointOptionsConfig
+}
+
+const _reJsonContent = /^application\/(?:[\w.+-]+\+)?json\b/i
+const _reTextContent = /^text\//i
+const _reImageContent = /^image\//i
+const _reServerVariable = /\{([^}]+)\}/g
+const _rePathParam = /^\{[^}]+\}$/
+const _reNonIdentifierChar = /[^\w$]+/g
+
+/**
+ * Возвращает `kind` обработчика ответа для `Content-Type`:
+ *
+ *  + `application/json`, `application/*+json` - `JsonResponseMiddleware`.
+ *  + `text/*`                                  - `TextResponseMiddleware`.
+ *  + `image/*`                                 - `BlobImageResponseMiddleware`. Этот обработчик не зарегистрирован
+ *                                                 по умолчанию и должен быть добавлен в окружение.
+ *
+ * @param contentType Значение `Content-Type` или `null`.
+ */
+function openApiResponseKind (contentType: undefined | null | string): null | string {
+  if (!contentType) {
+    return null
+  }
+  if (_reJsonContent.test(contentType)) {
+    return 'JsonResponseMiddleware'
+  }
+  if (_reTextContent.test(contentType)) {
+    return 'TextResponseMiddleware'
+  }
+  if (_reImageContent.test(contentType)) {
+    return 'BlobImageResponseMiddleware'
+  }
+  return null
+}
+
+/**
+ * Возвращает объект, на который ссылается локальный `$ref` вида `#/components/schemas/User`, или сам объект.
+ */
+function resolveOpenApiRef<T> (doc: TOpenApiDocument, value: T | TOpenApiReference): T {
+  let current: any = value
+  const seen = new Set<string>()
+  while (isPlainObject(current) && isString(current.$ref)) {
+    const ref: string = current.$ref
+    if (!ref.startsWith('#/') || seen.has(ref)) {
+      throw new ConfigureError(errorDetails.ConfigureError(`OpenAPI. Поддерживаются только локальные ссылки без циклов, получено: ${safeToJson(ref)}.`))
+    }
+    seen.add(ref)
+    current = doc
+    for (const part of ref.slice(2).split('/')) {
+      current = isPlainObject(current) ? current[part.replace(/~1/g, '/').replace(/~0/g, '~')] : undefined
+    }
+    if (current === undefined) {
+      throw new ConfigureError(errorDetails.ConfigureError(`OpenAPI. Ссылка ${safeToJson(ref)} не найдена.`))
+    }
+  }
+  return current
+}
+
+function _serverUrl (servers: undefined | readonly TOpenApiServer[], index: number): string {
+  const server = servers?.[index] ?? servers?.[0]
+  if (!server) {
+    return ''
+  }
+  return server.url.replace(_reServerVariable, (_, name: string) => server.variables?.[name]?.default ?? '')
+}
+
+function _endpointKey (method: THttpRequestMethod, path: string, operation: TOpenApiOperation): string {
+  if (isNonemptyString(operation.operationId)) {
+    return operation.operationId
+  }
+  const name = path.replace(/[{}]/g, '').split('/').filter((v) => v !== '').join('_')
+  return `${method.toLowerCase()}_${name}`.replace(_reNonIdentifierChar, '_')
+}
+
+function _pickContent (content: undefined | Record<string, TOpenApiMediaType>): null | [string, TOpenApiMediaType] {
+  const entries = Object.entries(content ?? {})
+  return entries.find(([type]) => _reJsonContent.test(type)) ?? entries[0] ?? null
+}
+
+function _successResponse (doc: TOpenApiDocument, operation: TOpenApiOperation): null | TOpenApiResponse {
+  const responses = operation.responses ?? {}
+  const code = Object.keys(responses).filter((v) => /^2(?:\d\d|XX)$/i.test(v)).sort()[0] ?? ('default' in responses ? 'default' : null)
+  return code ? resolveOpenApiRef(doc, responses[code]!) : null
+}
+
+function _collectParams (doc: TOpenApiDocument, pathItem: TOpenApiPathItem, operation: TOpenApiOperation): TOpenApiParameter[] {
+  const params = new Map<string, TOpenApiParameter>()
+  for (const item of [...(pathItem.parameters ?? []), ...(operation.parameters ?? [])]) {
+    const param = resolveOpenApiRef<TOpenApiParameter>(doc, item)
+    // Параметры операции переопределяют параметры пути с тем же именем и расположением
+    params.set(`${param.in}:${param.name}`, param)
+  }
+  return [...params.values()]
+}
+
+function _toEndpointParam (param: TOpenApiParameter): TOpenApiEndpointParam {
+  return Object.freeze({ name: param.name, required: param.in === 'path' || !!param.required, schema: param.schema ?? null })
+}
+
+function _isDefaultValue (value: unknown): value is string | number | boolean {
+  return isString(value) || typeof value === 'number' || typeof value === 'boolean'
+}
+
+function _joinPath (base: string, path: string): string {
+  return [...base.split('/'), ...path.split('/')].filter((v) => v !== '').join('/')
+}
+
+/**
+ * Создает конфигурации конечных точек из операций документа OpenAPI `3.x`.
+ *
+ * Ключами становятся `operationId`, сервер определяет {@link UrlConfig}, пути приводятся к шаблонам
+ * {@link PathComponents}. Значения `default` параметров `query` и `header` становятся параметрами конфигурации, а
+ * `Content-Type` успешного ответа выбирает обработчик {@link openApiResponseKind()}.
+ *
+ * Метод операции не является частью конфигурации и передается в `exec()`, он доступен в {@link TOpenApiEndpoint.method}.
+ *
+ * @param doc     Документ OpenAPI.
+ * @param options Параметры импорта.
+ */
+function importOpenApi (doc: TOpenApiDocument, options?: undefined | null | TOpenApiImportOptions): Record<string, TOpenApiEndpoint> {
+  if (!isPlainObject(doc) || !isString(doc.openapi) || !doc.openapi.startsWith('3.')) {
+    throw new ConfigureError(errorDetails.ConfigureError(`OpenAPI. Ожидается документ версии 3.x, получено: ${safeToJson(isPlainObject(doc) ? doc.openapi : doc)}.`))
+  }
+  const serverIndex = options?.server ?? 0
+  const result: Record<string, TOpenApiEndpoint> = {}
+  for (const [path, pathItem] of Object.entries(doc.paths ?? {})) {
+    for (const method of httpRequestMethods) {
+      const operation = pathItem[method.toLowerCase() as Lowercase<THttpRequestMethod>]
+      if (!operation) {
+        continue
+      }
+      const key = _endpointKey(method, path, operation)
+      if (key in result) {
+        throw new ConfigureError(errorDetails.ConfigureError(`OpenAPI. Повтор ключа конечной точки ${safeToJson(key)} для '${method} ${path}'.`))
+      }
+      const template = _joinPath('', path)
+      for (const segment of template.split('/')) {
+        if (segment.includes('{') && !_rePathParam.test(segment)) {
+          throw new ConfigureError(errorDetails.ConfigureError(`OpenAPI. Заполнитель должен занимать весь сегмент пути, получено: '${method} ${path}'.`))
+        }
+      }
+
+      const params = _collectParams(doc, pathItem, operation)
+      const query: Record<string, string | number | boolean> = {}
+      const headers: Record<string, string> = { ...options?.headers }
+      for (const param of params) {
+        const value = param.schema?.default
+        if (param.in === 'query' && _isDefaultValue(value)) {
+          query[param.name] = value
+        }
+        else if (param.in === 'header' && _isDefaultValue(value)) {
+          headers[param.name] = `${value}`
+        }
+      }
+
+      const response = _successResponse(doc, operation)
+      const responseContent = _pickContent(response?.content)
+      const requestBody = operation.requestBody ? resolveOpenApiRef(doc, operation.requestBody) : null
+      const requestContent = _pickContent(requestBody?.content)
+
+      let serverUrl = _serverUrl(operation.servers ?? pathItem.servers ?? doc.servers, serverIndex)
+      if (options?.origin && !parsedUrlOrNull(serverUrl)) {
+        serverUrl = new URL(serverUrl, options.origin).toString()
+      }
+      const absolute = parsedUrlOrNull(serverUrl)
+      const pathComponents = new PathComponents(_joinPath(absolute ? absolute.pathname : serverUrl, template), true)
+      const hasQuery = Object.keys(query).length > 0
+      const config: TEndpointOptionsConfig = {
+        path: absolute
+          ? new UrlConfig({ origin: absolute.origin, path: pathComponents, query: hasQuery ? query : null })
+          : { path: pathComponents, query: hasQuery ? query : null },
+        postprocessor: openApiResponseKind(responseContent?.[0])
+      }
+      if (Object.keys(headers).length > 0) {
+        config.headers = headers
+      }
+
+      result[key] = Object.freeze({
+        key,
+        method,
+        path: template,
+        summary: operation.summary ?? null,
+        pathParams: Object.freeze(params.filter((v) => v.in === 'path').map(_toEndpointParam)),
+        queryParams: Object.freeze(params.filter((v) => v.in === 'query').map(_toEndpointParam)),
+        requestContentType: requestContent?.[0] ?? null,
+        requestSchema: requestContent?.[1].schema ?? null,
+        responseContentType: responseContent?.[0] ?? null,
+        responseSchema: responseContent?.[1].schema ?? null,
+        config
+      })
+    }
+  }
+  return result
+}
+
+/**
+ * Параметры {@link openApiToEndpointsSource()}.
+ */
+interface TOpenApiSourceOptions extends Pick<TOpenApiImportOptions, 'server'> {
+  /**
+   * Имя класса. По умолчанию `ApiEndpoints`.
+   */
+  className?: undefined | null | string
+  /**
+   * Модуль, из которого импортируются `Endpoints` и `typedEndpoint`. По умолчанию `js-api-router`.
+   */
+  importFrom?: undefined | null | string
+}
+
+const _reIdentifier = /^[A-Za-z_$][\w$]*$/
+
+/**
+ * Литерал в одинарных кавычках, как принято в исходном коде библиотеки.
+ */
+function _literal (value: null | string | number | boolean): string {
+  return isString(value) ? `'${JSON.stringify(value).slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'")}'` : `${value}`
+}
+
+function _propertyName (name: string): string {
+  return _reIdentifier.test(name) ? name : _literal(name)
+}
+
+function _typeName (name: string): string {
+  const value = name.replace(_reNonIdentifierChar, ' ').trim().replace(/(?:^|\s+)(\w)/g, (_, c: string) => c.toUpperCase())
+  return /^\d/.test(value) ? `T${value}` : (value || 'TUnknown')
+}
+
+function _unionMember (type: string): string {
+  return type.includes(' | ') || type.includes(' & ') ? `(${type})` : type
+}
+
+/**
+ * Приводит схему OpenAPI к типу TypeScript. Ссылки на `#/components/schemas/*` заменяются именами типов.
+ */
+function _schemaToType (schema: undefined | null | TOpenApiSchema, indent: string): string {
+  if (!schema) {
+    return 'unknown'
+  }
+  if (isString(schema.$ref)) {
+    const match = /^#\/components\/schemas\/(.+)$/.exec(schema.$ref)
+    return match ? _typeName(match[1]!) : 'unknown'
+  }
+  let type: string
+  if (isArray(schema.enum)) {
+    type = schema.enum.map(_literal).join(' | ') || 'never'
+  }
+  else if (schema.const !== undefined) {
+    type = _literal(schema.const)
+  }
+  else if (schema.oneOf || schema.anyOf) {
+    type = (schema.oneOf ?? schema.anyOf)!.map((v) => _unionMember(_schemaToType(v, indent))).join(' | ')
+  }
+  else if (schema.allOf) {
+    type = schema.allOf.map((v) => _unionMember(_schemaToType(v, indent))).join(' & ')
+  }
+  else {
+    const types = isArray(schema.type) ? schema.type : [schema.type ?? (schema.properties ? 'object' : schema.items ? 'array' : null)]
+    type = types.map((v) => _primitiveToType(v, schema, indent)).join(' | ')
+  }
+  return schema.nullable ? `${type} | null` : type
+}
+
+function _primitiveToType (type: null | string, schema: TOpenApiSchema, indent: string): string {
+  switch (type) {
+    case 'integer':
+    case 'number':
+      return 'number'
+    case 'string':
+      return schema.format === 'binary' ? 'Blob' : 'string'
+    case 'boolean':
+      return 'boolean'
+    case 'null':
+      return 'null'
+    case 'array':
+      return `${_unionMember(_schemaToType(schema.items, indent))}[]`
+    case 'object': {
+      const required = new Set(schema.required ?? [])
+      const lines = Object.entries(schema.properties ?? {}).map(([name, value]) => `${indent}  ${_propertyName(name)}${required.has(name) ? '' : '?'}: ${_schemaToType(value, `${indent}  `)}`)
+      if (schema.additionalProperties) {
+        lines.push(`${indent}  [key: string]: ${schema.additionalProperties === true ? 'unknown' : _schemaToType(schema.additionalProperties, `${indent}  `)}`)
+      }
+      return lines.length > 0 ? `{\n${lines.join('\n')}\n${indent}}` : 'Record<string, unknown>'
+    }
+    default:
+      return 'unknown'
+  }
+}
+
+function _paramsToType (params: readonly TOpenApiEndpointParam[]): string {
+  return `{ ${params.map((v) => `${_propertyName(v.name)}${v.required ? '' : '?'}: ${_schemaToType(v.schema, '') === 'number' ? 'number' : 'string | number'}`).join(', ')} }`
+}
+
+function _outputType (endpoint: TOpenApiEndpoint): string {
+  const kind = openApiResponseKind(endpoint.responseContentType)
+  switch (kind) {
+    case 'JsonResponseMiddleware':
+      return _schemaToType(endpoint.responseSchema, '  ')
+    case 'TextResponseMiddleware':
+      return 'string'
+    case 'BlobImageResponseMiddleware':
+      return 'Blob'
+    default:
+      return 'Response'
+  }
+}
+
+function _inputType (endpoint: TOpenApiEndpoint): string {
+  if (!endpoint.requestContentType) {
+    return 'undefined'
+  }
+  return _reJsonContent.test(endpoint.requestContentType) ? _schemaToType(endpoint.requestSchema, '  ') : 'BodyInit'
+}
+
+/**
+ * Создает исходный код TypeScript с производным классом `Endpoints`, конечные точки которого объявлены через
+ * `typedEndpoint()`. Схемы `components.schemas` становятся типами, а параметры пути и `query` - типами вызова
+ * `exec()`.
+ *
+ * Сервер документа становится базовым путем конструктора. Значения `default` параметров не переносятся в исходный
+ * код - для них используйте {@link importOpenApi()}.
+ *
+ * @param doc     Документ OpenAPI.
+ * @param options Параметры генерации.
+ */
+function openApiToEndpointsSource (doc: TOpenApiDocument, options?: undefined | null | TOpenApiSourceOptions): string {
+  const className = options?.className ?? 'ApiEndpoints'
+  const endpoints = Object.values(importOpenApi(doc, { server: options?.server }))
+  const serverUrl = _serverUrl(doc.servers, options?.server ?? 0)
+  const out: string[] = [
+    `// Файл создан из OpenAPI${doc.info?.title ? ` '${doc.info.title}'` : ''}${doc.info?.version ? ` ${doc.info.version}` : ''}. Не изменяйте его вручную.`,
+    `import { type Environment, type TEndpointOptionsConfig, Endpoints, typedEndpoint } from ${_literal(options?.importFrom ?? 'js-api-router')}`,
+    ''
+  ]
+  for (const [name, schema] of Object.entries(doc.components?.schemas ?? {})) {
+    out.push(`export type ${_typeName(name)} = ${_schemaToType(schema, '')}`, '')
+  }
+  const keys = endpoints.map((v) => _literal(v.key)).join(' | ') || 'never'
+  out.push(`export class ${className} extends Endpoints<${keys}, ${className}> {`)
+  out.push(`  static readonly methods = Object.freeze({ ${endpoints.map((v) => `${_propertyName(v.key)}: ${_literal(v.method)}`).join(', ')} } as const)`, '')
+  for (const endpoint of endpoints) {
+    const query = endpoint.queryParams.length > 0 ? _paramsToType(endpoint.queryParams) : 'never'
+    const config = [`path: ${_literal(endpoint.path)}`]
+    const kind = openApiResponseKind(endpoint.responseContentType)
+    if (kind) {
+      config.push(`postprocessor: ${_literal(kind)}`)
+    }
+    if (endpoint.summary) {
+      out.push(`  /** ${endpoint.summary.replace(/\*\//g, '*\\/')} */`)
+    }
+    out.push(`  readonly ${_propertyName(endpoint.key)} = typedEndpoint<${_outputType(endpoint)}, ${_inputType(endpoint)}, ${query}>()({ ${config.join(', ')} })`)
+  }
+  out.push(
+    '',
+    '  constructor(env?: undefined | null | Environment, config?: undefined | null | TEndpointOptionsConfig) {',
+    `    super(env, { path: ${serverUrl ? _literal(serverUrl) : 'null'}, ...config })`,
+    '  }',
+    '}',
+    ''
+  )
+  return out.join('\n')
+}
+
+export {
+  type TOpenApiSchema,
+  type TOpenApiReference,
+  type TOpenApiParameter,
+  type TOpenApiMediaType,
+  type TOpenApiRequestBody,
+  type TOpenApiResponse,
+  type TOpenApiServer,
+  type TOpenApiOperation,
+  type TOpenApiPathItem,
+  type TOpenApiDocument,
+  type TOpenApiImportOptions,
+  type TOpenApiEndpointParam,
+  type TOpenApiEndpoint,
+  type TOpenApiSourceOptions,
+  openApiResponseKind,
+  resolveOpenApiRef,
+  importOpenApi,
+  openApiToEndpointsSource
+}
@@ -1,6 +1,11 @@
 import { describe, test, expect, vi } from 'vitest'
 import { HeadersConfig, MutableHeaders } from './HeadersConfig.js'
-import type { THttpRequestMethod } from './types.js'
+import {
+  type THttpRequestMethod,
+  httpRequestMethods,
+  isHttpRequestMethod,
+  isHttpRequestMethodWithBody
+} from './types.js'
 import {
   // requestInitBaseConfigProps,
   // type TRequestInitBaseCongigKey,
@@ -228,6 +233,20 @@ describe('RequestInitConfig', () => {
       expect(init.body).toBeNull()
     })
 
+    test('method принимает все допустимые методы запроса', () => {
+      const config = new RequestInitConfig(null, 0)
+      const headers = createHeaders()
+      for (const method of httpRequestMethods) {
+        const init = new MutableRequestInit(config.requestInitBase, method, headers)
+        expect(init.method).toBe(method)
+        // Нативный Request должен принять метод
+        expect(new Request('http://foo.bar', init.toCompatibleType()).method).toBe(method)
+      }
+      expect(httpRequestMethods.filter(isHttpRequestMethodWithBody)).toStrictEqual(['POST', 'PUT', 'PATCH', 'DELETE'])
+      expect(isHttpRequestMethod('HEAD')).toBe(true)
+      expect(isHttpRequestMethod('head')).toBe(false)
+    })
+
     test('игнорирует прямое изменение headers, method, signal', () => {
       const config = new RequestInitConfig(null, 0)
       const headers = createHeaders()
@@ -35,7 +35,7 @@ type TRequestInitBaseCongigKey = (typeof requestInitBaseConfigProps)[number]
  * за исключением `body` и `signal`.
  *
  * Фиксированные методы запросы {@link RequestInit.method} ограничат использование указаным методом и не могут быть
- * изменены. Не устанавливайте `method`, если он может изменяться в зависимости от вызываемых функций `get()/post()`.
+ * изменены. Не устанавливайте `method`, если он может изменяться в зависимости от параметров вызова `GET/POST/PUT/...`.
  */
 type TRequestInitOptions = UOptional<Pick<RequestInit, TRequestInitBaseCongigKey | 'headers'>>
 
@@ -0,0 +1,50 @@
+import { test, expect } from 'vitest'
+import { errorDetails, StatusError, UnpackError, SendError } from '../errors.js'
+import { parseRetryAfter, RetryPolicy, retryPolicyOrNull } from './RetryPolicy.js'
+
+test('parseRetryAfter', () => {
+  expect(parseRetryAfter(null)).toBeNull()
+  expect(parseRetryAfter('')).toBeNull()
+  expect(parseRetryAfter('abc')).toBeNull()
+  expect(parseRetryAfter('0')).toBe(0)
+  expect(parseRetryAfter(' 120 ')).toBe(120000)
+  const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT')
+  expect(parseRetryAfter('Wed, 21 Oct 2015 07:28:05 GMT', now)).toBe(5000)
+  // Дата в прошлом
+  expect(parseRetryAfter('Wed, 21 Oct 2015 07:27:00 GMT', now)).toBe(0)
+})
+
+test('RetryPolicy', () => {
+  const policy = new RetryPolicy({
+    statuses: [429, 503, 42, 1.5] as number[],
+    errors: [UnpackError],
+    methods: ['GET', 'PUT', 'get' as any],
+    maxRetryTime: 1000
+  })
+  // Недопустимые значения игнорируются
+  expect([...policy.statuses!]).toStrictEqual([429, 503])
+  expect([...policy.methods!]).toStrictEqual(['GET', 'PUT'])
+  expect(policy.maxRetryTime).toBe(1000)
+
+  expect(policy.isRetryableMethod('GET')).toBe(true)
+  expect(policy.isRetryableMethod('POST')).toBe(false)
+
+  // Сетевые ошибки executor допускают повтор всегда
+  expect(policy.isRetryableError(new TypeError('fetch failed'), 0)).toBe(true)
+  expect(policy.isRetryableError(new TypeError('fetch failed'), 2)).toBe(false)
+  expect(policy.isRetryableError(new StatusError(errorDetails.StatusError(503, 'http://a.b')), 2)).toBe(true)
+  expect(policy.isRetryableError(new StatusError(errorDetails.StatusError(500, 'http://a.b')), 2)).toBe(false)
+  expect(policy.isRetryableError(new UnpackError(errorDetails.UnpackError('')), 2)).toBe(true)
+  expect(policy.isRetryableError(new SendError(errorDetails.SendError('')), 0)).toBe(false)
+
+  // Пустая политика разрешает любые методы и только сетевые ошибки
+  const empty = new RetryPolicy(null)
+  expect(empty.statuses).toBeNull()
+  expect(empty.methods).toBeNull()
+  expect(empty.isRetryableMethod('POST')).toBe(true)
+  expect(empty.isRetryableError(new StatusError(errorDetails.StatusError(503, 'http://a.b')), 2)).toBe(false)
+
+  expect(retryPolicyOrNull(policy)).toBe(policy)
+  expect(retryPolicyOrNull({})).toBeInstanceOf(RetryPolicy)
+  expect(retryPolicyOrNull(1)).toBeNull()
+})
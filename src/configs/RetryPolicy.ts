@@ -0,0 +1,143 @@
+import { type TPositiveNumber, isPositiveNumber } from '../types.js'
+import { isArray, isObject } from '../utils.js'
+import { ApiRouterError, StatusError } from '../errors.js'
+import { type THttpRequestMethod, isHttpRequestMethod } from './types.js'
+
+/**
+ * Конструктор класса ошибки, наследника {@link ApiRouterError}.
+ */
+type TRetryableErrorClass = abstract new (...args: any[]) => ApiRouterError
+
+/**
+ * Пользовательские параметры политики повторных попыток запроса.
+ */
+interface TRetryPolicyOptions {
+  /**
+   * Коды статуса ответа, для которых ошибка {@link StatusError} допускает повтор запроса. Например `[429, 503]`.
+   */
+  statuses?: undefined | null | readonly number[]
+  /**
+   * Классы ошибок {@link ApiRouterError}, которые допускают повтор запроса. Проверяются через `instanceof`.
+   */
+  errors?: undefined | null | readonly TRetryableErrorClass[]
+  /**
+   * Методы запроса, для которых допускается повтор. По умолчанию повтор разрешен для любого метода.
+   */
+  methods?: undefined | null | readonly THttpRequestMethod[]
+  /**
+   * Максимальное общее время в `ms`, начиная с первой попытки, в течение которого допускается повтор запроса.
+   * Если следующая попытка не укладывается в это время, запрос завершается последней ошибкой.
+   */
+  maxRetryTime?: undefined | null | number
+}
+
+/**
+ * Приводит значение заголовка [Retry-After](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Retry-After)
+ * к задержке в `ms` или возвращает `null`.
+ *
+ * Заголовок может быть количеством секунд или датой `HTTP-date`. Дата в прошлом приводится к `0`.
+ *
+ * @param value Значение заголовка.
+ * @param now   Текущее время в `ms`.
+ */
+function parseRetryAfter (value: undefined | null | string, now?: undefined | null | number): null | number {
+  if (!value) {
+    return null
+  }
+  const str = value.trim()
+  if (/^\d+$/.test(str)) {
+    return Number.parseInt(str, 10) * 1000
+  }
+  const date = Date.parse(str)
+  if (Number.isNaN(date)) {
+    return null
+  }
+  return Math.max(0, date - (now ?? Date.now()))
+}
+
+/**
+ * Неизменяемая политика повторных попыток запроса.
+ *
+ * Политика определяет, какие ошибки допускают повтор, но не количество попыток - количество определяется параметром
+ * конфигурации `retries`. Сетевые ошибки `executor` (не {@link ApiRouterError}) допускают повтор всегда, если
+ * метод запроса разрешен политикой.
+ */
+class RetryPolicy {
+  protected readonly _statuses: null | ReadonlySet<number>
+  protected readonly _errors: null | readonly TRetryableErrorClass[]
+  protected readonly _methods: null | ReadonlySet<THttpRequestMethod>
+  protected readonly _maxRetryTime: null | TPositiveNumber
+
+  /**
+   * @param options Пользовательские параметры. Недопустимые значения игнорируются.
+   */
+  constructor(options: undefined | null | TRetryPolicyOptions) {
+    const statuses = isArray(options?.statuses)
+      ? options.statuses.filter((v) => Number.isInteger(v) && v >= 100 && v <= 599)
+      : []
+    const errors = isArray(options?.errors)
+      ? options.errors.filter((v) => typeof v === 'function')
+      : []
+    const methods = isArray(options?.methods)
+      ? options.methods.filter((v) => isHttpRequestMethod(v))
+      : []
+    this._statuses = statuses.length > 0 ? new Set(statuses) : null
+    this._errors = errors.length > 0 ? Object.freeze(errors) : null
+    this._methods = methods.length > 0 ? new Set(methods) : null
+    this._maxRetryTime = isPositiveNumber(options?.maxRetryTime) ? options.maxRetryTime : null
+  }
+
+  get statuses (): null | ReadonlySet<number> {
+    return this._statuses
+  }
+
+  get errors (): null | readonly TRetryableErrorClass[] {
+    return this._errors
+  }
+
+  get methods (): null | ReadonlySet<THttpRequestMethod> {
+    return this._methods
+  }
+
+  get maxRetryTime (): null | TPositiveNumber {
+    return this._maxRetryTime
+  }
+
+  /**
+   * Допускает ли метод запроса повтор.
+   */
+  isRetryableMethod (method: THttpRequestMethod): boolean {
+    return !this._methods || this._methods.has(method)
+  }
+
+  /**
+   * Допускает ли ошибка повтор запроса.
+   *
+   * @param error Ошибка запроса.
+   * @param type  `0` - ошибка `executor`, `2` - ошибка `postprocessor`.
+   */
+  isRetryableError (error: any, type: 0 | 2): boolean {
+    if (type === 0 && !(error instanceof ApiRouterError)) {
+      return true
+    }
+    if (this._statuses && (error instanceof StatusError) && this._statuses.has(error.detail.status as number)) {
+      return true
+    }
+    return !!this._errors && this._errors.some((cls) => error instanceof cls)
+  }
+}
+
+/**
+ * Возвращает {@link RetryPolicy} или `null`, если параметры не являются объектом.
+ */
+function retryPolicyOrNull (value: any): null | RetryPolicy {
+  return (value instanceof RetryPolicy) ? value : isObject(value) ? new RetryPolicy(value) : null
+}
+
+export {
+  type TRetryableErrorClass,
+  type TRetryPolicyOptions,
+  parseRetryAfter,
+  RetryPolicy,
+  retryPolicyOrNull
+}
@@ -0,0 +1,81 @@
+import { test, expect } from 'vitest'
+import type { TResponse } from '../types.js'
+import { ConfigureError } from '../errors.js'
+import type { TEndpointHttpConfig } from './EndpointHttpConfig.js'
+import { PathComponents } from './PathComponents.js'
+import { Environment } from '../Environment.js'
+import { Endpoints } from '../Endpoints.js'
+import { MockRequestMiddleware } from '../middlewares/MockRequestMiddleware.js'
+import { typedEndpoint } from './TypedEndpoint.js'
+
+interface TUser { id: number, name: string }
+
+test('typedEndpoint', async () => {
+  const mock = new MockRequestMiddleware()
+  mock.routes
+    .on('PATCH', '/api/users/{id}', ({ params }) => ({ json: { id: Number(params.id), name: 'patched' } }))
+    .on('GET', '/api/users', ({ url }) => ({ json: [{ id: Number(new URL(url).searchParams.get('page')), name: 'page' }] }))
+    .on('GET', '/api/plain/{name}', ({ params }) => ({ body: params.name }))
+  const env = new Environment({ middlewares: [mock], executorKindMap: new Map([['http', mock.kind]]) })
+
+  // Класс передает себя вторым параметром, это включает вывод типов для ключей typedEndpoint()
+  class Api extends Endpoints<'USER' | 'LIST' | 'PLAIN', Api> {
+    readonly USER = typedEndpoint<TUser, { name: string }>()({ path: 'users/{id}', postprocessor: 'JsonResponseMiddleware' })
+    readonly LIST = typedEndpoint<TUser[], undefined, { page: number }>()({ path: 'users', postprocessor: 'JsonResponseMiddleware' })
+    readonly PLAIN: TEndpointHttpConfig = { path: 'plain', postprocessor: 'TextResponseMiddleware' }
+
+    constructor() {
+      super(env, { path: 'http://localhost/api' })
+    }
+
+    patch (id: number, name: string): Promise<TResponse<TUser>> {
+      return this.exec('USER', { method: 'PATCH', params: { id }, data: { name } })
+    }
+
+    list (page: number): Promise<TResponse<TUser[]>> {
+      return this.exec('LIST', { method: 'GET', query: { page } })
+    }
+
+    // Обычные конфигурации работают как прежде
+    plain (name: string): Promise<TResponse<string>> {
+      return this.exec('PLAIN', { method: 'GET', path: name })
+    }
+
+    _typeErrors (): void {
+      // @ts-expect-error Неизвестный заполнитель пути
+      void this.exec('USER', { method: 'PATCH', params: { idx: 1 }, data: { name: 'a' } })
+      // @ts-expect-error Неверный тип входных данных
+      void this.exec('USER', { method: 'PATCH', params: { id: 1 }, data: 123 })
+      // @ts-expect-error Отсутствует обязательный query
+      void this.exec('LIST', { method: 'GET' })
+      // @ts-expect-error Неверный тип результата
+      const _: Promise<TResponse<string>> = this.exec('LIST', { method: 'GET', query: { page: 1 } })
+    }
+  }
+
+  const api = new Api()
+  // Строка пути с заполнителями приводится к PathComponents
+  expect(api.USER.path).toBeInstanceOf(PathComponents)
+  expect(api.LIST.path).toBe('users')
+
+  expect((await api.patch(7, 'Alex')).value).toStrictEqual({ id: 7, name: 'patched' })
+  expect((await api.list(3)).value).toStrictEqual([{ id: 3, name: 'page' }])
+  expect((await api.plain('text')).value).toBe('text')
+  expect(mock.routes.callsOf('/api/users/{id}')[0]!.url).toBe('http://localhost/api/users/7')
+
+  // Путь не может быть передан вместе с params или query
+  const mixed = await api.exec('USER', { method: 'PATCH', params: { id: 7 }, data: { name: 'a' }, path: 'users/8' } as any) as TResponse<TUser>
+  expect(mixed.error).toBeInstanceOf(ConfigureError)
+  expect(mock.routes.callsOf('/api/users/{id}').length).toBe(1)
+})
+
+test('typedEndpoint: проверка шаблона пути', () => {
+  // Повтор имени отклоняется проверкой типов и при создании PathComponents
+  // @ts-expect-error Повтор имени заполнителя
+  expect(() => typedEndpoint<number>()({ path: 'a/{id}/{id}' })).toThrow(ConfigureError)
+  // Пустое имя проверяется только типами, при выполнении '{}' остается обычным сегментом пути
+  // @ts-expect-error Пустое имя заполнителя
+  typedEndpoint<number>()({ path: 'a/{}' })
+  expect(typedEndpoint<number>()({ path: 'a/{id}/b/{name}' }).path).toBeInstanceOf(PathComponents)
+  expect(typedEndpoint<number>()({}).path).toBeUndefined()
+})
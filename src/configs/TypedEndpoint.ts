@@ -0,0 +1,163 @@
+import type { TResponse } from '../types.js'
+import { isNullish, safeToJson } from '../utils.js'
+import { errorDetails, ConfigureError } from '../errors.js'
+import type { THttpContextOptions } from '../contexts/Context.js'
+import type { TEndpointHttpConfig } from './EndpointHttpConfig.js'
+import { PathComponents } from './PathComponents.js'
+
+/**
+ * Метка типов конечной точки. Существует только на уровне типов.
+ */
+declare const TYPED_ENDPOINT: unique symbol
+
+/**
+ * Сегменты строки пути.
+ */
+type TPathSegments<P extends string> = P extends `${infer H}/${infer R}` ? H | TPathSegments<R> : P
+
+/**
+ * Имена заполнителей шаблона пути. Заполнителем является только полный сегмент вида `{id}`.
+ *
+ * @example
+ * ```ts
+ * type T = TPathParamNames<'users/{id}/posts/{postId}'> // 'id' | 'postId'
+ * ```
+ */
+type TPathParamNames<P extends string> = TPathSegments<P> extends infer S
+  ? S extends `{${infer N}}` ? N : never
+  : never
+
+/**
+ * Значения заполнителей шаблона пути или `never`, если шаблон не имеет заполнителей.
+ */
+type TPathParams<P extends string> = [TPathParamNames<P>] extends [never]
+  ? never
+  : { [K in TPathParamNames<P>]: string | number }
+
+type _TDuplicatePathParam<P extends string, Seen extends string = never> = P extends `${infer H}/${infer R}`
+  ? H extends `{${infer N}}` ? (N extends Seen ? N : _TDuplicatePathParam<R, Seen | N>) : _TDuplicatePathParam<R, Seen>
+  : P extends `{${infer N}}` ? (N extends Seen ? N : never) : never
+
+/**
+ * Проверка шаблона пути на этапе компиляции. Для допустимого шаблона возвращает `string`, иначе тип с описанием
+ * ошибки, который делает литерал пути несовместимым.
+ */
+type TCheckPathTemplate<P extends string> = [_TDuplicatePathParam<P>] extends [never]
+  ? ('' extends TPathParamNames<P> ? { readonly 'Пустое имя заполнителя пути': '{}' } : string)
+  : { readonly 'Повтор имени заполнителя пути': _TDuplicatePathParam<P> }
+
+/**
+ * Типы конечной точки, которые переносит {@link TTypedEndpointHttpConfig}.
+ */
+interface TEndpointTypes<TOut = any, TIn = any, TParams = any, TQuery = any> {
+  output: TOut
+  input: TIn
+  params: TParams
+  query: TQuery
+}
+
+/**
+ * Конфигурация {@link TEndpointHttpConfig} с типами входных данных, заполнителей пути, `query` и результата.
+ */
+type TTypedEndpointHttpConfig<TOut, TIn = undefined, TParams = never, TQuery = never> = TEndpointHttpConfig & {
+  readonly [TYPED_ENDPOINT]?: TEndpointTypes<TOut, TIn, TParams, TQuery>
+}
+
+type _TDataOption<TIn> = [TIn] extends [undefined | null | void]
+  ? { data?: undefined | null }
+  : { data: TIn }
+
+type _TParamsOption<TParams> = [TParams] extends [never]
+  ? { params?: undefined | null }
+  : { params: TParams }
+
+type _TQueryOption<TQuery> = [TQuery] extends [never]
+  ? { query?: undefined | null | Record<string, string | number> }
+  : { query: TQuery }
+
+/**
+ * Параметры вызова типизированной конечной точки. Заполнители пути и `query` передаются полями `params` и `query`
+ * вместо {@link THttpContextOptions.path}.
+ */
+type TTypedHttpContextOptions<TConfig> = TConfig extends { readonly [TYPED_ENDPOINT]?: infer S }
+  ? S extends TEndpointTypes<any, infer TIn, infer TParams, infer TQuery>
+    ? Omit<THttpContextOptions, 'data' | 'path'> & _TDataOption<TIn> & _TParamsOption<TParams> & _TQueryOption<TQuery>
+    : never
+  : never
+
+/**
+ * Результат вызова типизированной конечной точки.
+ */
+type TTypedEndpointResult<TConfig> = TConfig extends { readonly [TYPED_ENDPOINT]?: infer S }
+  ? S extends TEndpointTypes<infer TOut> ? Promise<TResponse<TOut>> : never
+  : never
+
+/**
+ * Является ли конфигурация типизированной. Для обычной {@link TEndpointHttpConfig} метка отсутствует и выводится
+ * как `unknown`.
+ */
+type TIsTypedEndpoint<TConfig> = TConfig extends { readonly [TYPED_ENDPOINT]?: infer S }
+  ? (unknown extends S ? false : true)
+  : false
+
+const _rePlaceholderSegment = /(^|\/)\{[^/]+\}(\/|$)/
+
+/**
+ * Создает типизированную конфигурацию конечной точки.
+ *
+ * Функция вызывается дважды: первый вызов принимает явные типы результата, входных данных и `query`, второй -
+ * конфигурацию, из литерала пути которой выводятся имена заполнителей. Строка пути с заполнителями `{name}`
+ * приводится к {@link PathComponents} с разрешенными заполнителями.
+ *
+ * @example
+ * ```ts
+ * class Api extends Endpoints<'USER', Api> {
+ *   readonly USER = typedEndpoint<TUser, TUserPatch>()({ path: 'users/{id}', preset: 'json' })
+ *
+ *   patchUser (id: number, data: TUserPatch): Promise<TResponse<TUser>> {
+ *     return this.exec('USER', { method: 'PATCH', params: { id }, data })
+ *   }
+ * }
+ * ```
+ */
+function typedEndpoint<TOut, TIn = undefined, TQuery extends Record<string, string | number> = never> () {
+  return function <const TPath extends string = ''> (
+    config: Omit<TEndpointHttpConfig, 'path'> & { path?: TPath & TCheckPathTemplate<TPath> }
+  ): TTypedEndpointHttpConfig<TOut, TIn, TPathParams<TPath>, TQuery> {
+    const path = config.path as undefined | string
+    if (path && _rePlaceholderSegment.test(path)) {
+      return { ...config, path: new PathComponents(path, true) }
+    }
+    return config as TEndpointHttpConfig
+  }
+}
+
+/**
+ * Приводит параметры {@link TTypedHttpContextOptions} к {@link THttpContextOptions}.
+ *
+ * @throws ConfigureError Если вместе с `params` или `query` передан `path`.
+ */
+function typedContextOptionsToContextOptions (options: THttpContextOptions & { params?: any, query?: any }): THttpContextOptions {
+  if (!options.params && !options.query) {
+    return options
+  }
+  if (!isNullish(options.path)) {
+    throw new ConfigureError(errorDetails.ConfigureError(`Параметры вызова 'params' и 'query' не могут использоваться вместе с 'path', получено: ${safeToJson(options.path)}.`))
+  }
+  const { params, query, ...rest } = options
+  return { ...rest, path: { path: params ?? null, query: query ?? null, hash: null } }
+}
+
+export {
+  type TPathSegments,
+  type TPathParamNames,
+  type TPathParams,
+  type TCheckPathTemplate,
+  type TEndpointTypes,
+  type TTypedEndpointHttpConfig,
+  type TTypedHttpContextOptions,
+  type TTypedEndpointResult,
+  type TIsTypedEndpoint,
+  typedEndpoint,
+  typedContextOptionsToContextOptions
+}
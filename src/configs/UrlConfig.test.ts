@@ -16,7 +16,8 @@ import {
   UrlConfig,
   MutableUrl,
   // type TUrlComponents,
-  // useUrlComponents
+  // useUrlComponents,
+  urlConfigToString
 } from './UrlConfig.js'
 
 describe('URL Utilities', () => {
@@ -364,4 +365,20 @@ describe('URL Utilities', () => {
       expect(url.toString()).toBe('https://example.com/custom')
     })
   })
+
+  describe('urlConfigToString', () => {
+    test('применяет компоненты пути и не изменяет конфигурацию', () => {
+      const config = new UrlConfig('https://example.com/api?foo=bar')
+      expect(urlConfigToString(config)).toBe('https://example.com/api?foo=bar')
+      expect(urlConfigToString(config, 'users')).toBe('https://example.com/api/users?foo=bar')
+      expect(urlConfigToString(config, { path: null, query: { page: 2 }, hash: 'top' })).toBe('https://example.com/api?foo=bar&page=2#top')
+      expect(urlConfigToString(config)).toBe('https://example.com/api?foo=bar')
+    })
+
+    test('заполняет шаблон пути или выбрасывает ошибку', () => {
+      const config = new UrlConfig('https://example.com/api').extends(new PathComponents('users/{id}', true))
+      expect(urlConfigToString(config, { path: { id: 7 }, query: null, hash: null })).toBe('https://example.com/api/users/7')
+      expect(() => urlConfigToString(config)).toThrowError(/Не установлены все параметры '\[id\]'/)
+    })
+  })
 })
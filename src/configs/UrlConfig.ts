@@ -679,6 +679,23 @@ function useUrlComponents (url: MutableUrl, path: string | TUrlComponents): void
   }
 }
 
+/**
+ * Возвращает итоговую строку `URL` так же, как ее формирует контекст запроса, но без выполнения запроса.
+ *
+ * Если шаблон пути {@link PathComponents} имеет незаполненные параметры, будет выброшена ошибка `ProtocolError`.
+ *
+ * @param cfg  Конфигурация `URL` конечной точки.
+ * @param path Компоненты пути запроса.
+ */
+function urlConfigToString (cfg: UrlConfig, path?: undefined | null | string | TUrlComponents): string {
+  const url = cfg.toMutable()
+  if (path) {
+    useUrlComponents(url, path)
+  }
+  url.path.filledOrThrow()
+  return url.toString()
+}
+
 export {
   type TUrlHashExtendsMode,
   type TUrlExtendsOptions,
@@ -694,5 +711,6 @@ export {
   UrlConfig,
   MutableUrl,
   type TUrlComponents,
-  useUrlComponents
+  useUrlComponents,
+  urlConfigToString
 }
@@ -29,7 +29,7 @@ class EndpointConfigRegistry extends RegistryBase<string, TEndpointConfigConstru
    * Возвращает конструктор класса по `kind` или вызывает ошибку.
    */
   getOrThrow<T extends EndpointConfig> (kind: string): TEndpointConfigConstructor<T> {
-    const cls = this._items.get(kind)
+    const cls = this._get(kind)
     if (!cls) {
       throw new ConfigureError(errorDetails.ConfigureError(`Конструктор EndpointConfig ${safeToJson(kind)} не зарегистрирован.`))
     }
@@ -41,6 +41,16 @@ class EndpointConfigRegistry extends RegistryBase<string, TEndpointConfigConstru
  * Реестр пресетов {@link EndpointPresetConfig}.
  */
 class PresetConfigRegistry extends RegistryBase<string, EndpointPresetConfig> {
+  protected _revision = 0
+
+  /**
+   * Счетчик замен пресетов, включая замены в родительском реестре. Изменение значения означает, что собранные
+   * конфигурации конечных точек могли устареть.
+   */
+  get revision (): number {
+    return this._revision + ((this._parent as null | PresetConfigRegistry)?.revision ?? 0)
+  }
+
   register (name: string, config: EndpointPresetConfig): void {
     if (this._frozen) {
       throw new ConfigureError(errorDetails.ConfigureError(`PresetConfigRegistry заморожен и не может зарегистрировать новый EndpointPresetConfig ${safeToJson(name)}.`))
@@ -54,8 +64,28 @@ class PresetConfigRegistry extends RegistryBase<string, EndpointPresetConfig> {
     this._items.set(name, config)
   }
 
+  /**
+   * Заменяет зарегистрированный пресет и увеличивает {@link revision}. Конфигурации конечных точек, собранные ранее,
+   * будут пересобраны при следующем обращении, а уже выполняющиеся запросы сохранят прежнюю конфигурацию.
+   *
+   * Пресет родительского реестра не изменяется, а перекрывается в текущем.
+   *
+   * @param name   Имя зарегистрированного пресета.
+   * @param config Новая конфигурация пресета.
+   */
+  replace (name: string, config: EndpointPresetConfig): void {
+    if (this._frozen) {
+      throw new ConfigureError(errorDetails.ConfigureError(`PresetConfigRegistry заморожен и не может заменить EndpointPresetConfig ${safeToJson(name)}.`))
+    }
+    if (!this.has(name)) {
+      throw new ConfigureError(errorDetails.ConfigureError(`EndpointPresetConfig ${safeToJson(name)} не зарегистрирован и не может быть заменен.`))
+    }
+    this._items.set(name, config)
+    ++this._revision
+  }
+
   getOrThrow (name: string): EndpointPresetConfig {
-    const cfg = this._items.get(name)
+    const cfg = this._get(name)
     if (!cfg) {
       throw new ConfigureError(errorDetails.ConfigureError(`EndpointPresetConfig ${safeToJson(name)} не зарегистрирован.`))
     }
@@ -6,10 +6,17 @@ import type {
   TNonemptyString,
   TNumericBool,
   TFnRetryDelay,
+  TRetryDelay,
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  TRetryDelayStrategy
 } from '../types.js'
 import type {
   ApiRouterError,
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  CircuitOpenError,
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  StatusError,
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
   TimeoutError
 } from '../errors.js'
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -18,6 +25,9 @@ import type { ContextFactoryLike, TContextConstructor } from '../interfaces/Cont
 import type { TMiddlewareDef, TMiddlewareInstanceRef, TMiddlewareRef } from '../middlewares/Middleware.js'
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 import type { NamedAsyncQueue } from '../libs/AsyncQueue.js'
+import type { TCircuitBreakerOptions, TCircuitBreakerNormalizedOptions } from '../libs/CircuitBreaker.js'
+import type { HttpCacheStorageLike } from '../interfaces/HttpCacheStorageLike.js'
+import type { BodySerializerLike } from '../interfaces/BodySerializerLike.js'
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 import type { IEnvironment } from '../Environment.js'
 import type { HeadersConfig } from './HeadersConfig.js'
@@ -27,12 +37,38 @@ import type { EndpointPresetConfig } from './EndpointConfig.js'
 import type { EndpointConfigRegistry } from './registries.js'
 import type { PathComponents } from './PathComponents.js'
 import type { TUrlFragments, UrlConfig } from './UrlConfig.js'
+import type { TRetryPolicyOptions, RetryPolicy } from './RetryPolicy.js'
+
+/**
+ * Допустимые методы запроса.
+ * DOC https://developer.mozilla.org/en-US/docs/Web/HTTP/Methods
+ */
+const httpRequestMethods = Object.freeze(['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'] as const)
 
 /**
  * Метод запроса.
  * DOC https://developer.mozilla.org/en-US/docs/Web/HTTP/Methods
  */
-type THttpRequestMethod = 'GET' | 'POST'
+type THttpRequestMethod = (typeof httpRequestMethods)[number]
+
+/**
+ * Методы запроса, которые могут иметь тело {@link RequestInit.body}.
+ */
+const httpRequestMethodsWithBody = Object.freeze(['POST', 'PUT', 'PATCH', 'DELETE'] as const)
+
+/**
+ * Является ли `value` допустимым методом запроса {@link THttpRequestMethod}.
+ */
+function isHttpRequestMethod (value: any): value is THttpRequestMethod {
+  return httpRequestMethods.includes(value)
+}
+
+/**
+ * Может ли метод запроса иметь тело. Для `GET/HEAD/OPTIONS` тело запроса никогда не устанавливается.
+ */
+function isHttpRequestMethodWithBody (method: THttpRequestMethod): method is (typeof httpRequestMethodsWithBody)[number] {
+  return httpRequestMethodsWithBody.includes(method as any)
+}
 
 // NOTE Не знаю что это https://developer.mozilla.org/en-US/docs/Web/API/Request/destination
 // destination?: Nullish | RequestDestination
@@ -63,7 +99,7 @@ type TRequestBaseCongigKey = (typeof requestBaseConfigProps)[number]
 
 /**
  * Базовые параметры запроса. Эти параметры могут быть зафиксированы в момент инициализации. Методы запроса
- * `RequestInit.method` не используются и определяются функциями `get/post` или соответствующими маршрутами.
+ * `RequestInit.method` не используются и определяются параметрами вызова или соответствующими маршрутами.
  */
 type TRequestBaseInit = Pick<RequestInit, TRequestBaseCongigKey | 'headers'>
 
@@ -164,6 +200,9 @@ interface TEndpointBaseConfig {
   /**
    * Обработчики ошибки {@link MiddlewareLike} в любом допустимом формате.
    *
+   * Цепочка вызывается методом {@link MiddlewareLike.processError()} после ошибок `executor` или `postprocessor`,
+   * если запрос не будет повторен. Ошибки `preprocessor`, `AbortSignal` и `timeout` не передаются обработчикам.
+   *
    * Константа {@link TBaseMiddleware} может быть использована в массиве и только в одном месте.
    */
   errorprocessor?: undefined | null | false | string | TMiddlewareDef<any, any> | TMiddlewareInstanceRef<any, any> | (string | TMiddlewareDef<any, any> | TMiddlewareInstanceRef<any, any> | TBaseMiddleware)[]
@@ -181,6 +220,24 @@ interface TEndpointBaseConfig {
    * + Если несколько конфигураций указывают разные `queueLimit` для одной и той же очереди, будет использоваться наибольшее из них.
    */
   queueLimit?: undefined | null | false | number
+  /**
+   * Ограничение частоты запуска запросов очереди {@link queueKey}: количество запросов за интервал {@link queueRateInterval}.
+   * По умолчанию не используется.
+   *
+   * + Ограничение разделяется всеми конечными точками с одним {@link queueKey}.
+   * + Ограничение устанавливается первой конфигурацией, создавшей очередь, и не может быть изменено.
+   * + Повторные попытки {@link retries} так же расходуют лимит.
+   */
+  queueRateLimit?: undefined | null | false | number
+  /**
+   * Интервал `ms` для {@link queueRateLimit}. По умолчанию `1000`.
+   */
+  queueRateInterval?: undefined | null | false | number
+  /**
+   * Максимальное количество запросов, которые могут быть запущены одновременно после простоя очереди.
+   * По умолчанию равно {@link queueRateLimit}.
+   */
+  queueRateBurst?: undefined | null | false | number
   /**
    * Приоритет в очереди. Имеет смысл если задано {@link queueKey}, иначе игнорируется.
    */
@@ -204,14 +261,156 @@ interface TEndpointBaseConfig {
    */
   retries?: undefined | null | false | number
   /**
-   * Задержка между попытками запросов в случае ошибки. Может быть числом (`ms`) или функцией `(attempt) => delay`.
+   * Задержка между попытками запросов в случае ошибки. Может быть числом (`ms`), функцией `(attempt, previous) => delay`
+   * или встроенной стратегией {@link TRetryDelayStrategy}.
    *
    * @example
    * ```ts
    * retryDelay: (attempt) => Math.min(1000 * 2 ** (attempt - 1), 30000)
+   * // или то же самое со случайным разбросом
+   * retryDelay: { strategy: 'exponential', base: 1000, max: 30000, jitter: 'full' }
+   * ```
+   */
+  retryDelay?: undefined | null | false | TRetryDelay
+  /**
+   * Политика повторных попыток. Имеет смысл если задано {@link retries}, иначе игнорируется.
+   *
+   * Без политики повторяются только сетевые ошибки `executor`. Политика дополнительно разрешает повтор для ошибок
+   * `postprocessor` с указанными кодами статуса {@link StatusError} или классами ошибок, ограничивает повтор методами
+   * запроса и общим временем повторов.
+   *
+   * Если ответ имеет заголовок `Retry-After` (секунды или `HTTP-date`), его значение имеет приоритет над {@link retryDelay}.
+   *
+   * **Note:** Таймаут {@link timeout} отключается после получения первого ответа и не распространяется на повторы
+   * после ошибок `postprocessor`. Используйте {@link TRetryPolicyOptions.maxRetryTime}.
+   *
+   * @example
+   * ```ts
+   * retries: 3,
+   * retryPolicy: { statuses: [429, 503], methods: ['GET', 'PUT'], maxRetryTime: 30000 }
    * ```
    */
-  retryDelay?: undefined | null | false | number | ((attempt: number) => number)
+  retryPolicy?: undefined | null | false | TRetryPolicyOptions | RetryPolicy
+  /**
+   * Автоматический выключатель запросов. По умолчанию не используется.
+   *
+   * После серии ошибок сервера или соединения цепь размыкается и запросы завершаются ошибкой {@link CircuitOpenError}
+   * без постановки в очередь и вызова `executor`. Состояние доступно в {@link IEnvironment.circuitBreakers}.
+   *
+   * Если задан параметр {@link cache}, выключатель проверяется после поиска в кеше: свежая запись возвращается и при
+   * разомкнутой цепи, а отклоненный запрос уже прошел очередь и `preprocessor`.
+   */
+  circuitBreaker?: undefined | null | false | TEndpointCircuitBreakerOptions
+  /**
+   * Объединение одновременных одинаковых запросов `GET/HEAD`. По умолчанию не используется.
+   *
+   * Запросы с одним `URL`, методом и значениями заголовков {@link TEndpointDedupeOptions.headers} выполняются один раз,
+   * а результат {@link TResponse} передается каждому вызывающему и обработчику {@link TEndpointPartHandlerConfig.handler}.
+   * Пользовательский `AbortSignal` отсоединяет только своего вызывающего, общий запрос прерывается, когда не
+   * остается ни одного ожидающего. Вызовы с параметрами `overrides` не объединяются.
+   *
+   * **Warning:** Каждый вызывающий получает собственный объект {@link TResponse}, но ссылку на одно и то же значение
+   * `TResponse.value`.
+   */
+  dedupe?: undefined | null | false | true | TEndpointDedupeOptions
+  /**
+   * Кеширование ответов `GET` запросов. По умолчанию не используется.
+   *
+   * Кеш располагается между `executor` и `postprocessor`: свежий ответ возвращается без обращения к серверу, устаревший
+   * проверяется заголовками `If-None-Match/If-Modified-Since`, а ответ `304` заменяется сохраненным ответом до вызова
+   * `postprocessor`. Учитываются директивы ответа `Cache-Control`: `max-age`, `no-cache`, `no-store` и
+   * `stale-while-revalidate`. Ключом записи является полный `URL` запроса, а значения заголовков запроса из `Vary`
+   * ответа должны совпадать с сохраненными - иначе запись считается отсутствующей и заменяется новым ответом.
+   *
+   * `true` - использовать хранилище {@link IEnvironment.cacheStorage} с параметрами по умолчанию.
+   */
+  cache?: undefined | null | false | true | TEndpointCacheOptions
+  /**
+   * Сериализатор тела запроса: медиа тип, зарегистрированный в {@link IEnvironment.serializerRegistry}, или экземпляр
+   * {@link BodySerializerLike}. Сериализатор устанавливает заголовок `Content-Type`.
+   *
+   * По умолчанию сериализатор выбирается по заголовку запроса `Content-Type`, а если заголовок не задан или для него
+   * нет сериализатора, объекты приводятся к `JSON` без установки заголовка.
+   */
+  serializer?: undefined | null | false | string | BodySerializerLike
+  /**
+   * Допустимые шаблоны медиа типов ответа для `DecodeResponseMiddleware`, например `['application/json', 'text/*']`.
+   * Ответ с другим заголовком `Content-Type` завершается ошибкой {@link UnpackError}. По умолчанию допустим любой тип,
+   * для которого зарегистрирован декодер {@link IEnvironment.decoderRegistry}.
+   */
+  responseTypes?: undefined | null | false | readonly string[]
+}
+
+/**
+ * Параметры кеширования ответов.
+ */
+interface TEndpointCacheOptions {
+  /**
+   * Хранилище кеша. По умолчанию {@link IEnvironment.cacheStorage}.
+   */
+  storage?: undefined | null | HttpCacheStorageLike
+  /**
+   * Время свежести ответа в `ms`, если ответ не содержит директивы `max-age`. По умолчанию `0` - такой ответ
+   * сохраняется и проверяется при каждом запросе.
+   */
+  maxAge?: undefined | null | number
+  /**
+   * Кешировать запросы с заголовком `Authorization`. По умолчанию `false` - такие запросы выполняются без кеша, так
+   * как запись одного пользователя может быть возвращена другому. Включайте, если сервер передает `Vary: Authorization`
+   * или хранилище принадлежит одному пользователю.
+   */
+  authorized?: undefined | null | boolean
+}
+
+/**
+ * Нормализованные параметры кеширования ответов.
+ */
+interface TEndpointCacheNormalizedOptions {
+  readonly storage: HttpCacheStorageLike
+  readonly maxAge: number
+  readonly authorized: boolean
+}
+
+/**
+ * Параметры объединения одновременных одинаковых запросов.
+ */
+interface TEndpointDedupeOptions {
+  /**
+   * Имена заголовков, значения которых различают запросы. Например `['authorization', 'accept-language']`.
+   * По умолчанию запросы различаются только методом и `URL`.
+   */
+  headers?: undefined | null | readonly string[]
+}
+
+/**
+ * Нормализованные параметры объединения запросов.
+ */
+interface TEndpointDedupeNormalizedOptions {
+  /**
+   * Имена заголовков в нижнем регистре.
+   */
+  readonly headers: readonly string[]
+}
+
+/**
+ * Параметры автоматического выключателя конечной точки.
+ *
+ * Параметры применяются только при создании выключателя. Если выключатель с ключом {@link key} уже создан,
+ * отличающиеся параметры будут проигнорированы с предупреждением.
+ */
+interface TEndpointCircuitBreakerOptions extends TCircuitBreakerOptions {
+  /**
+   * Обязательный ключ выключателя в {@link IEnvironment.circuitBreakers}. Конечные точки с одним ключом разделяют
+   * состояние, поэтому ключ должен быть уникальным для каждой группы конечных точек в окружении.
+   */
+  key: string
+}
+
+/**
+ * Нормализованные параметры автоматического выключателя конечной точки.
+ */
+interface TEndpointCircuitBreakerNormalizedOptions extends TCircuitBreakerNormalizedOptions {
+  readonly key: null | TNonemptyString
 }
 
 interface TEndpointPartPathConfig {
@@ -238,7 +437,7 @@ interface TEndpointPartRequestInitConfig {
   /**
    * Предварительные параметры запроса. Этот объект имеет те же параметры, что и оригинальный
    * [RequestInit](https://developer.mozilla.org/en-US/docs/Web/API/RequestInit),
-   * исключая методы `GET/POST`, тело запроса `body` и `signal`.
+   * исключая метод запроса, тело запроса `body` и `signal`.
    */
   requestInit?: undefined | null | false | TRequestInitOptions | RequestInitConfig
   /**
@@ -292,17 +491,30 @@ interface TEndpointOptionsConfig extends
   // ...
 }
 
+interface TEndpointPartExtendsConfig {
+  /**
+   * Имя зарегистрированного пресета, который расширяется этим пресетом.
+   *
+   * Цепочки наследования разрешаются при сборке конфигурации конечной точки от корневого пресета к дочернему, поэтому
+   * родительский пресет может быть зарегистрирован позже дочернего. Циклы и незарегистрированные родители поднимают
+   * ошибку {@link ConfigureError}.
+   */
+  extends?: undefined | null | false | string
+}
+
 /**
  * Обобщенные параметры конфигурации для пресетов.
  *
  * Классы {@link EndpointPresetConfig} не могут иметь вложенных пресетов и полей которые должны быть уникальными для
- * специализированных конечных точек.
+ * специализированных конечных точек, но могут расширять другой зарегистрированный пресет по имени
+ * {@link TEndpointPartExtendsConfig.extends}.
  *
  * Пресеты могут использоваться для определения схожих конфигураций.
  */
 interface TEndpointPresetConfig extends
   TEndpointBaseConfig,
-  TEndpointPartRequestInitConfig {
+  TEndpointPartRequestInitConfig,
+  TEndpointPartExtendsConfig {
   // ...
 }
 
@@ -316,11 +528,20 @@ interface TEndpointNormalizedBaseConfig {
   errorprocessor: null | TMiddlewareRef<any, any>
   queueKey: null | TNonemptyString
   queueLimit: null | TPositiveInteger
+  queueRateLimit: null | TPositiveInteger
+  queueRateInterval: null | TPositiveNumber
+  queueRateBurst: null | TPositiveInteger
   queuePriority: null | TNonNegInteger
   queueUnordered: null | TNumericBool
   timeout: null | TPositiveNumber
   retries: null | TPositiveInteger
   retryDelay: null | TFnRetryDelay
+  retryPolicy: null | RetryPolicy
+  circuitBreaker: null | TEndpointCircuitBreakerNormalizedOptions
+  dedupe: null | TEndpointDedupeNormalizedOptions
+  cache: null | TEndpointCacheNormalizedOptions
+  serializer: null | BodySerializerLike
+  responseTypes: null | readonly string[]
   requestInit: null | RequestInitConfig
   headers: null | HeadersConfig
 }
@@ -356,11 +577,20 @@ function defaultEndpointPresetConfig (): TEndpointNormalizedPresetConfig {
     errorprocessor: null,
     queueKey: null,
     queueLimit: null,
+    queueRateLimit: null,
+    queueRateInterval: null,
+    queueRateBurst: null,
     queuePriority: null,
     queueUnordered: null,
     timeout: null,
     retries: null,
     retryDelay: null,
+    retryPolicy: null,
+    circuitBreaker: null,
+    dedupe: null,
+    cache: null,
+    serializer: null,
+    responseTypes: null,
     requestInit: null,
     headers: null
   }
@@ -379,7 +609,11 @@ function defaultEndpointOptionsConfig (): TEndpointNormalizedOptionsConfig {
 }
 
 export {
+  httpRequestMethods,
   type THttpRequestMethod,
+  httpRequestMethodsWithBody,
+  isHttpRequestMethod,
+  isHttpRequestMethodWithBody,
   requestBaseConfigProps,
   type TRequestBaseCongigKey,
   type TRequestBaseInit,
@@ -390,11 +624,18 @@ export {
   type TBaseMiddleware,
   type TResponseHandler,
   type TEndpointBaseConfig,
+  type TEndpointCircuitBreakerOptions,
+  type TEndpointCircuitBreakerNormalizedOptions,
+  type TEndpointDedupeOptions,
+  type TEndpointDedupeNormalizedOptions,
+  type TEndpointCacheOptions,
+  type TEndpointCacheNormalizedOptions,
   type TEndpointPartPathConfig,
   type TEndpointPartRequestInitConfig,
   type TEndpointPartHandlerConfig,
   type TEndpointPartPresetConfig,
   type TEndpointOptionsConfig,
+  type TEndpointPartExtendsConfig,
   type TEndpointPresetConfig,
   type TEndpointNormalizedBaseConfig,
   type TEndpointNormalizedPresetConfig,
@@ -127,6 +127,39 @@ describe('Endpoint Config Extension', () => {
     expect(config.path?.toMutable().toString()).toBe('http://example.com/')
   })
 
+  test('встроенные стратегии retryDelay', () => {
+    const config = env.extendsOptionsConfig(env.config, {
+      retryDelay: { strategy: 'exponential', base: 100, max: 500 }
+    })
+    expect(config.retryDelay!(1)).toBe(100)
+    expect(config.retryDelay!(2)).toBe(200)
+    expect(config.retryDelay!(3)).toBe(400)
+    expect(config.retryDelay!(4)).toBe(500) // ограничено max
+
+    // Наследуется до явного сброса
+    const linear = env.extendsOptionsConfig(config, { retryDelay: 'linear' })
+    expect(linear.retryDelay!(3)).toBe(300)
+    expect(env.extendsOptionsConfig(linear, { retries: 2 }).retryDelay).toBe(linear.retryDelay)
+    expect(env.extendsOptionsConfig(linear, { retryDelay: false }).retryDelay).toBeNull()
+
+    const full = env.extendsOptionsConfig(env.config, { retryDelay: { strategy: 'exponential', base: 100, jitter: 'full' } })
+    const equal = env.extendsOptionsConfig(env.config, { retryDelay: { strategy: 'exponential', base: 100, jitter: 'equal' } })
+    const decorrelated = env.extendsOptionsConfig(env.config, { retryDelay: { strategy: 'exponential', base: 100, max: 1000, jitter: 'decorrelated' } })
+    let previous = 0
+    for (let attempt = 1; attempt < 20; ++attempt) {
+      const f = full.retryDelay!(attempt)
+      expect(f >= 0 && f <= Math.min(100 * 2 ** (attempt - 1), 30000)).toBe(true)
+      const e = equal.retryDelay!(attempt)
+      expect(e >= Math.min(100 * 2 ** (attempt - 1), 30000) / 2 && e <= Math.min(100 * 2 ** (attempt - 1), 30000)).toBe(true)
+      const d = decorrelated.retryDelay!(attempt, previous)
+      expect(d >= 100 && d <= Math.min(1000, Math.max(previous, 100) * 3)).toBe(true)
+      previous = d
+    }
+
+    // Неизвестная стратегия игнорируется
+    expect(env.extendsOptionsConfig(env.config, { retryDelay: { strategy: 'foo' } as any }).retryDelay).toBeNull()
+  })
+
   test('обработка middleware с BASE_MIDDLEWARE', () => {
     env.middlewareRegistry.register(createTestMiddleware('base'))
     env.middlewareRegistry.register(createTestMiddleware('custom'))
@@ -276,4 +309,33 @@ describe('Endpoint Config Extension', () => {
       buildEndpointConfig(env, 'testKey', null as any, env.config)
     ).toThrowError(/Свойство конфигурации "testKey" должно быть объектом/)
   })
+
+  test('цепочки наследования пресетов', () => {
+    // Родители могут быть зарегистрированы позже дочерних пресетов
+    env.presetConfig({ extends: 'json', headers: { authorization: 'token' } }, 'authJson')
+    env.presetConfig({ extends: 'base', retries: 2, timeout: 3000, headers: { accept: 'application/json' } }, 'json')
+    env.presetConfig({ timeout: 1000, queueKey: 'api', headers: { 'x-app': 'demo' } }, 'base')
+    expect(env.presetRegistry.getOrThrow('authJson').extends).toBe('json')
+
+    const config = buildEndpointConfig<EndpointHttpConfig<any>>(env, 'testKey', { preset: 'authJson', retries: 4 }, env.config)
+    expect(config.queueKey).toBe('api')
+    expect(config.timeout).toBe(3000)
+    expect(config.retries).toBe(4)
+    // Заголовки слиты по цепочке от корневого родителя в режиме окружения replace, ключи дочернего пресета идут первыми
+    expect(config.headers.entries).toStrictEqual([['authorization', 'token'], ['accept', 'application/json'], ['x-app', 'demo']])
+
+    // Встроенный пресет тоже может расширять зарегистрированный
+    expect(buildEndpointConfig<EndpointHttpConfig<any>>(env, 'testKey', { preset: { extends: 'base', retries: 1 } }, env.config).queueKey).toBe('api')
+
+    env.presetConfig({ extends: 'cycleB' }, 'cycleA')
+    env.presetConfig({ extends: 'cycleA' }, 'cycleB')
+    expect(() =>
+      buildEndpointConfig(env, 'testKey', { preset: 'cycleA' }, env.config)
+    ).toThrowError(/Цикл наследования пресетов: "cycleA" -> "cycleB" -> "cycleA"/)
+
+    env.presetConfig({ extends: 'unknown_preset' }, 'orphan')
+    expect(() =>
+      buildEndpointConfig(env, 'testKey', { preset: 'orphan' }, env.config)
+    ).toThrowError(/Пресет "orphan" расширяет незарегистрированный пресет "unknown_preset"/)
+  })
 })
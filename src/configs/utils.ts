@@ -15,11 +15,15 @@ import {
   isMiddlewareRef
 } from '../middlewares/Middleware.js'
 import type { IEnvironment } from '../Environment.js'
+import type { THttpContextOverrides, THttpContextNormalizedOverrides } from '../contexts/Context.js'
 import {
   type TEndpointNormalizedPresetConfig,
   type TEndpointPresetConfig,
   type TEndpointNormalizedOptionsConfig,
   type TEndpointOptionsConfig,
+  type TEndpointCircuitBreakerNormalizedOptions,
+  type TEndpointDedupeNormalizedOptions,
+  type TEndpointCacheNormalizedOptions,
   defaultEndpointOptionsConfig,
   BASE_MIDDLEWARE,
   defaultEndpointPresetConfig,
@@ -28,6 +32,11 @@ import {
 import { type EndpointConfig, EndpointOptionsConfig, EndpointPresetConfig } from './EndpointConfig.js'
 import { RequestInitConfig } from './RequestInitConfig.js'
 import { HeadersConfig } from './HeadersConfig.js'
+import { retryPolicyOrNull } from './RetryPolicy.js'
+import { normalizeCircuitBreakerOptions } from '../libs/CircuitBreaker.js'
+import { HttpCacheStorageLike } from '../interfaces/HttpCacheStorageLike.js'
+import { BodySerializerLike } from '../interfaces/BodySerializerLike.js'
+import { isMediaTypePattern } from '../libs/ResponseDecoder.js'
 import { PathComponents } from './PathComponents.js'
 import { type TUrlFragments, UrlConfig } from './UrlConfig.js'
 
@@ -145,6 +154,30 @@ const configExtender = Object.freeze({
       target.queueLimit = null
     }
   },
+  queueRateLimit (_env: IEnvironment, target: Pick<TEndpointNormalizedPresetConfig, 'queueRateLimit'>, source: Pick<TEndpointPresetConfig, 'queueRateLimit'>) {
+    if (isPositiveInteger(source.queueRateLimit)) {
+      target.queueRateLimit = source.queueRateLimit
+    }
+    else if (source.queueRateLimit === false) {
+      target.queueRateLimit = null
+    }
+  },
+  queueRateInterval (_env: IEnvironment, target: Pick<TEndpointNormalizedPresetConfig, 'queueRateInterval'>, source: Pick<TEndpointPresetConfig, 'queueRateInterval'>) {
+    if (isPositiveNumber(source.queueRateInterval)) {
+      target.queueRateInterval = source.queueRateInterval
+    }
+    else if (source.queueRateInterval === false) {
+      target.queueRateInterval = null
+    }
+  },
+  queueRateBurst (_env: IEnvironment, target: Pick<TEndpointNormalizedPresetConfig, 'queueRateBurst'>, source: Pick<TEndpointPresetConfig, 'queueRateBurst'>) {
+    if (isPositiveInteger(source.queueRateBurst)) {
+      target.queueRateBurst = source.queueRateBurst
+    }
+    else if (source.queueRateBurst === false) {
+      target.queueRateBurst = null
+    }
+  },
   queuePriority (_env: IEnvironment, target: Pick<TEndpointNormalizedPresetConfig, 'queuePriority'>, source: Pick<TEndpointPresetConfig, 'queuePriority'>) {
     if (isNonNegInteger(source.queuePriority)) {
       target.queuePriority = source.queuePriority
@@ -187,6 +220,81 @@ const configExtender = Object.freeze({
       target.retryDelay = fn
     }
   },
+  retryPolicy (_env: IEnvironment, target: Pick<TEndpointNormalizedPresetConfig, 'retryPolicy'>, source: Pick<TEndpointPresetConfig, 'retryPolicy'>) {
+    if (source.retryPolicy === false) {
+      target.retryPolicy = null
+      return
+    }
+    const policy = retryPolicyOrNull(source.retryPolicy)
+    if (policy) {
+      target.retryPolicy = policy
+    }
+  },
+  circuitBreaker (_env: IEnvironment, target: Pick<TEndpointNormalizedPresetConfig, 'circuitBreaker'>, source: { circuitBreaker?: TEndpointPresetConfig['circuitBreaker'] | TEndpointCircuitBreakerNormalizedOptions }) {
+    if (source.circuitBreaker === false) {
+      target.circuitBreaker = null
+    }
+    else if (isObject(source.circuitBreaker)) {
+      target.circuitBreaker = Object.freeze({
+        ...normalizeCircuitBreakerOptions(source.circuitBreaker),
+        key: isNonemptyString(source.circuitBreaker.key) ? source.circuitBreaker.key : null
+      })
+    }
+  },
+  dedupe (_env: IEnvironment, target: Pick<TEndpointNormalizedPresetConfig, 'dedupe'>, source: { dedupe?: TEndpointPresetConfig['dedupe'] | TEndpointDedupeNormalizedOptions }) {
+    if (source.dedupe === false) {
+      target.dedupe = null
+    }
+    else if (source.dedupe === true) {
+      target.dedupe = Object.freeze({ headers: Object.freeze([]) })
+    }
+    else if (isObject(source.dedupe)) {
+      const headers = isArray(source.dedupe.headers)
+        ? [...new Set(source.dedupe.headers.filter((v) => isNonemptyString(v)).map((v) => v.toLowerCase()))]
+        : []
+      target.dedupe = Object.freeze({ headers: Object.freeze(headers) })
+    }
+  },
+  cache (env: IEnvironment, target: Pick<TEndpointNormalizedPresetConfig, 'cache'>, source: { cache?: TEndpointPresetConfig['cache'] | TEndpointCacheNormalizedOptions }) {
+    if (source.cache === false) {
+      target.cache = null
+    }
+    else if (source.cache === true) {
+      target.cache = Object.freeze({ storage: env.cacheStorage, maxAge: 0, authorized: false })
+    }
+    else if (isObject(source.cache)) {
+      target.cache = Object.freeze({
+        storage: (source.cache.storage instanceof HttpCacheStorageLike) ? source.cache.storage : env.cacheStorage,
+        maxAge: isPositiveNumber(source.cache.maxAge) ? source.cache.maxAge : 0,
+        authorized: source.cache.authorized === true
+      })
+    }
+  },
+  serializer (env: IEnvironment, target: Pick<TEndpointNormalizedPresetConfig, 'serializer'>, source: Pick<TEndpointPresetConfig, 'serializer'>) {
+    if (source.serializer instanceof BodySerializerLike) {
+      target.serializer = source.serializer
+    }
+    else if (isNonemptyString(source.serializer)) {
+      target.serializer = env.serializerRegistry.getOrThrow(source.serializer)
+    }
+    else if (source.serializer === false) {
+      target.serializer = null
+    }
+  },
+  responseTypes (_env: IEnvironment, target: Pick<TEndpointNormalizedPresetConfig, 'responseTypes'>, source: Pick<TEndpointPresetConfig, 'responseTypes'>) {
+    if (isArray(source.responseTypes)) {
+      const patterns = source.responseTypes.filter((v) => isNonemptyString(v)).map((v) => v.trim().toLowerCase())
+      for (const pattern of patterns) {
+        if (!isMediaTypePattern(pattern)) {
+          throw new ConfigureError(errorDetails.ConfigureError(`Параметр 'responseTypes' должен содержать шаблоны медиа типов, получено: ${safeToJson(pattern)}.`))
+        }
+      }
+      target.responseTypes = Object.freeze([...new Set(patterns)])
+    }
+    else if (source.responseTypes === false) {
+      target.responseTypes = null
+    }
+  },
   requestInit (env: IEnvironment, target: Pick<TEndpointNormalizedPresetConfig, 'requestInit' | 'headers'>, source: Pick<TEndpointPresetConfig, 'requestInit' | 'headers'>) {
     // Эта функция так же обрабатывает заголовки
     let headers: HeadersInit | null | undefined = null
@@ -329,25 +437,58 @@ function createEndpointPresetConfig (env: IEnvironment, options: TEndpointPreset
   if (nonusedRequestInit && ('headers' in options)) {
     configExtender.requestInit(env, cfg, options)
   }
-  return new EndpointPresetConfig(cfg)
+  return new EndpointPresetConfig(cfg, isNonemptyString(options.extends) ? options.extends : null)
 }
 
 /**
- * Сливает обобщенные параметры конфигураций конечных точек в нормализованный {@link TEndpointNormalizedOptionsConfig}
- * или {@link TEndpointNormalizedPresetConfig}.
+ * Разрешает цепочку наследования {@link EndpointPresetConfig.extends} и возвращает пресет, слитый от корневого
+ * родителя к `preset`. Если пресет ничего не расширяет, возвращается сам `preset`.
  *
- * @param env       Разделяемые параметры {@link IEnvironment}.
- * @param asOptions Если `true` возвращаемым объектом будет {@link TEndpointNormalizedOptionsConfig}, иначе {@link TEndpointNormalizedPresetConfig}.
- * @param configs   Любое количество аргументов совместимых с {@link TEndpointOptionsConfig}.
+ * Родители разрешаются по имени в {@link IEnvironment.presetRegistry} в момент вызова, поэтому могут быть
+ * зарегистрированы позже дочерних пресетов.
+ *
+ * @param env    Разделяемые параметры {@link IEnvironment}.
+ * @param preset Пресет.
+ * @param name   Необязательное имя пресета для сообщений об ошибках.
  */
-function extendsEndpointConfigs<T extends boolean> (
+function resolvePresetConfig (env: IEnvironment, preset: EndpointPresetConfig, name?: undefined | null | string): EndpointPresetConfig {
+  if (!preset.extends) {
+    return preset
+  }
+  const chain = [preset]
+  const names = [name ?? '<inline>']
+  let current = preset
+  while (current.extends) {
+    const parentName = current.extends
+    if (names.includes(parentName)) {
+      throw new ConfigureError(errorDetails.ConfigureError(`Цикл наследования пресетов: ${[...names, parentName].map((v) => safeToJson(v)).join(' -> ')}.`))
+    }
+    if (!env.presetRegistry.has(parentName)) {
+      throw new ConfigureError(errorDetails.ConfigureError(`Пресет ${safeToJson(names[names.length - 1])} расширяет незарегистрированный пресет ${safeToJson(parentName)}.`))
+    }
+    current = env.presetRegistry.getOrThrow(parentName)
+    chain.push(current)
+    names.push(parentName)
+  }
+  return new EndpointPresetConfig(extendsEndpointConfigs<false>(env, false, ...chain.reverse()))
+}
+
+type _TMergeObserver = (index: number, before: Readonly<TEndpointNormalizedOptionsConfig>, after: Readonly<TEndpointNormalizedOptionsConfig>) => void
+
+/**
+ * Единый цикл слияния для {@link extendsEndpointConfigs()} и {@link traceEndpointConfigs()}.
+ */
+function _mergeEndpointConfigs (
   env: IEnvironment,
   asOptions: boolean,
-  ...configs: (TEndpointOptionsConfig | EndpointOptionsConfig | TEndpointPresetConfig | EndpointPresetConfig | TEndpointNormalizedOptionsConfig | TEndpointNormalizedPresetConfig)[]
-): T extends true ? TEndpointNormalizedOptionsConfig : TEndpointNormalizedPresetConfig {
+  configs: readonly (TEndpointOptionsConfig | EndpointOptionsConfig | TEndpointPresetConfig | EndpointPresetConfig | TEndpointNormalizedOptionsConfig | TEndpointNormalizedPresetConfig)[],
+  observer: null | _TMergeObserver
+): TEndpointNormalizedOptionsConfig | TEndpointNormalizedPresetConfig {
   const [cfg, keys] = asOptions ? getDefaultOptions() : getDefaultPreset()
   let nonusedRequestInit = true
-  for (const config of configs) {
+  for (let i = 0; i < configs.length; ++i) {
+    const config = configs[i]!
+    const before = observer ? { ...cfg } : null
     for (const key of keys) {
       configExtender[key](env, cfg, config)
       if (nonusedRequestInit && key === 'requestInit') {
@@ -365,8 +506,69 @@ function extendsEndpointConfigs<T extends boolean> (
       configExtenderExt.handler(env, cfg as TEndpointNormalizedOptionsConfig, config as { handler: any })
       configExtenderExt.preset(env, cfg as TEndpointNormalizedOptionsConfig, config as { preset: any })
     }
+    if (observer) {
+      observer(i, before as TEndpointNormalizedOptionsConfig, cfg as TEndpointNormalizedOptionsConfig)
+    }
   }
-  return cfg as (T extends true ? TEndpointNormalizedOptionsConfig : TEndpointNormalizedPresetConfig)
+  return cfg
+}
+
+/**
+ * Сливает обобщенные параметры конфигураций конечных точек в нормализованный {@link TEndpointNormalizedOptionsConfig}
+ * или {@link TEndpointNormalizedPresetConfig}.
+ *
+ * @param env       Разделяемые параметры {@link IEnvironment}.
+ * @param asOptions Если `true` возвращаемым объектом будет {@link TEndpointNormalizedOptionsConfig}, иначе {@link TEndpointNormalizedPresetConfig}.
+ * @param configs   Любое количество аргументов совместимых с {@link TEndpointOptionsConfig}.
+ */
+function extendsEndpointConfigs<T extends boolean> (
+  env: IEnvironment,
+  asOptions: boolean,
+  ...configs: (TEndpointOptionsConfig | EndpointOptionsConfig | TEndpointPresetConfig | EndpointPresetConfig | TEndpointNormalizedOptionsConfig | TEndpointNormalizedPresetConfig)[]
+): T extends true ? TEndpointNormalizedOptionsConfig : TEndpointNormalizedPresetConfig {
+  return _mergeEndpointConfigs(env, asOptions, configs, null) as (T extends true ? TEndpointNormalizedOptionsConfig : TEndpointNormalizedPresetConfig)
+}
+
+/**
+ * Сливает конфигурации так же, как {@link extendsEndpointConfigs()} с `asOptions:true`, и после каждой конфигурации
+ * вызывает `observer` с копией нормализованной структуры до слияния и текущей структурой после слияния.
+ *
+ * @param env      Разделяемые параметры {@link IEnvironment}.
+ * @param configs  Конфигурации в порядке слияния.
+ * @param observer Функция наблюдения за слиянием. Структуру `after` нельзя изменять.
+ */
+function traceEndpointConfigs (
+  env: IEnvironment,
+  configs: readonly (TEndpointOptionsConfig | EndpointOptionsConfig | TEndpointPresetConfig | EndpointPresetConfig)[],
+  observer: _TMergeObserver
+): TEndpointNormalizedOptionsConfig {
+  return _mergeEndpointConfigs(env, true, configs, observer) as TEndpointNormalizedOptionsConfig
+}
+
+/**
+ * Возвращает пресет конфигурации конечной точки: собственный пресет `config`, пресет базовой конфигурации или `null`.
+ * Имя пресета разрешается через {@link IEnvironment.presetRegistry}, цепочка наследования - {@link resolvePresetConfig()}.
+ *
+ * @param env        Разделяемое окружение {@link IEnvironment}.
+ * @param config     Пользовательская конфигурация.
+ * @param baseConfig Базовая конфигурация.
+ */
+function resolveEndpointPreset (
+  env: IEnvironment,
+  config: TEndpointOptionsConfig | EndpointOptionsConfig,
+  baseConfig: EndpointOptionsConfig
+): null | EndpointPresetConfig | TEndpointPresetConfig {
+  const strOrPreset = config.preset === false ? null : (config.preset ?? baseConfig.preset)
+  if (isNonemptyString(strOrPreset)) {
+    return resolvePresetConfig(env, env.presetRegistry.getOrThrow(strOrPreset), strOrPreset)
+  }
+  if (strOrPreset instanceof EndpointPresetConfig) {
+    return resolvePresetConfig(env, strOrPreset)
+  }
+  if (isObject(strOrPreset)) {
+    return isNonemptyString(strOrPreset.extends) ? resolvePresetConfig(env, createEndpointPresetConfig(env, strOrPreset)) : strOrPreset
+  }
+  return null
 }
 
 /**
@@ -387,13 +589,7 @@ function buildEndpointConfig<T extends EndpointConfig> (
     throw new ConfigureError(errorDetails.ConfigureError(`Свойство конфигурации ${safeToJson(key)} должно быть объектом.`))
   }
 
-  const strOrPreset = config.preset === false ? null : (config.preset ?? baseConfig.preset)
-  const preset: EndpointPresetConfig | TEndpointPresetConfig | null =
-    strOrPreset ? (
-      isNonemptyString(strOrPreset)
-        ? env.presetRegistry.getOrThrow(strOrPreset)
-        : (isObject(strOrPreset) ? strOrPreset : null)
-    ) : null
+  const preset = resolveEndpointPreset(env, config, baseConfig)
 
   // Сливаем параметры в обобщенный EndpointOptionsConfig
   // Встраиваем пресет и target посередине
@@ -408,9 +604,65 @@ function buildEndpointConfig<T extends EndpointConfig> (
   return new cls(env, derived, key) as T
 }
 
+/**
+ * Применяет параметры вызова {@link THttpContextOverrides} поверх параметров конфигурации конечной точки. Значения
+ * нормализуются теми же функциями, что и при слиянии конфигураций.
+ *
+ * @param env       Разделяемое окружение {@link IEnvironment}.
+ * @param config    Нормализованные параметры конфигурации, обычно это {@link EndpointHttpConfig}.
+ * @param overrides Параметры вызова.
+ * @throws ConfigureError Если значение параметра недопустимо.
+ */
+function extendsHttpContextOverrides (
+  env: IEnvironment,
+  config: Readonly<THttpContextNormalizedOverrides>,
+  overrides: THttpContextOverrides
+): THttpContextNormalizedOverrides {
+  if (!isObject(overrides)) {
+    throw new ConfigureError(errorDetails.ConfigureError(`Параметры вызова 'overrides' должны быть объектом, получено: ${safeToJson(overrides)}.`))
+  }
+  const target: THttpContextNormalizedOverrides & { requestInit: null } = {
+    timeout: config.timeout,
+    retries: config.retries,
+    queuePriority: config.queuePriority,
+    requestInit: null,
+    headers: config.headers
+  }
+  for (const key of ['timeout', 'retries', 'queuePriority'] as const) {
+    const value = overrides[key]
+    if (value === undefined || value === null) {
+      continue
+    }
+    configExtender[key](env, target, overrides)
+    // Нормализатор игнорирует недопустимые значения, для вызова это ошибка
+    if (value !== false && target[key] !== value) {
+      throw new ConfigureError(errorDetails.ConfigureError(`Недопустимое значение параметра вызова ${safeToJson(key)}, получено: ${safeToJson(value)}.`))
+    }
+  }
+  if (overrides.headers === false || !config.headers) {
+    configExtender.requestInit(env, target, { headers: overrides.headers })
+  }
+  else if (overrides.headers) {
+    // Заголовки вызова дополняют заголовки конфигурации и в режиме 0, поэтому сливаем через копию в режиме replace
+    const { extendsMode, appendMode } = config.headers
+    const merged = (extendsMode === 0 ? new HeadersConfig(config.headers, 1, appendMode) : config.headers).extends(overrides.headers)
+    target.headers = merged.extendsMode === extendsMode ? merged : new HeadersConfig(merged, extendsMode, appendMode)
+  }
+  return {
+    timeout: target.timeout,
+    retries: target.retries,
+    queuePriority: target.queuePriority,
+    headers: target.headers ?? new HeadersConfig(null, env.headersExtendsMode, env.headersAppendMode)
+  }
+}
+
 export {
   createEndpointOptionsConfig,
   createEndpointPresetConfig,
+  resolvePresetConfig,
   extendsEndpointConfigs,
-  buildEndpointConfig
+  traceEndpointConfigs,
+  resolveEndpointPreset,
+  buildEndpointConfig,
+  extendsHttpContextOverrides
 }
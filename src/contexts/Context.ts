@@ -5,10 +5,15 @@ import { ConfigureError, errorDetails } from '../errors.js'
 import type { MiddlewareLike } from '../interfaces/MiddlewareLike.js'
 import { type TContextConstructor, ContextLike, ContextFactoryLike } from '../interfaces/ContextLike.js'
 import { RegistryBase } from '../libs/RegistryBase.js'
-import type { THttpRequestMethod } from '../configs/types.js'
+import type {
+  THttpRequestMethod,
+  TEndpointBaseConfig,
+  TEndpointPartRequestInitConfig,
+  TEndpointNormalizedBaseConfig
+} from '../configs/types.js'
 import type { MutableUrl, TUrlComponents } from '../configs/UrlConfig.js'
 import type { MutableRequestInit } from '../configs/RequestInitConfig.js'
-import type { MutableHeaders } from '../configs/HeadersConfig.js'
+import type { MutableHeaders, HeadersConfig } from '../configs/HeadersConfig.js'
 import type { EndpointConfig } from '../configs/EndpointConfig.js'
 import type { EndpointHttpConfig } from '../configs/EndpointHttpConfig.js'
 
@@ -62,8 +67,8 @@ class ContextRegistry extends RegistryBase<string, ContextFactoryLike> {
   }
 
   protected _createLazyFactory (key: string): ContextFactoryLike<any> {
-    const items = this._items
-    let wrapper = items.get(key)
+    const registry = this
+    let wrapper = registry._get(key)
     if (wrapper) {
       return wrapper
     }
@@ -84,7 +89,7 @@ class ContextRegistry extends RegistryBase<string, ContextFactoryLike> {
         configurable: true,
         enumerable: true,
         value: function (endpoint: EndpointConfig, options: Record<string, any>) {
-          const factory = items.get(key)
+          const factory = registry._get(key)
           if (!factory) {
             throw new ConfigureError(errorDetails.ConfigureError(`Context ${safeToJson(key)} не зарегистрирован.`))
           }
@@ -125,12 +130,20 @@ class ContextRegistry extends RegistryBase<string, ContextFactoryLike> {
     return wrapper
   }
 
+  /**
+   * Является ли `ctx` ленивой фабрикой, для которой до сих пор не зарегистрирован {@link Context}. Вызов `create()`
+   * такой фабрики завершится ошибкой.
+   */
+  isUnresolved (ctx: ContextFactoryLike<any>): boolean {
+    return this._lazyFactories.get(ctx.kind) === ctx && !this.has(ctx.kind)
+  }
+
   factory<T extends ContextLike> (ctx: string | TContextConstructor<T> | ContextFactoryLike<T>): ContextFactoryLike<T> {
     if (ctx instanceof ContextFactoryLike) {
       return ctx
     }
     if (isNonemptyString(ctx)) {
-      return this._items.get(ctx) ?? this._createLazyFactory(ctx)
+      return this._get(ctx) ?? this._createLazyFactory(ctx)
     }
     if (isFunction<TContextConstructor>(ctx)) {
       return _createFactory(ctx.kind, ctx)
@@ -141,7 +154,7 @@ class ContextRegistry extends RegistryBase<string, ContextFactoryLike> {
 
 abstract class HttpContextLike<TOut> extends ContextLike<EndpointHttpConfig<TOut>, TOut> {
   /**
-   * Допустимый метод запроса. Для `http` запросов это `GET/POST`.
+   * Допустимый метод запроса {@link THttpRequestMethod}.
    */
   abstract readonly method: THttpRequestMethod
   /**
@@ -166,6 +179,27 @@ abstract class HttpContextLike<TOut> extends ContextLike<EndpointHttpConfig<TOut
   abstract readonly options: null | Record<string, any>
 }
 
+/**
+ * Параметры конфигурации, которые можно переопределить для одного вызова. Значения проверяются так же, как параметры
+ * конфигурации конечной точки, а `false` сбрасывает параметр конфигурации.
+ *
+ * Заголовки всегда дополняют заголовки конфигурации, даже если режим окружения {@link HeadersConfig.extendsMode} их не
+ * наследует: совпадающие имена заменяются, в режиме `2` добавляются. Сбросить заголовки конфигурации можно только
+ * значением `headers: false`.
+ */
+interface THttpContextOverrides extends
+  Pick<TEndpointBaseConfig, 'timeout' | 'retries' | 'queuePriority'>,
+  Pick<TEndpointPartRequestInitConfig, 'headers'> {
+  // ...
+}
+
+/**
+ * Нормализованные параметры {@link THttpContextOverrides}, примененные поверх конфигурации.
+ */
+interface THttpContextNormalizedOverrides extends Pick<TEndpointNormalizedBaseConfig, 'timeout' | 'retries' | 'queuePriority'> {
+  headers: HeadersConfig
+}
+
 /**
  * Параметры контекста {@link HttpContextLike}.
  */
@@ -179,7 +213,7 @@ interface THttpContextOptions {
    */
   path?: undefined | null | string | TUrlComponents
   /**
-   * Данные запроса `POST`.
+   * Данные запроса. Тело запроса устанавливается только для методов `POST/PUT/PATCH/DELETE`.
    */
   data?: undefined | null | any
   /**
@@ -194,10 +228,33 @@ interface THttpContextOptions {
    * Объект опций устанавливаемый контексту. Может быть использован {@link MiddlewareLike}.
    */
   options?: undefined | null | Record<string, any>
+  /**
+   * Параметры конфигурации `timeout`, `retries`, `headers` и `queuePriority`, действующие только для этого вызова.
+   */
+  overrides?: undefined | null | THttpContextOverrides
+}
+
+/**
+ * Удержание прерывания запроса на время чтения потока тела ответа.
+ */
+interface THttpStreamHold {
+  /**
+   * Сигнал прерывания по `timeout` или пользовательскому `abortSignal`. Причиной прерывания является ошибка
+   * {@link TimeoutError}.
+   */
+  readonly signal: AbortSignal
+  /**
+   * Отключает прерывание. Должна быть вызвана после завершения чтения потока или отказа от него, повторные вызовы и
+   * вызовы после повтора запроса игнорируются.
+   */
+  release (): void
 }
 
 export {
   ContextRegistry,
   HttpContextLike,
-  type THttpContextOptions
+  type THttpContextOverrides,
+  type THttpContextNormalizedOverrides,
+  type THttpContextOptions,
+  type THttpStreamHold
 }
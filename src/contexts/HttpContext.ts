@@ -1,17 +1,77 @@
-import { type AbortError, type TimeoutError, errorDetails, ApiRouterError, InterruptError, SendError } from '../errors.js'
-import type { TResponse, TPositiveNumber, TNonNegInteger } from '../types.js'
+import {
+  type AbortError,
+  errorDetails,
+  ApiRouterError,
+  StatusError,
+  ConnectionError,
+  SendError,
+  CircuitOpenError,
+  InterruptError,
+  TimeoutError
+} from '../errors.js'
+import type { TResponse, TResponseMeta, TResponseTimings, TPositiveNumber, TNonNegInteger } from '../types.js'
+import { safeToJson } from '../utils.js'
 import { type TInterruptControllerExitStatuses, INTERRUPT_CONTROLLER_EXIT_STATUSES } from '../interfaces/InterruptControllerLike.js'
 import { type TRequestStage, type TRequestStatus, PASSTHROUGH_MARKER, REQUEST_STAGES, REQUEST_STATUSES } from '../interfaces/ContextLike.js'
 import type { MiddlewareLike } from '../interfaces/MiddlewareLike.js'
+import type { THttpCacheEntry, HttpCacheStorageLike } from '../interfaces/HttpCacheStorageLike.js'
 import { type AsyncQueue, MAX_QUEUE_PRIORITY } from '../libs/AsyncQueue.js'
 import { AbortTimeoutController } from '../libs/AbortTimeoutController.js'
+import {
+  isCacheableResponse,
+  createHttpCacheEntry,
+  refreshHttpCacheEntry,
+  httpCacheVaryMatches,
+  httpCacheFreshness,
+  httpCacheEntryToResponse
+} from '../libs/HttpCache.js'
 import { type TUrlComponents, type MutableUrl, useUrlComponents } from '../configs/UrlConfig.js'
 import type { EndpointHttpConfig } from '../configs/EndpointHttpConfig.js'
 import type { THttpRequestMethod } from '../configs/types.js'
 import type { MutableHeaders } from '../configs/HeadersConfig.js'
 import { MutableRequestInit } from '../configs/RequestInitConfig.js'
-import type { TMiddlewareRef } from '../middlewares/Middleware.js'
-import { type THttpContextOptions, HttpContextLike } from './Context.js'
+import { parseRetryAfter } from '../configs/RetryPolicy.js'
+import { extendsHttpContextOverrides } from '../configs/utils.js'
+import { type TMiddlewareRef, middlewareProcessError } from '../middlewares/Middleware.js'
+import {
+  type THttpContextOptions,
+  type THttpContextOverrides,
+  type THttpContextNormalizedOverrides,
+  type THttpStreamHold,
+  HttpContextLike
+} from './Context.js'
+
+/**
+ * Общий запрос, к которому присоединяются одновременные одинаковые вызовы.
+ */
+interface TInflightEntry {
+  readonly key: string
+  readonly ctx: HttpContext<any, any>
+  readonly controller: AbortController
+  count: number
+}
+
+/**
+ * Выполняемые общие запросы. Ключом верхнего уровня является конфигурация, так как разные `Endpoint` с одним `URL`
+ * могут иметь разные `middleware`.
+ */
+const _inflight = new WeakMap<EndpointHttpConfig<any>, Map<string, TInflightEntry>>()
+
+/**
+ * Ключи записей кеша, для которых выполняется фоновая проверка `stale-while-revalidate`.
+ */
+const _revalidating = new WeakMap<HttpCacheStorageLike, Set<string>>()
+
+/**
+ * Выполняет запись в хранилище кеша. Ошибка записи не должна влиять на уже полученный ответ и игнорируется.
+ */
+async function _tryWriteStorage (write: () => void | Promise<void>): Promise<void> {
+  try {
+    await write()
+  } catch {
+    // Запись в кеш необязательна
+  }
+}
 
 class HttpContext<TIn, TOut> extends HttpContextLike<TOut> {
   static get kind (): 'http' { return 'http' }
@@ -24,15 +84,32 @@ class HttpContext<TIn, TOut> extends HttpContextLike<TOut> {
   protected readonly _path: undefined | null | string | TUrlComponents
   protected readonly _inputValue: null | TIn
   protected readonly _abortSignal: null | AbortSignal
+  protected readonly _overrides: null | THttpContextOverrides
+  protected readonly _params: Readonly<THttpContextNormalizedOverrides>
   protected _stage: TRequestStage = REQUEST_STAGES.none
   protected _status: TRequestStatus = REQUEST_STATUSES.none
   // Временные переменные запроса
   protected _attempt = 0
+  protected _attemptCount = 0
+  protected _startTime = 0
+  protected _lastRetryDelay = 0
   protected _currentValue: any = null
+  protected _response: null | Response = null
+  protected _breakerAcquired = false
+  protected _shared = false
+  protected _inflightEntry: null | TInflightEntry = null
+  protected _background = false
+  protected _cacheEntry: null | THttpCacheEntry = null
   protected _result: null | TResponse<TOut> = null
+  // Время этапов запроса для TResponseMeta
+  protected readonly _timings: { -readonly [K in keyof TResponseTimings]: number } = { queued: 0, fetching: 0, postprocessing: 0 }
+  protected _timingStage: null | keyof TResponseTimings = null
+  protected _timingStart = 0
   protected _resultPromise: null | { promise: Promise<any>, resolve: ((_: TResponse<TOut>) => any) } = null
   // Устанавливаются на старте перед middleware
   protected _abortControl: null | AbortTimeoutController = null
+  // Прерывание удерживается после установки результата, пока читается поток тела ответа
+  protected _streamHold: null | THttpStreamHold = null
   protected _retryId: ReturnType<typeof setTimeout> = undefined as any
   protected _url: null | MutableUrl = null
   protected _requestInit: null | MutableRequestInit = null
@@ -43,6 +120,7 @@ class HttpContext<TIn, TOut> extends HttpContextLike<TOut> {
    *
    * @param config  Конфигурация `Endpoint`.
    * @param options Пользовательские опции.
+   * @throws ConfigureError Если параметры вызова {@link THttpContextOptions.overrides} недопустимы.
    */
   constructor(
     config: EndpointHttpConfig<TOut>,
@@ -56,6 +134,9 @@ class HttpContext<TIn, TOut> extends HttpContextLike<TOut> {
     this._path = options.path
     this._inputValue = options.data ?? null
     this._abortSignal = options.abortSignal ?? null
+    this._overrides = options.overrides ?? null
+    // Параметры конфигурации, которые могут быть переопределены для этого вызова
+    this._params = this._overrides ? extendsHttpContextOverrides(config.env, config, this._overrides) : config
   }
 
   get config (): EndpointHttpConfig<TOut> {
@@ -91,7 +172,7 @@ class HttpContext<TIn, TOut> extends HttpContextLike<TOut> {
   }
 
   get headers (): MutableHeaders {
-    return this._headers ?? (this._headers = this._config.headers.toMutable())
+    return this._headers ?? (this._headers = this._params.headers.toMutable())
   }
 
   get abortSignal (): null | AbortSignal {
@@ -107,6 +188,38 @@ class HttpContext<TIn, TOut> extends HttpContextLike<TOut> {
     return PASSTHROUGH_MARKER
   }
 
+  /**
+   * Оставляет прерывание по `timeout` и пользовательскому `abortSignal` активным после установки результата, пока
+   * потребитель читает поток тела ответа. Отключенный после получения ответа `timeout` восстанавливается на
+   * оставшееся время.
+   *
+   * Вызывается `postprocessor`, который возвращает поток вместо прочитанного тела ответа. Возвратит `null`, если у
+   * запроса нет ни `timeout`, ни `abortSignal`. Удержание снимается повтором запроса и результатом с ошибкой, в
+   * остальных случаях его снимает {@link THttpStreamHold.release}: если поток не будет прочитан, прерывание останется
+   * активным до `timeout` или пользовательского `abortSignal`.
+   */
+  holdAbortSignal (): null | THttpStreamHold {
+    const control = this._abortControl
+    if (!control || this._stage === REQUEST_STAGES.finished) {
+      return null
+    }
+    if (!this._streamHold) {
+      control.enableTimeout()
+      const hold: THttpStreamHold = {
+        signal: control.signal,
+        release: () => {
+          // Удержание предыдущей попытки или уже снятое удержание не должно отключать прерывание
+          if (this._streamHold === hold) {
+            this._streamHold = null
+            control.disable()
+          }
+        }
+      }
+      this._streamHold = hold
+    }
+    return this._streamHold
+  }
+
   isCancelled (): boolean {
     return this._stage === REQUEST_STAGES.finished
   }
@@ -118,24 +231,284 @@ class HttpContext<TIn, TOut> extends HttpContextLike<TOut> {
     if (this._stage !== REQUEST_STAGES.finished) {
       this._stage = REQUEST_STAGES.finished
       this._status = status
+      // Результат общего запроса уже имеет метаданные
+      if (!result.meta) {
+        result.meta = this._createMeta()
+      }
       this._result = result
-      this._abortControl?.disable()
+      if (!this._streamHold || status !== REQUEST_STATUSES.ok) {
+        this._streamHold = null
+        this._abortControl?.disable()
+      }
+      if (this._breakerAcquired) {
+        this._breakerAcquired = false
+        this._reportToBreaker(status, result)
+      }
+      if (this._inflightEntry) {
+        this._detachInflight(this._inflightEntry)
+      }
       // Эта функция вызывается синхронно и мы должны разорвать стек вызовов
       await Promise.resolve()
       // Прежде всего освободим очередь
       if (this._resultPromise) {
         this._resultPromise.resolve(result)
       }
-      if (this._config.handler) {
+      // Общий запрос не вызывает обработчик, его вызовет каждый присоединившийся контекст со своим requestId
+      if (this._config.handler && !this._shared && !this._background) {
         this._config.handler(result.ok, result.value, result.error, this._requestId)
       }
     }
   }
 
+  /**
+   * Завершает отсчет времени текущего этапа и начинает отсчет этапа `stage`, если он задан.
+   */
+  protected _timing (stage: null | keyof TResponseTimings): void {
+    const now = Date.now()
+    if (this._timingStage) {
+      this._timings[this._timingStage] += now - this._timingStart
+    }
+    this._timingStage = stage
+    this._timingStart = now
+  }
+
+  /**
+   * Метаданные последнего ответа {@link TResponseMeta}.
+   */
+  protected _createMeta (): TResponseMeta {
+    this._timing(null)
+    const response = this._response
+    return Object.freeze({
+      status: response?.status ?? null,
+      headers: response?.headers ?? null,
+      url: response?.url || this.url.toString(),
+      attempt: this._attemptCount,
+      timings: Object.freeze({ ...this._timings })
+    })
+  }
+
+  /**
+   * Сообщает результат запроса в {@link EndpointHttpConfig.breaker}. Ошибками считаются ошибки соединения, `timeout`
+   * и статусы ответа `>= 500`. Прерывание пользователем не влияет на состояние выключателя.
+   */
+  protected _reportToBreaker (status: TRequestStatus, result: TResponse<TOut>): void {
+    const breaker = this._config.breaker!
+    if (result.ok) {
+      breaker.success()
+    }
+    else if (
+      status === REQUEST_STATUSES.timeout ||
+      (result.error instanceof TimeoutError) ||
+      (result.error instanceof ConnectionError) ||
+      ((result.error instanceof StatusError) && (result.error.detail.status ?? 0) >= 500)
+    ) {
+      breaker.failure()
+    }
+    else if (status === REQUEST_STATUSES.aborted) {
+      breaker.release()
+    }
+    else {
+      // Сервер ответил, хоть и с ошибкой клиента
+      breaker.success()
+    }
+  }
+
+  /**
+   * Возвратит `true`, если выключатель разомкнут и запрос завершен ошибкой {@link CircuitOpenError}.
+   */
+  protected _rejectByBreaker (): boolean {
+    const breaker = this._config.breaker
+    if (!breaker) {
+      return false
+    }
+    if (breaker.tryAcquire()) {
+      this._breakerAcquired = true
+      return false
+    }
+    const detail = errorDetails.CircuitOpenError(`Запрос отклонен, выключатель ${safeToJson(breaker.key)} разомкнут.`)
+    detail.url = this.url.toString()
+    this._handleResult(REQUEST_STATUSES.error, { ok: false, value: null, error: new CircuitOpenError(detail) })
+    return true
+  }
+
+  /**
+   * Возвратит `true`, если контекст присоединился к общему запросу {@link EndpointHttpConfig.dedupe}.
+   *
+   * Ключ запроса составляется из метода, `URL` с примененным динамическим путем и значений выбранных заголовков.
+   * Изменения, внесенные `preprocessor`, в ключе не учитываются. Вызовы с параметрами {@link THttpContextOptions.overrides}
+   * выполняются отдельно, так как общий запрос использует параметры конфигурации.
+   */
+  protected _joinInflight (): boolean {
+    const dedupe = this._config.dedupe
+    if (!dedupe || this._shared || this._overrides || (this._method !== 'GET' && this._method !== 'HEAD')) {
+      return false
+    }
+    if (this._path) {
+      useUrlComponents(this.url, this._path)
+    }
+    let key = `${this._method} ${this.url.toString()}`
+    for (const name of dedupe.headers) {
+      key += `\n${name}:${this.headers.get(name) ?? ''}`
+    }
+    let map = _inflight.get(this._config)
+    if (!map) {
+      map = new Map()
+      _inflight.set(this._config, map)
+    }
+    let entry = map.get(key)
+    if (!entry) {
+      const controller = new AbortController()
+      const ctx = new HttpContext<TIn, TOut>(this._config, {
+        method: this._method,
+        path: this._path,
+        data: this._inputValue,
+        options: this._options,
+        abortSignal: controller.signal
+      })
+      ctx._shared = true
+      const newEntry: TInflightEntry = entry = { key, ctx, controller, count: 0 }
+      map.set(key, newEntry)
+      Promise.resolve(ctx.result()).then(() => {
+        if (map.get(key) === newEntry) {
+          map.delete(key)
+        }
+      })
+    }
+    entry.count++
+    this._inflightEntry = entry
+    // Каждый вызывающий получает собственный объект результата
+    Promise.resolve(entry.ctx.result()).then((result) => this._handleResult(entry.ctx.status, { ...result }))
+    return true
+  }
+
+  /**
+   * Отсоединяет контекст от общего запроса. Общий запрос прерывается, если не осталось ни одного ожидающего.
+   */
+  protected _detachInflight (entry: TInflightEntry): void {
+    this._inflightEntry = null
+    if (--entry.count === 0 && !entry.ctx.isCancelled()) {
+      const map = _inflight.get(this._config)
+      if (map?.get(entry.key) === entry) {
+        map.delete(entry.key)
+      }
+      entry.controller.abort()
+    }
+  }
+
+  /**
+   * Хранилище кеша для текущего запроса или `null`. Кеш применяется только к `GET`, а запросы с заголовком
+   * `Authorization` кешируются только с параметром {@link TEndpointCacheOptions.authorized}.
+   */
+  protected _cacheStorage (): null | HttpCacheStorageLike {
+    const cache = this._config.cache
+    if (!cache || this._method !== 'GET' || (!cache.authorized && this.headers.has('authorization'))) {
+      return null
+    }
+    return cache.storage
+  }
+
+  /**
+   * Возвращает свежий или допустимый `stale-while-revalidate` ответ из кеша или устанавливает заголовки повторной
+   * проверки для устаревшей записи. Ошибки хранилища и запись с другими значениями заголовков `Vary` считаются
+   * отсутствием записи.
+   */
+  protected async _readCache (storage: HttpCacheStorageLike, key: string): Promise<null | Response> {
+    let entry: null | THttpCacheEntry = null
+    try {
+      entry = await storage.get(key)
+    } catch {
+      // Недоступное хранилище не должно прерывать запрос и считается промахом кеша
+    }
+    if (entry && !httpCacheVaryMatches(entry, this.headers)) {
+      entry = null
+    }
+    this._cacheEntry = entry
+    if (!entry) {
+      return null
+    }
+    if (!this._background) {
+      const freshness = httpCacheFreshness(entry)
+      if (freshness === 'fresh') {
+        return httpCacheEntryToResponse(entry)
+      }
+      if (freshness === 'stale') {
+        this._revalidateInBackground(storage, key)
+        return httpCacheEntryToResponse(entry)
+      }
+    }
+    if (entry.etag) {
+      this.headers.set('if-none-match', entry.etag)
+    }
+    if (entry.lastModified) {
+      this.headers.set('if-modified-since', entry.lastModified)
+    }
+    return null
+  }
+
+  /**
+   * Удаляет заголовки условного запроса и возвратит `true`, если хотя бы один из них был установлен.
+   */
+  protected _deleteConditionalHeaders (): boolean {
+    const headers = this.headers
+    const found = headers.has('if-none-match') || headers.has('if-modified-since')
+    headers.delete('if-none-match')
+    headers.delete('if-modified-since')
+    return found
+  }
+
+  /**
+   * Сохраняет ответ в кеш. Ответ `304` заменяется ранее сохраненным ответом.
+   *
+   * Ошибки хранилища игнорируются, исключение вызывает только чтение тела ответа.
+   */
+  protected async _writeCache (storage: HttpCacheStorageLike, key: string, response: Response): Promise<Response> {
+    const maxAge = this._config.cache!.maxAge
+    if (response.status === 304 && this._cacheEntry) {
+      const entry = refreshHttpCacheEntry(this._cacheEntry, response, maxAge)
+      await _tryWriteStorage(() => storage.set(key, entry))
+      return httpCacheEntryToResponse(entry)
+    }
+    if (!isCacheableResponse(response)) {
+      if (response.status === 200) {
+        await _tryWriteStorage(() => storage.delete(key))
+      }
+      return response
+    }
+    const entry = createHttpCacheEntry(response, await response.arrayBuffer(), maxAge, this.headers)
+    await _tryWriteStorage(() => storage.set(key, entry))
+    return httpCacheEntryToResponse(entry)
+  }
+
+  /**
+   * Запускает фоновую проверку устаревшей записи кеша. Результат проверки сохраняется в хранилище и не передается
+   * обработчику {@link EndpointHttpConfig.handler}.
+   */
+  protected _revalidateInBackground (storage: HttpCacheStorageLike, key: string): void {
+    let keys = _revalidating.get(storage)
+    if (!keys) {
+      keys = new Set()
+      _revalidating.set(storage, keys)
+    }
+    if (keys.has(key)) {
+      return
+    }
+    keys.add(key)
+    const ctx = new HttpContext<TIn, TOut>(this._config, {
+      method: this._method,
+      path: this._path,
+      data: this._inputValue,
+      options: this._options,
+      overrides: this._overrides
+    })
+    ctx._background = true
+    Promise.resolve(ctx.result()).then(() => keys.delete(key))
+  }
+
   protected _retry (): void {
     // Этап _stage проверяется в _execute() и здесь это делать необязательно.
     // Если задача выполняется без очередности, то в AsyncQueue она уже завершена
     if (this._config.queue && this._config.queueUnordered) {
+      this._timing('queued')
       this._config.queue.add(() => this._execute(), MAX_QUEUE_PRIORITY, this._abortControl?.signal)
     }
     // ... иначе продолжаем выполнение - очередь ждет разрешения Promise или ее вообще нет
@@ -146,6 +519,7 @@ class HttpContext<TIn, TOut> extends HttpContextLike<TOut> {
 
   protected _handleError (error: any, type: 0 | 1 | 2): void {
     clearTimeout(this._retryId)
+    this._timing(null)
     // Установка _status подразумевает вызов _handleResult() и все дальнейшие действия должны быть проигнорированы
     if (this._status !== REQUEST_STATUSES.none) {
       return
@@ -161,21 +535,81 @@ class HttpContext<TIn, TOut> extends HttpContextLike<TOut> {
         this._handleAbortError(INTERRUPT_CONTROLLER_EXIT_STATUSES.abort, error)
       }
     }
-    // Если это вызов fetch()(type === 0) и разрешены повторы, не прерываем запрос
-    else if (type === 0 && this._stage !== REQUEST_STAGES.finished && this._config.retries && this._config.retries > this._attempt) {
-      this._stage = REQUEST_STAGES.started
-      const delay = this._config.retryDelay?.(this._attempt) ?? 0
-      this._retryId = setTimeout(() => this._retry(), delay)
+    // Если разрешены повторы и политика допускает ошибку, не прерываем запрос
+    else if (type !== 1 && this._stage !== REQUEST_STAGES.finished && this._params.retries && this._params.retries > this._attempt) {
+      const delay = this._getRetryDelay(error, type)
+      if (delay === null) {
+        this._handleErrorWithoutRetry(error, type)
+      }
+      else {
+        this._stage = REQUEST_STAGES.started
+        // Ошибка postprocessor возникает после отключения timeout, повторная попытка должна прерываться по оставшемуся времени
+        this._abortControl?.enableTimeout()
+        this._retryId = setTimeout(() => this._retry(), delay)
+      }
     }
     else {
-      const e = (error instanceof ApiRouterError)
-        ? error
-        : new SendError(errorDetails.SendError('HttpContext. Ошибка выполнения запроса.', error))
-      e.detail.url = this.url.toString()
-      this._handleResult(REQUEST_STATUSES.error, { ok: false, value: null, error: e })
+      this._handleErrorWithoutRetry(error, type)
     }
   }
 
+  /**
+   * Возвращает задержку перед повтором запроса или `null`, если повтор недопустим.
+   *
+   * Без {@link EndpointHttpConfig.retryPolicy} повторяются только ошибки `executor`(type:0). Заголовок ответа
+   * `Retry-After` имеет приоритет над {@link EndpointHttpConfig.retryDelay}.
+   */
+  protected _getRetryDelay (error: any, type: 0 | 2): null | number {
+    const policy = this._config.retryPolicy
+    if (!policy) {
+      return type === 0 ? this._nextRetryDelay() : null
+    }
+    if (!policy.isRetryableMethod(this._method) || !policy.isRetryableError(error, type)) {
+      return null
+    }
+    const delay = parseRetryAfter(this._response?.headers.get('retry-after')) ?? this._nextRetryDelay()
+    if (policy.maxRetryTime && (Date.now() - this._startTime + delay) > policy.maxRetryTime) {
+      return null
+    }
+    return delay
+  }
+
+  /**
+   * Вычисляет задержку {@link EndpointHttpConfig.retryDelay} и запоминает ее для следующей попытки.
+   */
+  protected _nextRetryDelay (): number {
+    return (this._lastRetryDelay = this._config.retryDelay?.(this._attempt, this._lastRetryDelay) ?? 0)
+  }
+
+  protected _handleErrorWithoutRetry (error: any, type: 0 | 1 | 2): void {
+    // Обработчики ошибок применяются только после executor(включительно) и не влияют на ошибки preprocessor
+    if (type !== 1 && this._config.errorprocessor) {
+      // Исключение цепочки не должно стать необработанным отклонением Promise
+      this._runErrorMiddleware(this._config.errorprocessor, error).catch((e) => this._handleFinalError(e))
+    }
+    else {
+      this._handleFinalError(error)
+    }
+  }
+
+  protected _handleFinalError (error: any): void {
+    const e = (error instanceof ApiRouterError)
+      ? error
+      : new SendError(errorDetails.SendError('HttpContext. Ошибка выполнения запроса.', error))
+    e.detail.url = this.url.toString()
+    this._handleResult(REQUEST_STATUSES.error, { ok: false, value: null, error: e })
+  }
+
+  /**
+   * Передает ошибку и текущее значение в цепочку {@link EndpointHttpConfig.errorprocessor}. Значением для ошибок
+   * `postprocessor` обычно является `Response`.
+   */
+  protected async _runErrorMiddleware (mw: TMiddlewareRef<any, any>, error: any): Promise<void> {
+    const e = await middlewareProcessError(this, mw, this._currentValue, error)
+    // За время обработки запрос мог быть прерван и _handleResult() проигнорирует повторную установку результата
+    this._handleFinalError(e)
+  }
+
   /**
    * Возвратит результат наличия ошибки, то есть `true` - это ошибка.
    */
@@ -211,14 +645,23 @@ class HttpContext<TIn, TOut> extends HttpContextLike<TOut> {
     if (this._stage !== REQUEST_STAGES.started || this._status !== REQUEST_STATUSES.none) {
       return
     }
+    this._timing(null)
     this._stage = REQUEST_STAGES.preprocessing
     // Сбросим, возможно это был _retry() и middleware должны обработать параметры с самого начала.
     if (this._attempt) {
       this._headers = null
       this._requestInit = null
       this._url = null
+      this._response = null
+      this._cacheEntry = null
+      // Поток прошлой попытки не будет возвращен, новую попытку удерживает только ее собственный postprocessor
+      this._streamHold = null
+    }
+    else {
+      this._startTime = Date.now()
     }
     this._attempt++
+    this._attemptCount++
 
     // Для запросов GET этот параметр игнорируется, но может использоваться в middleware
     this._currentValue = this._inputValue
@@ -239,17 +682,49 @@ class HttpContext<TIn, TOut> extends HttpContextLike<TOut> {
     }
 
     this._stage = REQUEST_STAGES.pending
-    if (await this._processMiddleware(this._config.executor.ref, 0)) {
-      // Повторные попытки допускаются только при сетевых ошибках - ошибки клиентских middleware игнорируются
+    this._timing('fetching')
+    // Кеш может вернуть сохраненный ответ без вызова executor
+    const storage = this._cacheStorage()
+    const cacheKey = storage ? this.url.toString() : ''
+    const cached = storage ? await this._readCache(storage, cacheKey) : null
+    if (cached) {
+      this._currentValue = cached
+    }
+    else if (!this._breakerAcquired && this._rejectByBreaker()) {
+      // Выключатель проверяется после кеша, разомкнутая цепь не отклоняет запросы со свежей записью
+      return
+    }
+    else if (await this._processMiddleware(this._config.executor.ref, 0)) {
       // Ошибка с параметром type:0 проверит - можно ли повторить запрос
       return
     }
+    // Ответ 304 на условные заголовки, установленные не кешем, нечем заменить - повторим запрос без них
+    if (storage && !cached && !this._cacheEntry && (this._currentValue instanceof Response) && this._currentValue.status === 304 && this._deleteConditionalHeaders()) {
+      if (await this._processMiddleware(this._config.executor.ref, 0)) {
+        return
+      }
+    }
     // После получения результата отключаем прерывание по timeout
     this._abortControl?.disableTimeout()
+    if (storage && !cached && (this._currentValue instanceof Response)) {
+      try {
+        this._currentValue = await this._writeCache(storage, cacheKey, this._currentValue)
+      } catch (e) {
+        // Ошибки хранилища игнорируются в _writeCache(), здесь это может быть только ошибка чтения тела ответа
+        this._handleError(e, 0)
+        return
+      }
+    }
+    // Ответ сохраняется для политики повторов, которой может потребоваться заголовок Retry-After
+    if (this._currentValue instanceof Response) {
+      this._response = this._currentValue
+    }
 
     this._stage = REQUEST_STAGES.postprocessing
+    this._timing('postprocessing')
     if (this._config.postprocessor) {
       if (await this._runMiddleware(this._config.postprocessor, 2)) {
+        // Ошибка с параметром type:2 может быть повторена, если это разрешено политикой retryPolicy
         return
       }
     }
@@ -301,6 +776,7 @@ class HttpContext<TIn, TOut> extends HttpContextLike<TOut> {
   }
 
   protected _addToQueue (queue: AsyncQueue): void {
+    this._timing('queued')
     // Для очереди выясняем: нужна ли нам очередность?
     const task = this._config.queueUnordered
       ? (() => this._execute())
@@ -309,16 +785,23 @@ class HttpContext<TIn, TOut> extends HttpContextLike<TOut> {
         // Очередь будет ждать полного разрешения результата, даже если this._execute() придется вызывать несколько раз
         return this._getResultPromise()
       })
-    queue.add(task, this._config.queuePriority ?? 0 as TNonNegInteger, this._abortControl?.signal)
+    queue.add(task, this._params.queuePriority ?? 0 as TNonNegInteger, this._abortControl?.signal)
   }
 
   async run (): Promise<void> {
     if (this._stage === REQUEST_STAGES.none) {
       this._stage = REQUEST_STAGES.started
       await Promise.resolve()
-      if ((this._abortSignal || this._config.timeout) && this._initAbortSignal(this._abortSignal, this._config.timeout)) {
+      if ((this._abortSignal || this._params.timeout) && this._initAbortSignal(this._abortSignal, this._params.timeout)) {
         // _initAbortSignal() сама вызовет пользовательский обработчик
       }
+      else if (this._joinInflight()) {
+        // Результат будет получен от общего запроса
+      }
+      else if (!this._config.cache && this._rejectByBreaker()) {
+        // Разомкнутый выключатель не допускает запрос в очередь и к executor. С кешем проверка выполняется в _execute(),
+        // так как ответ может быть получен из кеша
+      }
       else if (this._config.queue) {
         this._addToQueue(this._config.queue)
       }
@@ -0,0 +1,186 @@
+import { test, expect, vi, afterEach } from 'vitest'
+import { AbortError, SendError, UnpackError } from '../errors.js'
+import type { ApiRouterError } from '../errors.js'
+import type { TResponse } from '../types.js'
+import type { TEndpointSseConfig, EndpointSseConfig } from '../configs/EndpointSseConfig.js'
+import { ContextFactoryLike } from '../interfaces/ContextLike.js'
+import type { TSseEvent } from '../libs/SseParser.js'
+import { Environment } from '../Environment.js'
+import { Endpoints } from '../Endpoints.js'
+import { type TSseContextOptions, SseContext } from './SseContext.js'
+
+const eventStream = { 'content-type': 'text/event-stream' }
+
+function streamOf (chunks: string[], keepOpen?: boolean, onCancel?: () => void): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream<Uint8Array>({
+    start (controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk))
+      }
+      if (!keepOpen) {
+        controller.close()
+      }
+    },
+    cancel () {
+      onCancel?.()
+    }
+  })
+}
+
+/**
+ * Заменяет `fetch()` очередью ответов и запоминает заголовки каждого вызова.
+ */
+function mockFetch (...replies: (() => Response | Promise<Response>)[]) {
+  const calls: Headers[] = []
+  vi.spyOn(globalThis, 'fetch').mockImplementation((_input, init) => {
+    calls.push(new Headers(init?.headers))
+    const reply = replies[Math.min(calls.length, replies.length) - 1]!
+    return Promise.resolve().then(reply)
+  })
+  return calls
+}
+
+// Контексты созданные конечными точками, для доступа к close() и result()
+const contexts: SseContext<any>[] = []
+class CapturedSseContextFactory extends ContextFactoryLike<SseContext<any>, EndpointSseConfig<any>, TSseContextOptions> {
+  readonly kind = SseContext.kind
+
+  create (endpoint: EndpointSseConfig<any>, options: TSseContextOptions): SseContext<any> {
+    const ctx = new SseContext(endpoint, options)
+    contexts.push(ctx)
+    return ctx
+  }
+}
+
+function createEndpoints (config: Omit<TEndpointSseConfig, 'kind' | 'path' | 'handler'>) {
+  const events: TSseEvent[] = []
+  const errors: ApiRouterError[] = []
+  let onEvent: null | ((event: TSseEvent) => void) = null
+  let resolve: (error: ApiRouterError) => void
+  const closed = new Promise<ApiRouterError>((ok) => resolve = ok)
+
+  class EndpointsImpl extends Endpoints<'EVENTS'> {
+    readonly EVENTS: TEndpointSseConfig = { ...config, kind: 'sse', path: 'events', handler: 'onEvent', context: new CapturedSseContextFactory() }
+
+    constructor() {
+      super(new Environment(), { path: 'http://localhost/api' }, true)
+    }
+
+    onEvent (ok: boolean, event: null | TSseEvent, error?: null | ApiRouterError): void {
+      if (ok) {
+        events.push(event!)
+        onEvent?.(event!)
+      }
+      else {
+        errors.push(error!)
+        resolve(error!)
+      }
+    }
+  }
+
+  return {
+    endpoints: new EndpointsImpl(),
+    events,
+    errors,
+    closed,
+    onEvent: (fn: (event: TSseEvent) => void) => onEvent = fn
+  }
+}
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  contexts.length = 0
+})
+
+test('SseContext: reconnects with Last-Event-ID and the server retry', async () => {
+  const calls = mockFetch(
+    () => new Response(streamOf(['retry: 20\nid: 1\ndata: a\n\n']), { headers: eventStream }),
+    () => new Response(streamOf(['id: 2\ndata: b\n\n'], true), { headers: eventStream })
+  )
+  // Поле retry сервера имеет приоритет над retryDelay
+  const { endpoints, events, errors, closed, onEvent } = createEndpoints({ retryDelay: 10000 })
+  const controller = new AbortController()
+  onEvent(() => events.length === 2 && controller.abort())
+
+  const start = Date.now()
+  expect(endpoints.exec('EVENTS', { method: 'GET', abortSignal: controller.signal })).toBeUndefined()
+  expect(await closed).toBeInstanceOf(AbortError)
+  expect(Date.now() - start).toBeLessThan(1000)
+  expect(events).toStrictEqual([
+    { type: 'message', data: 'a', lastEventId: '1', retry: 20 },
+    { type: 'message', data: 'b', lastEventId: '2', retry: null }
+  ])
+  expect(errors.length).toBe(1)
+  expect(calls.length).toBe(2)
+  expect(calls[0]!.get('accept')).toBe('text/event-stream')
+  expect(calls[0]!.has('last-event-id')).toBe(false)
+  expect(calls[1]!.get('last-event-id')).toBe('1')
+  expect(contexts[0]!.lastEventId).toBe('2')
+  expect(await contexts[0]!.result()).toMatchObject({ ok: false, error: errors[0] })
+})
+
+test('SseContext: retries limit', async () => {
+  const calls = mockFetch(() => Promise.reject(new TypeError('Failed to fetch')))
+  const { endpoints, closed } = createEndpoints({ retries: 2, retryDelay: 10 })
+
+  endpoints.exec('EVENTS', { method: 'GET' })
+  const error = await closed
+  expect(error).toBeInstanceOf(SendError)
+  // Первая попытка и два повтора
+  expect(calls.length).toBe(3)
+})
+
+test('SseContext: 204 ends the stream', async () => {
+  const calls = mockFetch(() => new Response(null, { status: 204 }))
+  const { endpoints, errors } = createEndpoints({ retryDelay: 10 })
+
+  endpoints.exec('EVENTS', { method: 'GET' })
+  const result: TResponse<null> = await contexts[0]!.result()
+  expect(result).toStrictEqual({ ok: true, value: null, error: null })
+  await new Promise((resolve) => setTimeout(resolve, 50))
+  expect(calls.length).toBe(1)
+  expect(errors).toStrictEqual([])
+})
+
+test('SseContext: unexpected Content-Type', async () => {
+  const calls = mockFetch(() => new Response('{}', { headers: { 'content-type': 'application/json' } }))
+  const { endpoints, closed } = createEndpoints({ retryDelay: 10 })
+
+  endpoints.exec('EVENTS', { method: 'GET' })
+  const error = await closed
+  expect(error).toBeInstanceOf(UnpackError)
+  expect(error.detail.url).toBe('http://localhost/api/events')
+  expect(calls.length).toBe(1)
+})
+
+test('SseContext: close() and abortSignal', async () => {
+  let cancelled = 0
+  const calls = mockFetch(() => new Response(streamOf(['data: a\n\n'], true, () => ++cancelled), { headers: eventStream }))
+
+  // close() во время чтения потока отменяет чтение тела ответа
+  const opened = createEndpoints({ retryDelay: 10 })
+  opened.onEvent(() => contexts[0]!.close())
+  opened.endpoints.exec('EVENTS', { method: 'GET' })
+  expect(await opened.closed).toBeInstanceOf(AbortError)
+  expect(contexts[0]!.isCancelled()).toBe(true)
+  expect(cancelled).toBe(1)
+  expect(opened.events.length).toBe(1)
+
+  // abortSignal во время ожидания переподключения не открывает новое соединение
+  vi.restoreAllMocks()
+  const retries = mockFetch(() => new Response(streamOf(['data: b\n\n']), { headers: eventStream }))
+  const waiting = createEndpoints({ retryDelay: 10000 })
+  const controller = new AbortController()
+  waiting.onEvent(() => setTimeout(() => controller.abort(), 20))
+  waiting.endpoints.exec('EVENTS', { method: 'GET', abortSignal: controller.signal })
+  expect(await waiting.closed).toBeInstanceOf(AbortError)
+  expect(retries.length).toBe(1)
+  expect(calls.length).toBe(1)
+
+  // Прерванный до запуска сигнал не открывает соединение
+  const aborted = createEndpoints({})
+  aborted.endpoints.exec('EVENTS', { method: 'GET', abortSignal: AbortSignal.abort() })
+  expect(await aborted.closed).toBeInstanceOf(AbortError)
+  expect(retries.length).toBe(1)
+})
@@ -0,0 +1,380 @@
+import {
+  errorDetails,
+  ApiRouterError,
+  StatusError,
+  UnpackError,
+  SendError,
+  AbortError,
+  TimeoutError
+} from '../errors.js'
+import { type TResponse, uselessFunctionStub_ } from '../types.js'
+import { type TRequestStage, type TRequestStatus, PASSTHROUGH_MARKER, REQUEST_STAGES, REQUEST_STATUSES, ContextLike } from '../interfaces/ContextLike.js'
+import { SubscriberOptimizer } from '../libs/SubscriberOptimizer.js'
+import { mediaTypeOf } from '../libs/BodySerializer.js'
+import { type TSseEvent, SseParser } from '../libs/SseParser.js'
+import { type TUrlComponents, type MutableUrl, useUrlComponents } from '../configs/UrlConfig.js'
+import type { EndpointSseConfig } from '../configs/EndpointSseConfig.js'
+import type { THttpRequestMethod } from '../configs/types.js'
+import type { MutableHeaders } from '../configs/HeadersConfig.js'
+import { MutableRequestInit } from '../configs/RequestInitConfig.js'
+import type { TMiddlewareRef } from '../middlewares/Middleware.js'
+import type { THttpContextOptions } from './Context.js'
+
+/**
+ * Задержка переподключения по умолчанию, если сервер не передал поле `retry` и не задан параметр `retryDelay`.
+ */
+const SSE_DEFAULT_RETRY_DELAY = 3000
+
+/**
+ * Параметры контекста {@link SseContext}.
+ */
+interface TSseContextOptions extends Omit<THttpContextOptions, 'method' | 'overrides'> {
+  /**
+   * Метод запроса. По умолчанию `GET`.
+   */
+  method?: undefined | null | THttpRequestMethod
+  /**
+   * Идентификатор последнего полученного события для возобновления потока в заголовке `Last-Event-ID`.
+   */
+  lastEventId?: undefined | null | string
+}
+
+/**
+ * Контекст потока Server-Sent Events.
+ *
+ * Соединение открывается основным исполнителем конфигурации, как обычный `http` запрос, и остается открытым до
+ * прерывания пользовательским `abortSignal` или {@link close()}. Каждое событие {@link TSseEvent} проходит через
+ * `postprocessor` и доставляется обработчику `handler(true, value, null, requestId)`, ошибки постобработки
+ * доставляются как `handler(false, null, error, requestId)` и не прерывают поток.
+ *
+ * После разрыва соединения или ошибки сети контекст переподключается с заголовком `Last-Event-ID` через время из
+ * поля `retry` сервера, параметра `retryDelay` или {@link SSE_DEFAULT_RETRY_DELAY}. Ответы со статусом ошибки или
+ * без `Content-Type: text/event-stream` завершают поток ошибкой, ответ `204` завершает поток без ошибки.
+ */
+class SseContext<TOut = TSseEvent> extends ContextLike<EndpointSseConfig<TOut>, null> {
+  static get kind (): 'sse' { return 'sse' }
+  get kind (): 'sse' { return 'sse' }
+
+  protected readonly _config: EndpointSseConfig<TOut>
+  protected readonly _method: THttpRequestMethod
+  protected readonly _options: undefined | null | Record<string, any>
+  protected readonly _requestId: undefined | null | number | symbol | string
+  protected readonly _path: undefined | null | string | TUrlComponents
+  protected readonly _inputValue: null | any
+  protected readonly _abortSignal: null | AbortSignal
+  protected readonly _parser: SseParser
+  protected _stage: TRequestStage = REQUEST_STAGES.none
+  protected _status: TRequestStatus = REQUEST_STATUSES.none
+  // Неудачные попытки соединения подряд, сбрасываются после успешного соединения
+  protected _failures = 0
+  protected _lastRetryDelay = 0
+  protected _result: null | TResponse<null> = null
+  protected _resultPromise: null | { promise: Promise<any>, resolve: ((_: TResponse<null>) => any) } = null
+  // Контроллер текущей попытки соединения
+  protected _attemptControl: null | AbortController = null
+  protected _reader: null | ReadableStreamDefaultReader<Uint8Array> = null
+  protected _reconnectId: ReturnType<typeof setTimeout> = undefined as any
+  protected _url: null | MutableUrl = null
+  protected _requestInit: null | MutableRequestInit = null
+  protected _headers: null | MutableHeaders = null
+
+  protected readonly _onAbort = () => {
+    this.close(this._abortSignal!.reason)
+  }
+
+  /**
+   * @param config  Конфигурация `Endpoint`.
+   * @param options Пользовательские опции.
+   */
+  constructor(
+    config: EndpointSseConfig<TOut>,
+    options: TSseContextOptions
+  ) {
+    super()
+    this._config = config
+    this._method = options.method ?? 'GET'
+    this._options = options.options
+    this._requestId = options.requestId
+    this._path = options.path
+    this._inputValue = options.data ?? null
+    this._abortSignal = options.abortSignal ?? null
+    this._parser = new SseParser(options.lastEventId)
+  }
+
+  get config (): EndpointSseConfig<TOut> {
+    return this._config
+  }
+
+  get method (): THttpRequestMethod {
+    return this._method
+  }
+
+  get options (): null | Record<string, any> {
+    return this._options ?? null
+  }
+
+  get requestId (): null | number | symbol | string {
+    return this._requestId ?? null
+  }
+
+  get stage (): TRequestStage {
+    return this._stage
+  }
+
+  get status (): TRequestStatus {
+    return this._status
+  }
+
+  get url (): MutableUrl {
+    return this._url ?? (this._url = this._config.url.toMutable())
+  }
+
+  get requestInit (): MutableRequestInit {
+    return this._requestInit ?? (this._requestInit = new MutableRequestInit(this._config.requestInit.requestInitBase, this._method, this.headers))
+  }
+
+  get headers (): MutableHeaders {
+    return this._headers ?? (this._headers = this._config.headers.toMutable())
+  }
+
+  get abortSignal (): null | AbortSignal {
+    return this._attemptControl?.signal ?? null
+  }
+
+  /**
+   * Идентификатор последнего полученного события.
+   */
+  get lastEventId (): string {
+    return this._parser.lastEventId
+  }
+
+  passthrough (): any {
+    return PASSTHROUGH_MARKER
+  }
+
+  isCancelled (): boolean {
+    return this._stage === REQUEST_STAGES.finished
+  }
+
+  /**
+   * Закрывает поток. Обработчик получит ошибку {@link AbortError}.
+   *
+   * @param reason Необязательная причина закрытия.
+   */
+  close (reason?: any): void {
+    if (this._stage === REQUEST_STAGES.finished) {
+      return
+    }
+    const error = (reason instanceof AbortError) ? reason : new AbortError(errorDetails.AbortError('Поток Server-Sent Events закрыт пользователем.', reason))
+    error.detail.url = this.url.toString()
+    this._handleResult(REQUEST_STATUSES.aborted, { ok: false, value: null, error })
+  }
+
+  protected _getResultPromise (): Promise<TResponse<null>> {
+    if (!this._resultPromise) {
+      let resolve: ((_: TResponse<null>) => any)
+      const promise = new Promise<TResponse<null>>((ok) => resolve = ok)
+      this._resultPromise = { promise, resolve: resolve! }
+    }
+    return this._resultPromise.promise
+  }
+
+  protected _handleResult (status: TRequestStatus, result: TResponse<null>): void {
+    if (this._stage === REQUEST_STAGES.finished) {
+      return
+    }
+    this._stage = REQUEST_STAGES.finished
+    this._status = status
+    this._result = result
+    clearTimeout(this._reconnectId)
+    this._abortSignal?.removeEventListener('abort', this._onAbort)
+    this._attemptControl?.abort(result.error)
+    // Тело ответа может быть не связано с сигналом исполнителя
+    this._reader?.cancel().catch(uselessFunctionStub_)
+    this._resultPromise?.resolve(result)
+    if (result.error) {
+      SubscriberOptimizer.safe(this._config.handler, false, null, result.error, this._requestId)
+    }
+  }
+
+  protected _handleFinalError (error: any): void {
+    const e = (error instanceof ApiRouterError)
+      ? error
+      : new SendError(errorDetails.SendError('SseContext. Ошибка выполнения запроса.', error))
+    e.detail.url ??= this.url.toString()
+    this._handleResult(REQUEST_STATUSES.error, { ok: false, value: null, error: e })
+  }
+
+  protected async _runMiddleware (mw: TMiddlewareRef<any, any>, value: any): Promise<any> {
+    for (const item of (mw.iterable ? mw.ref : [mw.ref])) {
+      const v = await item.process(this, value)
+      if (v !== PASSTHROUGH_MARKER) {
+        value = v
+      }
+    }
+    return value
+  }
+
+  /**
+   * Планирует переподключение. Ошибка `error` учитывается как неудачная попытка соединения и завершает поток, если
+   * превышен лимит `retries`.
+   */
+  protected _reconnect (error: null | any): void {
+    if (this._stage === REQUEST_STAGES.finished) {
+      return
+    }
+    if (error) {
+      ++this._failures
+      if (this._config.retries !== null && this._failures > this._config.retries) {
+        this._handleFinalError(error)
+        return
+      }
+    }
+    const delay = this._parser.retry ?? this._config.retryDelay?.(Math.max(1, this._failures), this._lastRetryDelay) ?? SSE_DEFAULT_RETRY_DELAY
+    this._lastRetryDelay = delay
+    this._stage = REQUEST_STAGES.started
+    this._reconnectId = setTimeout(() => this._connect(), delay)
+  }
+
+  /**
+   * Открывает соединение и читает поток до разрыва.
+   */
+  protected async _connect (): Promise<void> {
+    if (this._stage !== REQUEST_STAGES.started) {
+      return
+    }
+    // Каждая попытка начинается с параметров конфигурации
+    this._headers = null
+    this._requestInit = null
+    this._url = null
+    const control = this._attemptControl = new AbortController()
+
+    this._stage = REQUEST_STAGES.preprocessing
+    let value = this._inputValue
+    try {
+      if (this._config.preprocessor) {
+        value = await this._runMiddleware(this._config.preprocessor, value)
+      }
+      if (this._path) {
+        useUrlComponents(this.url, this._path)
+      }
+      if (!this.headers.has('accept')) {
+        this.headers.set('accept', 'text/event-stream')
+      }
+      if (this._parser.lastEventId) {
+        this.headers.set('last-event-id', this._parser.lastEventId)
+      }
+      this.requestInit._setAbortSignal(control.signal)
+    } catch (e) {
+      this._handleFinalError(e)
+      return
+    }
+    if (this.isCancelled()) {
+      return
+    }
+
+    this._stage = REQUEST_STAGES.pending
+    let response: Response
+    // Параметр timeout ограничивает только ожидание ответа сервера
+    const timeout = this._config.timeout
+    const tid = timeout ? setTimeout(() => control.abort(new TimeoutError(errorDetails.TimeoutError('Прерывание соединения по timeout.'))), timeout) : undefined
+    try {
+      response = await this._config.executor.ref.process(this, value)
+    } catch (e) {
+      this._reconnect(control.signal.aborted ? control.signal.reason : e)
+      return
+    } finally {
+      clearTimeout(tid)
+    }
+    if (this.isCancelled()) {
+      return
+    }
+    if (response.status === 204) {
+      this._handleResult(REQUEST_STATUSES.ok, { ok: true, value: null, error: null })
+      return
+    }
+    if (!response.ok) {
+      this._handleFinalError(new StatusError(errorDetails.StatusError(response.status, this.url.toString())))
+      return
+    }
+    const contentType = response.headers.get('content-type')
+    if (!contentType || mediaTypeOf(contentType) !== 'text/event-stream' || !response.body) {
+      const detail = errorDetails.UnpackError(`Ожидался 'text/event-stream', получен 'Content-Type: ${contentType}'.`)
+      detail.url = this.url.toString()
+      this._handleFinalError(new UnpackError(detail))
+      return
+    }
+
+    this._failures = 0
+    this._stage = REQUEST_STAGES.postprocessing
+    this._parser.reset()
+    const reader = this._reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let readError: null | any = null
+    try {
+      while (true) {
+        const chunk = await reader.read()
+        if (this.isCancelled() || chunk.done) {
+          break
+        }
+        for (const event of this._parser.push(decoder.decode(chunk.value, { stream: true }))) {
+          await this._dispatch(event)
+          if (this.isCancelled()) {
+            break
+          }
+        }
+      }
+    } catch (e) {
+      readError = e
+    } finally {
+      this._reader = null
+      reader.cancel().catch(uselessFunctionStub_)
+    }
+    // Разрыв соединения сервером не является неудачной попыткой, ошибка чтения - является
+    this._reconnect(readError)
+  }
+
+  protected async _dispatch (event: TSseEvent): Promise<void> {
+    let value: any = event
+    if (this._config.postprocessor) {
+      try {
+        value = await this._runMiddleware(this._config.postprocessor, event)
+      } catch (e) {
+        const error = (e instanceof ApiRouterError) ? e : new UnpackError(errorDetails.UnpackError('SseContext. Постобработка события завершилась ошибкой.', e))
+        error.detail.url ??= this.url.toString()
+        SubscriberOptimizer.safe(this._config.handler, false, null, error, this._requestId)
+        return
+      }
+    }
+    if (!this.isCancelled()) {
+      SubscriberOptimizer.safe(this._config.handler, true, value, null, this._requestId)
+    }
+  }
+
+  async run (): Promise<void> {
+    if (this._stage === REQUEST_STAGES.none) {
+      this._stage = REQUEST_STAGES.started
+      await Promise.resolve()
+      if (this._abortSignal?.aborted) {
+        this.close(this._abortSignal.reason)
+        return
+      }
+      this._abortSignal?.addEventListener('abort', this._onAbort, { once: true })
+      this._connect()
+    }
+  }
+
+  /**
+   * Результат завершения потока: `ok:true` после ответа `204`, иначе ошибка закрытия или соединения.
+   */
+  result (): TResponse<null> | Promise<TResponse<null>> {
+    this.run()
+    return (this._stage === REQUEST_STAGES.finished) ? this._result! : this._getResultPromise()
+  }
+}
+
+export {
+  SSE_DEFAULT_RETRY_DELAY,
+  type TSseContextOptions,
+  SseContext
+}
@@ -24,10 +24,10 @@ const _errorNames = [
   'ApiRouter.MissingRecipientError', 'ApiRouter.DataTypeError', 'ApiRouter.PackError',
   'ApiRouter.UnpackError', 'ApiRouter.FrameEncodeError', 'ApiRouter.FrameDecodeError',
   'ApiRouter.ConnectionError', 'ApiRouter.SendError', 'ApiRouter.ReceiveError',
-  'ApiRouter.InterruptError', 'ApiRouter.AbortError', 'ApiRouter.TimeoutError'
+  'ApiRouter.CircuitOpenError', 'ApiRouter.InterruptError', 'ApiRouter.AbortError', 'ApiRouter.TimeoutError'
 ] as const
 
-type TErrorName = (typeof _errorNames)[number] // 'ApiRouter.UnknownError' | 'ApiRouter.LogicError' | 'ApiRouter.ConfigureError' | 'ApiRouter.MethodAccessError' | 'ApiRouter.ProtocolError' | 'ApiRouter.StatusError' | 'ApiRouter.MissingRecipientError' | 'ApiRouter.DataTypeError' | 'ApiRouter.PackError' | 'ApiRouter.UnpackError' | 'ApiRouter.FrameEncodeError' | 'ApiRouter.FrameDecodeError' | 'ApiRouter.ConnectionError' | 'ApiRouter.SendError' | 'ApiRouter.ReceiveError' | 'ApiRouter.InterruptError' | 'ApiRouter.AbortError' | 'ApiRouter.TimeoutError'
+type TErrorName = (typeof _errorNames)[number] // 'ApiRouter.UnknownError' | 'ApiRouter.LogicError' | 'ApiRouter.ConfigureError' | 'ApiRouter.MethodAccessError' | 'ApiRouter.ProtocolError' | 'ApiRouter.StatusError' | 'ApiRouter.MissingRecipientError' | 'ApiRouter.DataTypeError' | 'ApiRouter.PackError' | 'ApiRouter.UnpackError' | 'ApiRouter.FrameEncodeError' | 'ApiRouter.FrameDecodeError' | 'ApiRouter.ConnectionError' | 'ApiRouter.SendError' | 'ApiRouter.ReceiveError' | 'ApiRouter.CircuitOpenError' | 'ApiRouter.InterruptError' | 'ApiRouter.AbortError' | 'ApiRouter.TimeoutError'
 
 /**
  * Проверяет, является ли имя ошибки допустимым.
@@ -201,6 +201,13 @@ const errorDetails = Object.freeze({
       cause
     })
   },
+  CircuitOpenError (message?: undefined | null | string, cause?: undefined | null | unknown): IErrorLike {
+    return createErrorLike({
+      name: 'ApiRouter.CircuitOpenError',
+      message,
+      cause
+    })
+  },
   InterruptError (message?: undefined | null | string, cause?: undefined | null | unknown): IErrorLike {
     return createErrorLike({
       name: 'ApiRouter.InterruptError',
@@ -321,6 +328,12 @@ class SendError extends ConnectionError { }
  */
 class ReceiveError extends ConnectionError { }
 
+/**
+ * Запрос отклонен без выполнения, так как автоматический выключатель `CircuitBreaker` разомкнут после серии ошибок
+ * сервера или соединения.
+ */
+class CircuitOpenError extends ConnectionError { }
+
 /**
  * Ошибки связанные с прерывание запросов по любым причинам:
  *
@@ -370,6 +383,7 @@ export {
   ConnectionError,
   SendError,
   ReceiveError,
+  CircuitOpenError,
   // Ошибки прерывания запроса
   InterruptError,
   AbortError,
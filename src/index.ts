@@ -4,6 +4,16 @@ export {
 export {
   ChecksumVerifierXOR8
 } from './checksum/ChecksumVerifierXOR8.js'
+export {
+  type TConfigProvenanceLayer,
+  type TConfigProvenanceMode,
+  type TConfigProvenanceField,
+  type TConfigProvenance,
+  type TConfigProvenanceJsonValue,
+  type TConfigProvenanceJson,
+  explainEndpointConfig,
+  configProvenanceToJson
+} from './configs/ConfigProvenance.js'
 export {
   EndpointConfigBase,
   EndpointPresetConfig,
@@ -13,8 +23,25 @@ export {
 } from './configs/EndpointConfig.js'
 export {
   type TEndpointHttpConfig,
+  type TEndpointRequestConfigRequiredProps,
+  type TEndpointHttpConfigRequiredProps,
+  ensureEndpointRequestConfigRequiredProps,
+  ensureEndpointHttpConfigRequiredProps,
   EndpointHttpConfig
 } from './configs/EndpointHttpConfig.js'
+export {
+  type TManifestPresetConfig,
+  type TManifestEndpointConfig,
+  type TEndpointManifest,
+  type TManifestIssue,
+  type TLoadedEndpointManifest,
+  validateEndpointManifest,
+  loadEndpointManifest
+} from './configs/EndpointManifest.js'
+export {
+  type TEndpointSseConfig,
+  EndpointSseConfig
+} from './configs/EndpointSseConfig.js'
 export {
   type THeadersExtendsMode,
   type THeadersAppendMode,
@@ -34,6 +61,26 @@ export {
   headerRecordTo,
   headersSet
 } from './configs/headersSet.js'
+export {
+  type TOpenApiSchema,
+  type TOpenApiReference,
+  type TOpenApiParameter,
+  type TOpenApiMediaType,
+  type TOpenApiRequestBody,
+  type TOpenApiResponse,
+  type TOpenApiServer,
+  type TOpenApiOperation,
+  type TOpenApiPathItem,
+  type TOpenApiDocument,
+  type TOpenApiImportOptions,
+  type TOpenApiEndpointParam,
+  type TOpenApiEndpoint,
+  type TOpenApiSourceOptions,
+  openApiResponseKind,
+  resolveOpenApiRef,
+  importOpenApi,
+  openApiToEndpointsSource
+} from './configs/OpenApi.js'
 export {
   type IPathComponentsBase,
   type IPathComponentsPath,
@@ -64,7 +111,31 @@ export {
   MutableRequestInit
 } from './configs/RequestInitConfig.js'
 export {
+  type TRetryableErrorClass,
+  type TRetryPolicyOptions,
+  parseRetryAfter,
+  RetryPolicy,
+  retryPolicyOrNull
+} from './configs/RetryPolicy.js'
+export {
+  type TPathSegments,
+  type TPathParamNames,
+  type TPathParams,
+  type TCheckPathTemplate,
+  type TEndpointTypes,
+  type TTypedEndpointHttpConfig,
+  type TTypedHttpContextOptions,
+  type TTypedEndpointResult,
+  type TIsTypedEndpoint,
+  typedEndpoint,
+  typedContextOptionsToContextOptions
+} from './configs/TypedEndpoint.js'
+export {
+  httpRequestMethods,
   type THttpRequestMethod,
+  httpRequestMethodsWithBody,
+  isHttpRequestMethod,
+  isHttpRequestMethodWithBody,
   requestBaseConfigProps,
   type TRequestBaseCongigKey,
   type TRequestBaseInit,
@@ -75,11 +146,18 @@ export {
   type TBaseMiddleware,
   type TResponseHandler,
   type TEndpointBaseConfig,
+  type TEndpointCircuitBreakerOptions,
+  type TEndpointCircuitBreakerNormalizedOptions,
+  type TEndpointDedupeOptions,
+  type TEndpointDedupeNormalizedOptions,
+  type TEndpointCacheOptions,
+  type TEndpointCacheNormalizedOptions,
   type TEndpointPartPathConfig,
   type TEndpointPartRequestInitConfig,
   type TEndpointPartHandlerConfig,
   type TEndpointPartPresetConfig,
   type TEndpointOptionsConfig,
+  type TEndpointPartExtendsConfig,
   type TEndpointPresetConfig,
   type TEndpointNormalizedBaseConfig,
   type TEndpointNormalizedPresetConfig,
@@ -102,7 +180,8 @@ export {
   UrlConfig,
   MutableUrl,
   type TUrlComponents,
-  useUrlComponents
+  useUrlComponents,
+  urlConfigToString
 } from './configs/UrlConfig.js'
 export {
   type TUrlQueryOptions,
@@ -116,17 +195,29 @@ export {
 export {
   createEndpointOptionsConfig,
   createEndpointPresetConfig,
+  resolvePresetConfig,
   extendsEndpointConfigs,
-  buildEndpointConfig
+  traceEndpointConfigs,
+  resolveEndpointPreset,
+  buildEndpointConfig,
+  extendsHttpContextOverrides
 } from './configs/utils.js'
 export {
   ContextRegistry,
   HttpContextLike,
-  type THttpContextOptions
+  type THttpContextOverrides,
+  type THttpContextNormalizedOverrides,
+  type THttpContextOptions,
+  type THttpStreamHold
 } from './contexts/Context.js'
 export {
   HttpContext
 } from './contexts/HttpContext.js'
+export {
+  SSE_DEFAULT_RETRY_DELAY,
+  type TSseContextOptions,
+  SseContext
+} from './contexts/SseContext.js'
 export {
   BINARY_TRANSPORT_EVENT_NAMES,
   type TBinaryTransportEventNames,
@@ -135,6 +226,9 @@ export {
   type TBinaryTransportStateHandler,
   BinaryTransportLike
 } from './interfaces/BinaryTransportLike.js'
+export {
+  BodySerializerLike
+} from './interfaces/BodySerializerLike.js'
 export {
   ChecksumVerifierLike,
   checksumVerifierStub
@@ -151,6 +245,10 @@ export {
   type TContextConstructor,
   ContextFactoryLike
 } from './interfaces/ContextLike.js'
+export {
+  type THttpCacheEntry,
+  HttpCacheStorageLike
+} from './interfaces/HttpCacheStorageLike.js'
 export {
   InstanceFactory
 } from './interfaces/InstanceFactory.js'
@@ -165,6 +263,9 @@ export {
   type TMiddlewareConstructor,
   Middleware
 } from './interfaces/MiddlewareLike.js'
+export {
+  ResponseDecoderLike
+} from './interfaces/ResponseDecoderLike.js'
 export {
   ABORT_ONLY_BEFORE_RESPONSE,
   type TTimeoutControllerCallback,
@@ -176,15 +277,71 @@ export {
 export {
   MIN_QUEUE_PRIORITY,
   MAX_QUEUE_PRIORITY,
+  type TAsyncQueueRateLimit,
+  asyncQueueRateLimitOrNull,
   AsyncQueue,
   NamedAsyncQueue
 } from './libs/AsyncQueue.js'
+export {
+  mediaTypeOf,
+  JsonBodySerializer,
+  FormUrlEncodedBodySerializer,
+  MultipartBodySerializer,
+  BodySerializerRegistry
+} from './libs/BodySerializer.js'
+export {
+  CIRCUIT_BREAKER_STATES,
+  type TCircuitBreakerState,
+  type TCircuitBreakerOptions,
+  type TCircuitBreakerNormalizedOptions,
+  type TCircuitBreakerSnapshot,
+  type TCircuitBreakerListener,
+  normalizeCircuitBreakerOptions,
+  CircuitBreaker,
+  NamedCircuitBreaker
+} from './libs/CircuitBreaker.js'
+export {
+  type TCacheControl,
+  type THttpCacheFreshness,
+  type THttpCacheRequestHeaders,
+  parseCacheControl,
+  isCacheableResponse,
+  httpCacheVaryMatches,
+  createHttpCacheEntry,
+  refreshHttpCacheEntry,
+  httpCacheFreshness,
+  httpCacheEntryToResponse,
+  MemoryCacheStorage,
+  type TLruCacheStorageOptions,
+  LruCacheStorage
+} from './libs/HttpCache.js'
 export {
   JsonBufferCodec
 } from './libs/JsonBufferCodec.js'
+export {
+  parseJsonLine,
+  type TReadJsonLinesOptions,
+  readJsonLines
+} from './libs/JsonLinesStream.js'
 export {
   RegistryBase
 } from './libs/RegistryBase.js'
+export {
+  isMediaTypePattern,
+  matchMediaType,
+  JsonResponseDecoder,
+  TextResponseDecoder,
+  XmlResponseDecoder,
+  FormDataResponseDecoder,
+  NdjsonResponseDecoder,
+  ArrayBufferResponseDecoder,
+  BlobResponseDecoder,
+  ResponseDecoderRegistry
+} from './libs/ResponseDecoder.js'
+export {
+  type TSseEvent,
+  SseParser
+} from './libs/SseParser.js'
 export {
   SubscriberOptimizer
 } from './libs/SubscriberOptimizer.js'
@@ -280,6 +437,9 @@ export {
   isContentTypeImage,
   BlobImageResponseMiddleware
 } from './middlewares/BlobImageResponseMiddleware.js'
+export {
+  DecodeResponseMiddleware
+} from './middlewares/DecodeResponseMiddleware.js'
 export {
   EmptyMiddleware
 } from './middlewares/EmptyMiddleware.js'
@@ -287,12 +447,36 @@ export {
   ErrorFilterMiddleware
 } from './middlewares/ErrorFilterMiddleware.js'
 export {
+  type THarNameValue,
+  type THarRequest,
+  type THarResponse,
+  type THarEntry,
+  type THar,
+  HarRecorder,
+  HarRecordMiddleware,
+  type THarReplayRequest,
+  type THarReplayOptions,
+  HarReplayMiddleware
+} from './middlewares/HarMiddleware.js'
+export {
+  HeadersResponseMiddleware
+} from './middlewares/HeadersResponseMiddleware.js'
+export {
+  setHttpRequestBody,
   HttpRequestMiddleware
 } from './middlewares/HttpRequestMiddleware.js'
 export {
   isJsonContentType,
   JsonResponseMiddleware
 } from './middlewares/JsonResponseMiddleware.js'
+export {
+  type TMockCall,
+  type TMockResponseInit,
+  type TMockReply,
+  type TMockRouteOptions,
+  MockRouteTable,
+  MockRequestMiddleware
+} from './middlewares/MockRequestMiddleware.js'
 export {
   type TMiddlewareDef,
   MIDDLEWARE_REF_MARKER,
@@ -304,9 +488,13 @@ export {
   middlewareRefFromFactory,
   middlewareRefFromIterable,
   isMiddlewareRef,
+  middlewareProcessError,
   MiddlewareIterable,
   MiddlewareRegistry
 } from './middlewares/Middleware.js'
+export {
+  NdjsonStreamMiddleware
+} from './middlewares/NdjsonStreamMiddleware.js'
 export {
   isContentTypeText,
   TextResponseMiddleware
@@ -323,12 +511,22 @@ export {
   WebSocketConnector
 } from './ws/WebSocketConnector.js'
 export {
+  type TEndpointIssue,
+  type TEndpointsReport,
   Endpoints
 } from './Endpoints.js'
+export {
+  ManifestEndpoints
+} from './ManifestEndpoints.js'
+export {
+  type TOpenApiRequestOptions,
+  OpenApiEndpoints
+} from './OpenApiEndpoints.js'
 export {
   type IEnvironment,
   type TEnvironmentCustomOptions,
   type TEnvironmentOptions,
+  type TEnvironmentForkOptions,
   Environment
 } from './Environment.js'
 export {
@@ -354,6 +552,7 @@ export {
   ConnectionError,
   SendError,
   ReceiveError,
+  CircuitOpenError,
   InterruptError,
   AbortError,
   TimeoutError
@@ -389,7 +588,15 @@ export {
   isNumericBool,
   numericBoolOrNull,
   type TFnRetryDelay,
+  type TRetryDelayStrategyName,
+  type TRetryDelayJitter,
+  type TRetryDelayStrategy,
+  type TRetryDelay,
+  createRetryDelayStrategy,
+  isRetryDelayStrategy,
   fnRetryDelayOrNull,
+  type TResponseTimings,
+  type TResponseMeta,
   type TResponse
 } from './types.js'
 export {
@@ -0,0 +1,36 @@
+import {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  type interfaceImplements,
+  interfaceDefineHasInstanceMarker
+} from 'ts-interface-core'
+
+/**
+ * Сериализатор тела запроса для медиа типа {@link mediaType}.
+ *
+ * Сериализатор выбирается параметром конфигурации `serializer` или по заголовку запроса `Content-Type` и применяется
+ * только к значениям, которые не являются {@link BodyInit}.
+ *
+ * **Note:** Этот класс можно реализовать используя {@link interfaceImplements()}.
+ */
+abstract class BodySerializerLike {
+  /**
+   * Медиа тип в нижнем регистре без параметров, например `application/json`. Является ключом реестра сериализаторов.
+   */
+  abstract readonly mediaType: string
+  /**
+   * Значение заголовка `Content-Type`, которое устанавливается запросу, или `null`, если заголовок должен быть удален
+   * и установлен `fetch()`, как это происходит для `multipart/form-data` с границей.
+   */
+  abstract readonly contentType: null | string
+  /**
+   * Приводит данные запроса к телу запроса.
+   *
+   * @param data Данные запроса, не равные `undefined | null`.
+   */
+  abstract serialize (data: any): BodyInit
+}
+interfaceDefineHasInstanceMarker(BodySerializerLike)
+
+export {
+  BodySerializerLike
+}
@@ -0,0 +1,87 @@
+import {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  type interfaceImplements,
+  interfaceDefineHasInstanceMarker
+} from 'ts-interface-core'
+
+/**
+ * Сохраненный ответ сервера.
+ */
+interface THttpCacheEntry {
+  /**
+   * Код статуса ответа.
+   */
+  readonly status: number
+  readonly statusText: string
+  /**
+   * Заголовки ответа.
+   */
+  readonly headers: readonly (readonly [string, string])[]
+  /**
+   * Тело ответа.
+   */
+  readonly body: ArrayBuffer
+  /**
+   * Значение заголовка `ETag` для повторной проверки `If-None-Match`.
+   */
+  readonly etag: null | string
+  /**
+   * Значение заголовка `Last-Modified` для повторной проверки `If-Modified-Since`.
+   */
+  readonly lastModified: null | string
+  /**
+   * Время сохранения или последней успешной проверки ответа в `ms`.
+   */
+  readonly storedAt: number
+  /**
+   * Время в `ms`, в течение которого ответ считается свежим.
+   */
+  readonly maxAge: number
+  /**
+   * Время в `ms` после {@link maxAge}, в течение которого устаревший ответ может быть возвращен с фоновой проверкой.
+   */
+  readonly staleWhileRevalidate: number
+  /**
+   * Значения заголовков запроса, перечисленных в заголовке ответа `Vary`, или `null`, если ответ не зависит от
+   * заголовков запроса. Запись используется только для запроса с такими же значениями.
+   */
+  readonly vary: null | readonly (readonly [string, null | string])[]
+  /**
+   * Приблизительный размер записи в байтах.
+   */
+  readonly size: number
+}
+
+/**
+ * Хранилище кеша ответов `http` запросов.
+ *
+ * Методы могут быть асинхронными, что позволяет реализовать хранилище поверх `IndexedDB` или `Cache API`.
+ *
+ * **Note:** Этот класс можно реализовать используя {@link interfaceImplements()}.
+ */
+abstract class HttpCacheStorageLike {
+  /**
+   * Возвращает запись или `null`, если запись отсутствует. Исключение считается отсутствием записи.
+   *
+   * @param key Ключ записи, обычно это полный `URL` запроса.
+   */
+  abstract get (key: string): null | THttpCacheEntry | Promise<null | THttpCacheEntry>
+  /**
+   * Сохраняет или заменяет запись.
+   */
+  abstract set (key: string, entry: THttpCacheEntry): void | Promise<void>
+  /**
+   * Удаляет запись.
+   */
+  abstract delete (key: string): void | Promise<void>
+  /**
+   * Удаляет все записи.
+   */
+  abstract clear (): void | Promise<void>
+}
+interfaceDefineHasInstanceMarker(HttpCacheStorageLike)
+
+export {
+  type THttpCacheEntry,
+  HttpCacheStorageLike
+}
@@ -0,0 +1,32 @@
+import {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  type interfaceImplements,
+  interfaceDefineHasInstanceMarker
+} from 'ts-interface-core'
+
+/**
+ * Декодер тела ответа.
+ *
+ * Декодеры регистрируются по шаблонам медиа типов и выбираются по заголовку ответа `Content-Type`. Один декодер может
+ * быть зарегистрирован для нескольких шаблонов.
+ *
+ * **Note:** Этот класс можно реализовать используя {@link interfaceImplements()}.
+ */
+abstract class ResponseDecoderLike {
+  /**
+   * Имя декодера, например `json` или `blob`.
+   */
+  abstract readonly kind: string
+  /**
+   * Читает тело ответа. Ошибки чтения будут приведены к {@link UnpackError}.
+   *
+   * @param response    Ответ со статусом `ok`.
+   * @param contentType Значение заголовка `Content-Type`.
+   */
+  abstract decode (response: Response, contentType: string): Promise<any>
+}
+interfaceDefineHasInstanceMarker(ResponseDecoderLike)
+
+export {
+  ResponseDecoderLike
+}
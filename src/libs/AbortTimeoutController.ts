@@ -129,6 +129,7 @@ class AbortTimeoutController extends InterruptControllerLike {
   protected _alive = true
   protected _status: TInterruptControllerExitStatus = INTERRUPT_CONTROLLER_EXIT_STATUSES.none
   protected _tid: ReturnType<typeof setTimeout> = undefined as any
+  protected _deadline = 0
   protected _error: null | AbortError | TimeoutError = null
 
   protected _custom = (reason?: any) => {
@@ -186,6 +187,7 @@ class AbortTimeoutController extends InterruptControllerLike {
     if (nonaborted) {
       this._callback = callback
       if (timeout) {
+        this._deadline = Date.now() + timeout
         this._tid = setTimeout(this._timeout, timeout)
       }
     }
@@ -284,6 +286,19 @@ class AbortTimeoutController extends InterruptControllerLike {
     clearTimeout(this._tid)
   }
 
+  /**
+   * Восстанавливает событие `timeout`, деактивированное {@link disableTimeout()}, на оставшееся от исходного `timeout`
+   * время. Если время уже истекло, событие будет вызвано в ближайшем цикле.
+   *
+   * Используется для ответов, тело которых читается потоком после установки результата.
+   */
+  enableTimeout (): void {
+    clearTimeout(this._tid)
+    if (this._alive && this._deadline > 0) {
+      this._tid = setTimeout(this._timeout, Math.max(0, this._deadline - Date.now()))
+    }
+  }
+
   disable (): void {
     this._alive = false
     this._disableCustomSignal?.()
@@ -2,6 +2,7 @@ import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest'
 import { asyncPause } from 'nodejs-simple-http-server'
 import { type TNonNegInteger, isNonNegInteger } from '../types.js'
 import {
+  asyncQueueRateLimitOrNull,
   AsyncQueue,
   NamedAsyncQueue
 } from './AsyncQueue.js'
@@ -307,6 +308,76 @@ describe('NamedAsyncQueue', () => {
   })
 })
 
+describe('AsyncQueue rate limit', () => {
+  test('asyncQueueRateLimitOrNull', () => {
+    expect(asyncQueueRateLimitOrNull(0)).toBeNull()
+    expect(asyncQueueRateLimitOrNull(1.5)).toBeNull()
+    expect(asyncQueueRateLimitOrNull(2)).toStrictEqual({ tokens: 2, interval: 1000, burst: 2 })
+    expect(asyncQueueRateLimitOrNull(2, 500, 5)).toStrictEqual({ tokens: 2, interval: 500, burst: 5 })
+  })
+
+  test('каждая задача запускается один раз при limit > 1', async () => {
+    const queue = new AsyncQueue('q-concurrency', 2) as _AsyncQueue
+    const calls: number[] = []
+    for (let i = 0; i < 5; ++i) {
+      queue.add(async () => { calls.push(i); await asyncPause(10 + i * 5) }, qPriority())
+    }
+    await asyncPause(200)
+    expect(calls.sort()).toStrictEqual([0, 1, 2, 3, 4])
+    expect(queue._head).toBeNull()
+  })
+
+  test('ограничение частоты и приоритеты', async () => {
+    // 2 задачи за 100ms, limit не ограничивает
+    const queue = new AsyncQueue('q-rate', 100, asyncQueueRateLimitOrNull(2, 100)) as _AsyncQueue
+    const start = Date.now()
+    const started: [string, number][] = []
+    const task = (name: string) => () => { started.push([name, Date.now() - start]) }
+
+    queue.add(task('a'), qPriority())
+    queue.add(task('b'), qPriority())
+    queue.add(task('c'), qPriority())
+    queue.add(task('d'), qPriority())
+    // Задача с высоким приоритетом опередит ожидающие c и d, но не запущенные a и b
+    queue.add(task('high'), qPriority(10))
+
+    await asyncPause(20)
+    expect(started.map(([name]) => name)).toStrictEqual(['a', 'b'])
+
+    await asyncPause(200)
+    expect(started.map(([name]) => name)).toStrictEqual(['a', 'b', 'high', 'c', 'd'])
+    // Третья задача не раньше восполнения одного токена ~50ms
+    expect(started[2]![1]).toBeGreaterThanOrEqual(45)
+    expect(queue._head).toBeNull()
+  })
+
+  test('AbortSignal удаляет ожидающую задачу без расхода токена', async () => {
+    const queue = new AsyncQueue('q-rate-abort', 100, asyncQueueRateLimitOrNull(1, 100))
+    const controller = new AbortController()
+    const started: string[] = []
+
+    queue.add(() => { started.push('a') }, qPriority())
+    queue.add(() => { started.push('aborted') }, qPriority(), controller.signal)
+    queue.add(() => { started.push('b') }, qPriority())
+    controller.abort()
+
+    await asyncPause(150)
+    expect(started).toStrictEqual(['a', 'b'])
+  })
+
+  test('NamedAsyncQueue разделяет ограничение частоты', () => {
+    const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {/**/ })
+    const named = new NamedAsyncQueue()
+    const rate = asyncQueueRateLimitOrNull(5, 1000)
+    const queue = named.getOrCreateQueue('shared', 2, rate)
+    expect(queue.rateLimit).toBe(rate)
+    // Повторное определение игнорируется
+    expect(named.getOrCreateQueue('shared', 2, asyncQueueRateLimitOrNull(10)).rateLimit).toBe(rate)
+    expect(consoleWarnSpy).toHaveBeenCalledTimes(1)
+    consoleWarnSpy.mockRestore()
+  })
+})
+
 describe('AsyncQueue Abort', () => {
   test('deleting a hung task', async () => {
     const result: any[] = []
@@ -1,4 +1,11 @@
-import { type TNonNegInteger, type TPositiveInteger, isNonNegInteger, isPositiveInteger } from '../types.js'
+import {
+  type TNonNegInteger,
+  type TPositiveInteger,
+  type TPositiveNumber,
+  isNonNegInteger,
+  isPositiveInteger,
+  isPositiveNumber
+} from '../types.js'
 import { safeToJson } from '../utils.js'
 
 const MIN_QUEUE_PRIORITY: TNonNegInteger = 0 as TNonNegInteger
@@ -10,6 +17,43 @@ type TNode = {
   prev: null | TNode
   next: null | TNode
   removed?: boolean
+  running?: boolean
+}
+
+/**
+ * Параметры ограничения частоты запуска задач по алгоритму `token bucket`.
+ */
+interface TAsyncQueueRateLimit {
+  /**
+   * Количество задач, которые могут быть запущены за интервал {@link interval}.
+   */
+  readonly tokens: TPositiveInteger
+  /**
+   * Интервал в `ms`, за который восполняется {@link tokens}.
+   */
+  readonly interval: TPositiveNumber
+  /**
+   * Максимальное количество накопленных токенов, которые могут быть израсходованы одновременно.
+   */
+  readonly burst: TPositiveInteger
+}
+
+/**
+ * Нормализует параметры ограничения частоты или возвращает `null`, если `tokens` не является `integer > 0`.
+ *
+ * @param tokens   Количество задач за интервал.
+ * @param interval Интервал в `ms`. По умолчанию `1000`.
+ * @param burst    Максимальное количество накопленных токенов. По умолчанию равно `tokens`.
+ */
+function asyncQueueRateLimitOrNull (tokens: any, interval?: any, burst?: any): null | TAsyncQueueRateLimit {
+  if (!isPositiveInteger(tokens)) {
+    return null
+  }
+  return Object.freeze({
+    tokens,
+    interval: isPositiveNumber(interval) ? interval : (1000 as TPositiveNumber),
+    burst: isPositiveInteger(burst) ? burst : tokens
+  })
 }
 
 class AsyncQueue {
@@ -17,10 +61,17 @@ class AsyncQueue {
   protected _head: null | TNode = null
   protected _limit: TPositiveInteger
   protected _counter: number = 0
+  protected _rateLimit: null | TAsyncQueueRateLimit = null
+  protected _tokens = 0
+  protected _refilledAt = 0
+  protected _rateTid: undefined | ReturnType<typeof setTimeout> = undefined
 
-  constructor(key: string, limit?: undefined | null | number | TPositiveInteger) {
+  constructor(key: string, limit?: undefined | null | number | TPositiveInteger, rateLimit?: undefined | null | TAsyncQueueRateLimit) {
     this._key = key
     this._limit = isPositiveInteger(limit) ? limit : (1 as TPositiveInteger)
+    if (rateLimit) {
+      this.setRateLimit(rateLimit)
+    }
   }
 
   get key (): string {
@@ -35,6 +86,10 @@ class AsyncQueue {
     return this._counter
   }
 
+  get rateLimit (): null | TAsyncQueueRateLimit {
+    return this._rateLimit
+  }
+
   protected _remove (node: TNode): void {
     if (node.removed) {
       return
@@ -53,6 +108,7 @@ class AsyncQueue {
   }
 
   protected async _run (node: TNode): Promise<void> {
+    node.running = true
     ++this._counter
     await Promise.resolve()
     try {
@@ -62,8 +118,51 @@ class AsyncQueue {
     }
     this._remove(node)
     --this._counter
-    if (this._head && this._limit > this._counter) {
-      this._run(this._head)
+    this._dispatch()
+  }
+
+  /**
+   * Первая по приоритету задача ожидающая запуска. Выполняемые задачи остаются в списке до завершения.
+   */
+  protected _next (): null | TNode {
+    let node = this._head
+    while (node?.running) {
+      node = node.next
+    }
+    return node
+  }
+
+  /**
+   * Расходует токен, если задано ограничение частоты. Если токенов нет, планирует повторный вызов {@link _dispatch()}.
+   */
+  protected _takeToken (rateLimit: TAsyncQueueRateLimit): boolean {
+    const now = Date.now()
+    this._tokens = Math.min(rateLimit.burst, this._tokens + (now - this._refilledAt) * rateLimit.tokens / rateLimit.interval)
+    this._refilledAt = now
+    if (this._tokens >= 1) {
+      this._tokens -= 1
+      return true
+    }
+    if (this._rateTid === undefined) {
+      const wait = Math.ceil((1 - this._tokens) * rateLimit.interval / rateLimit.tokens)
+      this._rateTid = setTimeout(() => {
+        this._rateTid = undefined
+        this._dispatch()
+      }, wait)
+    }
+    return false
+  }
+
+  /**
+   * Запускает ожидающие задачи в порядке приоритета, пока позволяют лимит и ограничение частоты.
+   */
+  protected _dispatch (): void {
+    let node: null | TNode
+    while (this._limit > this._counter && (node = this._next())) {
+      if (this._rateLimit && !this._takeToken(this._rateLimit)) {
+        break
+      }
+      this._run(node)
     }
   }
 
@@ -86,13 +185,13 @@ class AsyncQueue {
     }
   }
 
-  protected _insert (node: TNode): boolean {
+  protected _insert (node: TNode): void {
     if (this._head) {
       this._insertWith(this._head, node)
-      return (this._limit > this._counter) ? true : false
     }
-    this._head = node
-    return true // Если нет очереди, запускаем мгновенно
+    else {
+      this._head = node
+    }
   }
 
   protected _wrapTask (task: (() => any | Promise<any>), priority: TNonNegInteger, abortSignal: AbortSignal): TNode {
@@ -139,9 +238,8 @@ class AsyncQueue {
       return
     }
     const node = abortSignal ? this._wrapTask(task, priority, abortSignal) : { task, priority, next: null, prev: null }
-    if (this._insert(node)) {
-      this._run(node)
-    }
+    this._insert(node)
+    this._dispatch()
   }
 
   /**
@@ -159,6 +257,30 @@ class AsyncQueue {
       }
     }
   }
+
+  /**
+   * Устанавливает ограничение частоты запуска задач. Ограничение устанавливается один раз и разделяется всеми
+   * пользователями очереди - попытка установить другие параметры будет проигнорирована с предупреждением.
+   *
+   * Приоритеты и удаление задач по `AbortSignal` сохраняются: токен расходуется только на запуск задачи с наибольшим
+   * приоритетом.
+   *
+   * @param rateLimit Параметры {@link asyncQueueRateLimitOrNull()}.
+   */
+  setRateLimit (rateLimit: TAsyncQueueRateLimit): void {
+    if (!this._rateLimit) {
+      this._rateLimit = rateLimit
+      this._tokens = rateLimit.burst
+      this._refilledAt = Date.now()
+    }
+    else if (
+      this._rateLimit.tokens !== rateLimit.tokens ||
+      this._rateLimit.interval !== rateLimit.interval ||
+      this._rateLimit.burst !== rateLimit.burst
+    ) {
+      console.warn(`[ApiRouter.AsyncQueue] Ограничение частоты очереди 'key:${safeToJson(this._key)}' уже установлено и не может быть изменено`)
+    }
+  }
 }
 
 /**
@@ -166,9 +288,33 @@ class AsyncQueue {
  */
 class NamedAsyncQueue {
   protected readonly _queues = new Map<string, AsyncQueue>()
+  protected readonly _parent: null | NamedAsyncQueue
+
+  /**
+   * @param parent Родительский реестр. Очереди родителя разделяются с дочерним реестром, новые очереди создаются только
+   *               в текущем реестре.
+   */
+  constructor(parent?: undefined | null | NamedAsyncQueue) {
+    this._parent = parent ?? null
+  }
+
+  get parent (): null | NamedAsyncQueue {
+    return this._parent
+  }
 
-  protected _createQueue (key: string, limit: number): AsyncQueue {
-    const queue = new AsyncQueue(key, limit)
+  protected _find (key: string): undefined | AsyncQueue {
+    return this._queues.get(key) ?? this._parent?._find(key)
+  }
+
+  /**
+   * Создает дочерний реестр, который разделяет очереди текущего реестра.
+   */
+  fork (): NamedAsyncQueue {
+    return new NamedAsyncQueue(this)
+  }
+
+  protected _createQueue (key: string, limit: number, rateLimit?: undefined | null | TAsyncQueueRateLimit): AsyncQueue {
+    const queue = new AsyncQueue(key, limit, rateLimit)
     this._queues.set(key, queue)
     return queue
   }
@@ -176,17 +322,21 @@ class NamedAsyncQueue {
   /**
    * Возвращает или создает новую очередь. Если очередь уже создана, будет проверен и, при необходимости, повышен `limit`.
    *
-   * @param key   Уникальное имя очереди.
-   * @param limit Лимит.
+   * @param key       Уникальное имя очереди.
+   * @param limit     Лимит.
+   * @param rateLimit Ограничение частоты запуска задач. Устанавливается один раз для очереди.
    */
-  getOrCreateQueue (key: string, limit?: undefined | null | number): AsyncQueue {
-    const queues = this._queues.get(key)
+  getOrCreateQueue (key: string, limit?: undefined | null | number, rateLimit?: undefined | null | TAsyncQueueRateLimit): AsyncQueue {
+    const queues = this._find(key)
     if (!queues) {
-      return this._createQueue(key, limit ?? 1)
+      return this._createQueue(key, limit ?? 1, rateLimit)
     }
     if (limit) {
       queues.setConcurrencyLimit(limit)
     }
+    if (rateLimit) {
+      queues.setRateLimit(rateLimit)
+    }
     return queues
   }
 
@@ -196,7 +346,7 @@ class NamedAsyncQueue {
    * Этот метод похож на {@link getOrCreateQueue()}, но очередь создается с лимитом по умолчанию `limit:1`.
    */
   getQueue (key: string): AsyncQueue {
-    return this._queues.get(key) ?? this._createQueue(key, 1)
+    return this._find(key) ?? this._createQueue(key, 1)
   }
 
   /**
@@ -205,7 +355,7 @@ class NamedAsyncQueue {
    * @param key Уникальное имя очереди.
    */
   tryGet (key: string): null | AsyncQueue {
-    return this._queues.get(key) ?? null
+    return this._find(key) ?? null
   }
 
   /**
@@ -219,7 +369,7 @@ class NamedAsyncQueue {
    * @param abortSignal Сигнал прерывания. Если `AbortSignal.aborted`, задача игнорируется.
    */
   add (key: string, task: (() => any | Promise<any>), priority?: undefined | null | TNonNegInteger, abortSignal?: undefined | null | AbortSignal): void {
-    const queue = this._queues.get(key) ?? this._createQueue(key, 1)
+    const queue = this._find(key) ?? this._createQueue(key, 1)
     queue.add(task, isNonNegInteger(priority) ? priority : (0 as TNonNegInteger), abortSignal)
   }
 
@@ -305,6 +455,8 @@ class NamedAsyncQueue {
 export {
   MIN_QUEUE_PRIORITY,
   MAX_QUEUE_PRIORITY,
+  type TAsyncQueueRateLimit,
+  asyncQueueRateLimitOrNull,
   AsyncQueue,
   NamedAsyncQueue
 }
@@ -0,0 +1,104 @@
+import { test, expect } from 'vitest'
+import { ConfigureError, PackError } from '../errors.js'
+import type { TEndpointHttpConfig } from '../configs/EndpointHttpConfig.js'
+import { BodySerializerLike } from '../interfaces/BodySerializerLike.js'
+import { MockRequestMiddleware } from '../middlewares/MockRequestMiddleware.js'
+import { Environment } from '../Environment.js'
+import { Endpoints } from '../Endpoints.js'
+import {
+  mediaTypeOf,
+  JsonBodySerializer,
+  FormUrlEncodedBodySerializer,
+  MultipartBodySerializer,
+  BodySerializerRegistry
+} from './BodySerializer.js'
+
+test('BodySerializer', () => {
+  expect(mediaTypeOf(' Application/JSON; charset=utf-8')).toBe('application/json')
+
+  expect(new JsonBodySerializer().serialize({ a: 1 })).toBe('{"a":1}')
+  expect(() => new JsonBodySerializer().serialize({ a: 1n })).toThrow(PackError)
+
+  const form = new FormUrlEncodedBodySerializer()
+  expect(form.serialize({ q: 'a b', tags: [1, 2], skip: null, date: new Date(0) }))
+    .toBe('q=a+b&tags=1&tags=2&date=1970-01-01T00%3A00%3A00.000Z')
+  expect(() => form.serialize([1])).toThrow(PackError)
+
+  const file = new Blob(['content'], { type: 'text/plain' })
+  const multipart = new MultipartBodySerializer().serialize({ file, meta: { id: 1 }, name: 'doc', empty: undefined })
+  expect(multipart.get('file')).toBeInstanceOf(Blob)
+  expect(multipart.get('meta')).toBe('{"id":1}')
+  expect(multipart.get('name')).toBe('doc')
+  expect(multipart.has('empty')).toBe(false)
+
+  const registry = new BodySerializerRegistry()
+  registry.register(new JsonBodySerializer())
+  expect(registry.find('application/json;charset=UTF-8')).toBeInstanceOf(JsonBodySerializer)
+  expect(registry.find('text/plain')).toBeNull()
+  expect(() => registry.getOrThrow('text/plain')).toThrow(ConfigureError)
+  expect(() => registry.register(new JsonBodySerializer())).toThrow(ConfigureError)
+  // Ключом реестра должен быть нормализованный медиа тип
+  expect(() => registry.register({ mediaType: 'Text/Plain', contentType: null, serialize: String } as BodySerializerLike)).toThrow(ConfigureError)
+})
+
+test('BodySerializer: HttpRequestMiddleware', async () => {
+  class TextBodySerializer extends BodySerializerLike {
+    get mediaType (): string { return 'text/plain' }
+    get contentType (): string { return 'text/plain;charset=UTF-8' }
+    serialize (data: any): string {
+      return `text:${data.value}`
+    }
+  }
+
+  const mock = new MockRequestMiddleware()
+  mock.routes.on('POST', '/api/{name}', { status: 204 })
+  const env = new Environment({
+    middlewares: [mock],
+    executorKindMap: new Map([['http', mock.kind]]),
+    serializers: [new TextBodySerializer()]
+  })
+
+  class EndpointsImpl extends Endpoints<'JSON' | 'FORM' | 'MULTIPART' | 'HEADER' | 'DEFAULT'> {
+    readonly JSON: TEndpointHttpConfig = { path: 'json', serializer: 'application/json' }
+    readonly FORM: TEndpointHttpConfig = { path: 'form', serializer: 'application/x-www-form-urlencoded' }
+    readonly MULTIPART: TEndpointHttpConfig = { path: 'multipart', serializer: 'multipart/form-data', headers: { 'content-type': 'application/json' } }
+    // Сериализатор выбирается по заголовку запроса
+    readonly HEADER: TEndpointHttpConfig = { path: 'header', headers: { 'content-type': 'text/plain' } }
+    readonly DEFAULT: TEndpointHttpConfig = { path: 'default' }
+
+    constructor() {
+      super(env, { path: 'http://localhost/api' })
+    }
+  }
+
+  const endpoints = new EndpointsImpl()
+  const contentTypeOf = (route: string) => new Map(mock.routes.callsOf(route)[0]!.headers).get('content-type') ?? null
+  const bodyOf = (route: string) => mock.routes.callsOf(route)[0]!.body
+
+  await endpoints.exec('JSON', { method: 'POST', data: { a: 1 } })
+  await endpoints.exec('FORM', { method: 'POST', data: { a: 1, b: 'x' } })
+  await endpoints.exec('MULTIPART', { method: 'POST', data: { file: new Blob(['1']) } })
+  await endpoints.exec('HEADER', { method: 'POST', data: { value: 'v' } })
+  await endpoints.exec('DEFAULT', { method: 'POST', data: { a: 1 } })
+
+  expect(contentTypeOf('/api/{name}')).toBe('application/json')
+  expect(bodyOf('/api/{name}')).toBe('{"a":1}')
+  const calls = mock.routes.calls.map(({ url, headers, body }) => [url, new Map(headers).get('content-type') ?? null, body])
+  expect(calls[1]).toStrictEqual(['http://localhost/api/form', 'application/x-www-form-urlencoded;charset=UTF-8', 'a=1&b=x'])
+  // Заголовок multipart удаляется и устанавливается fetch() вместе с границей
+  expect(calls[2]![1]).toBeNull()
+  expect(calls[2]![2]).toBeInstanceOf(FormData)
+  expect(calls[3]).toStrictEqual(['http://localhost/api/header', 'text/plain;charset=UTF-8', 'text:v'])
+  // Без сериализатора и заголовка используется `application/json`
+  expect(calls[4]).toStrictEqual(['http://localhost/api/default', 'application/json', '{"a":1}'])
+
+  // Незарегистрированный сериализатор является ошибкой конфигурации
+  class InvalidImpl extends Endpoints<'XML'> {
+    readonly XML: TEndpointHttpConfig = { path: 'xml', serializer: 'application/xml' }
+
+    constructor() {
+      super(env, { path: 'http://localhost/api' })
+    }
+  }
+  expect((await new InvalidImpl().exec('XML', { method: 'POST', data: {} })).error).toBeInstanceOf(ConfigureError)
+})
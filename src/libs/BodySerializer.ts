@@ -0,0 +1,143 @@
+import { isArray, isNonemptyString, isPlainObject, safeToJson } from '../utils.js'
+import { errorDetails, ConfigureError, PackError } from '../errors.js'
+import { BodySerializerLike } from '../interfaces/BodySerializerLike.js'
+import { RegistryBase } from './RegistryBase.js'
+
+/**
+ * Возвращает медиа тип из значения заголовка `Content-Type` в нижнем регистре и без параметров.
+ *
+ * @param contentType Значение заголовка, например `'Application/JSON; charset=utf-8'`.
+ */
+function mediaTypeOf (contentType: string): string {
+  const i = contentType.indexOf(';')
+  return (i === -1 ? contentType : contentType.slice(0, i)).trim().toLowerCase()
+}
+
+function _ensurePlainObject (mediaType: string, data: any): Record<string, any> {
+  if (!isPlainObject(data)) {
+    throw new PackError(errorDetails.PackError(`Сериализатор ${safeToJson(mediaType)} ожидает простой объект, получено: ${safeToJson(typeof data)}.`))
+  }
+  return data
+}
+
+function _formValueToString (value: any): string {
+  return (value instanceof Date) ? value.toISOString() : String(value)
+}
+
+/**
+ * Сериализатор `application/json`.
+ */
+class JsonBodySerializer extends BodySerializerLike {
+  get mediaType (): 'application/json' { return 'application/json' }
+  get contentType (): string { return 'application/json' }
+
+  serialize (data: any): string {
+    try {
+      return JSON.stringify(data)
+    } catch (e) {
+      throw new PackError(errorDetails.PackError(`Не удалось конвертировать typeof ${safeToJson(typeof data)} к JSON.`, e))
+    }
+  }
+}
+
+/**
+ * Сериализатор `application/x-www-form-urlencoded` для простых объектов.
+ *
+ * Массивы добавляются повторяющимися параметрами, значения `undefined | null` пропускаются, `Date` приводится к
+ * `toISOString()`, остальные значения к строке.
+ */
+class FormUrlEncodedBodySerializer extends BodySerializerLike {
+  get mediaType (): 'application/x-www-form-urlencoded' { return 'application/x-www-form-urlencoded' }
+  get contentType (): string { return 'application/x-www-form-urlencoded;charset=UTF-8' }
+
+  serialize (data: any): string {
+    const params = new URLSearchParams()
+    for (const [key, value] of Object.entries(_ensurePlainObject(this.mediaType, data))) {
+      for (const item of (isArray(value) ? value : [value])) {
+        if (item !== undefined && item !== null) {
+          params.append(key, _formValueToString(item))
+        }
+      }
+    }
+    return params.toString()
+  }
+}
+
+/**
+ * Сериализатор `multipart/form-data` для простых объектов с полями {@link Blob} или {@link File}.
+ *
+ * Массивы добавляются повторяющимися полями, значения `undefined | null` пропускаются, вложенные объекты приводятся к
+ * `JSON`. Заголовок `Content-Type` удаляется, чтобы `fetch()` установил его вместе с границей.
+ */
+class MultipartBodySerializer extends BodySerializerLike {
+  get mediaType (): 'multipart/form-data' { return 'multipart/form-data' }
+  get contentType (): null { return null }
+
+  serialize (data: any): FormData {
+    const form = new FormData()
+    for (const [key, value] of Object.entries(_ensurePlainObject(this.mediaType, data))) {
+      for (const item of (isArray(value) ? value : [value])) {
+        if (item === undefined || item === null) {
+          continue
+        }
+        if (item instanceof Blob) {
+          form.append(key, item)
+        }
+        else if (isPlainObject(item) || isArray(item)) {
+          form.append(key, JSON.stringify(item))
+        }
+        else {
+          form.append(key, _formValueToString(item))
+        }
+      }
+    }
+    return form
+  }
+}
+
+/**
+ * Реестр сериализаторов тела запроса {@link BodySerializerLike}. Ключом является {@link BodySerializerLike.mediaType}.
+ */
+class BodySerializerRegistry extends RegistryBase<string, BodySerializerLike> {
+  register (serializer: BodySerializerLike): void {
+    if (!(serializer instanceof BodySerializerLike)) {
+      throw new ConfigureError(errorDetails.ConfigureError(`Аргументом 'serializer' должен быть допустимый 'BodySerializerLike', получено: ${safeToJson(serializer)}`))
+    }
+    if (this._frozen) {
+      throw new ConfigureError(errorDetails.ConfigureError(`BodySerializerRegistry заморожен и не может зарегистрировать новый сериализатор ${safeToJson(serializer.mediaType)}.`))
+    }
+    if (!isNonemptyString(serializer.mediaType) || serializer.mediaType !== mediaTypeOf(serializer.mediaType)) {
+      throw new ConfigureError(errorDetails.ConfigureError(`Медиа типом сериализатора должна быть непустая строка в нижнем регистре без параметров, получено: ${safeToJson(serializer.mediaType)}.`))
+    }
+    if (this._items.has(serializer.mediaType)) {
+      throw new ConfigureError(errorDetails.ConfigureError(`Сериализатор "${serializer.mediaType}" уже зарегистрирован.`))
+    }
+    this._items.set(serializer.mediaType, serializer)
+  }
+
+  /**
+   * Возвращает сериализатор по медиа типу или значению заголовка `Content-Type`, или вызывает ошибку.
+   */
+  getOrThrow (mediaType: string): BodySerializerLike {
+    const serializer = this.find(mediaType)
+    if (!serializer) {
+      throw new ConfigureError(errorDetails.ConfigureError(`Сериализатор ${safeToJson(mediaType)} не зарегистрирован.`))
+    }
+    return serializer
+  }
+
+  /**
+   * Возвращает сериализатор по значению заголовка `Content-Type` или `null`.
+   */
+  find (contentType: undefined | null | string): null | BodySerializerLike {
+    return isNonemptyString(contentType) ? (this._get(mediaTypeOf(contentType)) ?? null) : null
+  }
+}
+
+export {
+  mediaTypeOf,
+  JsonBodySerializer,
+  FormUrlEncodedBodySerializer,
+  MultipartBodySerializer,
+  BodySerializerRegistry
+}
@@ -0,0 +1,76 @@
+import { test, expect, vi, afterEach } from 'vitest'
+import { CIRCUIT_BREAKER_STATES, CircuitBreaker, NamedCircuitBreaker } from './CircuitBreaker.js'
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+test('CircuitBreaker', () => {
+  vi.useFakeTimers()
+  const changes: string[] = []
+  const breaker = new CircuitBreaker('api', { failureThreshold: 3, window: 1000, cooldown: 500 }, (_, state) => changes.push(state))
+  expect(breaker.state).toBe(CIRCUIT_BREAKER_STATES.closed)
+
+  // Ошибки за пределами окна не учитываются
+  breaker.failure()
+  breaker.failure()
+  vi.advanceTimersByTime(1001)
+  expect(breaker.failures).toBe(0)
+  breaker.failure()
+  breaker.failure()
+  expect(breaker.state).toBe('closed')
+  breaker.failure()
+  expect(breaker.state).toBe('open')
+  expect(breaker.tryAcquire()).toBe(false)
+
+  // После cooldown пропускается только один пробный запрос
+  vi.advanceTimersByTime(500)
+  expect(breaker.state).toBe('half-open')
+  expect(breaker.tryAcquire()).toBe(true)
+  expect(breaker.tryAcquire()).toBe(false)
+  // Прерванный запрос освобождает слот
+  breaker.release()
+  expect(breaker.tryAcquire()).toBe(true)
+  breaker.failure()
+  expect(breaker.state).toBe('open')
+
+  vi.advanceTimersByTime(500)
+  expect(breaker.tryAcquire()).toBe(true)
+  breaker.success()
+  expect(breaker.state).toBe('closed')
+  expect(breaker.failures).toBe(0)
+
+  expect(changes).toStrictEqual(['open', 'half-open', 'open', 'half-open', 'closed'])
+})
+
+test('NamedCircuitBreaker', () => {
+  const named = new NamedCircuitBreaker()
+  const changes: [string, string][] = []
+  const listener = (key: string, state: string) => changes.push([key, state])
+  named.on(listener)
+
+  const a = named.getOrCreate('a', { failureThreshold: 1 })
+  // Параметры применяются только при создании, отличающиеся параметры вызывают предупреждение
+  const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => { /**/ })
+  expect(named.getOrCreate('a', { failureThreshold: 1 })).toBe(a)
+  expect(consoleWarnSpy).not.toHaveBeenCalled()
+  expect(named.getOrCreate('a', { failureThreshold: 10 })).toBe(a)
+  expect(consoleWarnSpy).toHaveBeenCalledOnce()
+  consoleWarnSpy.mockRestore()
+  expect(a.options.failureThreshold).toBe(1)
+  named.getOrCreate('b')
+  expect(named.tryGet('c')).toBeNull()
+
+  a.failure()
+  expect(named.snapshots().map(({ key, state }) => [key, state])).toStrictEqual([['a', 'open'], ['b', 'closed']])
+
+  named.reset('a')
+  expect(a.state).toBe('closed')
+  a.failure()
+  named.reset()
+  expect(a.state).toBe('closed')
+
+  named.off(listener)
+  a.failure()
+  expect(changes).toStrictEqual([['a', 'open'], ['a', 'closed'], ['a', 'open'], ['a', 'closed']])
+})
@@ -0,0 +1,328 @@
+import { type TPositiveInteger, type TPositiveNumber, isPositiveInteger, isPositiveNumber } from '../types.js'
+import { safeToJson } from '../utils.js'
+
+/**
+ * Состояния {@link CircuitBreaker}:
+ *
+ *  + `closed`    - Запросы выполняются, ошибки подсчитываются.
+ *  + `open`      - Запросы отклоняются без выполнения до истечения `cooldown`.
+ *  + `half-open` - Пропускается ограниченное количество пробных запросов. Успех закрывает цепь, ошибка снова открывает.
+ */
+const CIRCUIT_BREAKER_STATES = Object.freeze({
+  closed: 'closed',
+  open: 'open',
+  halfOpen: 'half-open'
+} as const)
+
+/**
+ * Состояния {@link CircuitBreaker}.
+ */
+type TCircuitBreakerState = (typeof CIRCUIT_BREAKER_STATES)[keyof typeof CIRCUIT_BREAKER_STATES]
+
+/**
+ * Пользовательские параметры {@link CircuitBreaker}.
+ */
+interface TCircuitBreakerOptions {
+  /**
+   * Количество ошибок в окне {@link window}, после которого цепь размыкается. По умолчанию `5`.
+   */
+  failureThreshold?: undefined | null | number
+  /**
+   * Скользящее окно подсчета ошибок в `ms`. По умолчанию `60000`.
+   */
+  window?: undefined | null | number
+  /**
+   * Время в `ms`, в течение которого разомкнутая цепь отклоняет запросы. По умолчанию `30000`.
+   */
+  cooldown?: undefined | null | number
+  /**
+   * Количество одновременных пробных запросов в состоянии `half-open`. По умолчанию `1`.
+   */
+  halfOpenRequests?: undefined | null | number
+}
+
+/**
+ * Нормализованные параметры {@link CircuitBreaker}.
+ */
+interface TCircuitBreakerNormalizedOptions {
+  readonly failureThreshold: TPositiveInteger
+  readonly window: TPositiveNumber
+  readonly cooldown: TPositiveNumber
+  readonly halfOpenRequests: TPositiveInteger
+}
+
+/**
+ * Снимок состояния {@link CircuitBreaker}.
+ */
+interface TCircuitBreakerSnapshot {
+  readonly key: string
+  readonly state: TCircuitBreakerState
+  readonly failures: number
+  readonly openedAt: null | number
+}
+
+/**
+ * Функция обработчик изменения состояния {@link CircuitBreaker}.
+ */
+type TCircuitBreakerListener = ((key: string, state: TCircuitBreakerState) => any)
+
+/**
+ * Приводит пользовательские параметры к нормализованному замороженному объекту.
+ */
+function normalizeCircuitBreakerOptions (options: undefined | null | TCircuitBreakerOptions): TCircuitBreakerNormalizedOptions {
+  return Object.freeze({
+    failureThreshold: isPositiveInteger(options?.failureThreshold) ? options.failureThreshold : (5 as TPositiveInteger),
+    window: isPositiveNumber(options?.window) ? options.window : (60000 as TPositiveNumber),
+    cooldown: isPositiveNumber(options?.cooldown) ? options.cooldown : (30000 as TPositiveNumber),
+    halfOpenRequests: isPositiveInteger(options?.halfOpenRequests) ? options.halfOpenRequests : (1 as TPositiveInteger)
+  })
+}
+
+/**
+ * Сравнивает нормализованные параметры {@link CircuitBreaker}.
+ */
+function circuitBreakerOptionsIsEquals (a: TCircuitBreakerNormalizedOptions, b: TCircuitBreakerNormalizedOptions): boolean {
+  return a.failureThreshold === b.failureThreshold &&
+    a.window === b.window &&
+    a.cooldown === b.cooldown &&
+    a.halfOpenRequests === b.halfOpenRequests
+}
+
+/**
+ * Автоматический выключатель запросов.
+ *
+ * Контекст запроса вызывает {@link tryAcquire()} до постановки в очередь и по завершению сообщает результат одним из
+ * методов {@link success()}, {@link failure()} или {@link release()}.
+ */
+class CircuitBreaker {
+  protected readonly _key: string
+  protected readonly _options: TCircuitBreakerNormalizedOptions
+  protected readonly _onChange: null | TCircuitBreakerListener
+  protected _state: TCircuitBreakerState = CIRCUIT_BREAKER_STATES.closed
+  protected _failures: number[] = []
+  protected _openedAt: null | number = null
+  protected _trials = 0
+
+  /**
+   * @param key      Уникальное имя.
+   * @param options  Параметры.
+   * @param onChange Обработчик изменения состояния.
+   */
+  constructor(key: string, options?: undefined | null | TCircuitBreakerOptions, onChange?: undefined | null | TCircuitBreakerListener) {
+    this._key = key
+    this._options = normalizeCircuitBreakerOptions(options)
+    this._onChange = onChange ?? null
+  }
+
+  get key (): string {
+    return this._key
+  }
+
+  get options (): TCircuitBreakerNormalizedOptions {
+    return this._options
+  }
+
+  /**
+   * Текущее состояние. Разомкнутая цепь переходит в `half-open` при первом обращении после истечения `cooldown`.
+   */
+  get state (): TCircuitBreakerState {
+    if (this._state === CIRCUIT_BREAKER_STATES.open && (Date.now() - this._openedAt!) >= this._options.cooldown) {
+      this._setState(CIRCUIT_BREAKER_STATES.halfOpen)
+    }
+    return this._state
+  }
+
+  /**
+   * Количество ошибок в текущем окне.
+   */
+  get failures (): number {
+    this._prune(Date.now())
+    return this._failures.length
+  }
+
+  protected _setState (state: TCircuitBreakerState): void {
+    if (this._state !== state) {
+      this._state = state
+      this._trials = 0
+      this._openedAt = state === CIRCUIT_BREAKER_STATES.open ? Date.now() : null
+      if (state === CIRCUIT_BREAKER_STATES.closed) {
+        this._failures = []
+      }
+      try {
+        this._onChange?.(this._key, state)
+      } catch (e) {
+        console.error(e)
+      }
+    }
+  }
+
+  protected _prune (now: number): void {
+    const min = now - this._options.window
+    let i = 0
+    while (i < this._failures.length && this._failures[i]! <= min) {
+      ++i
+    }
+    if (i > 0) {
+      this._failures.splice(0, i)
+    }
+  }
+
+  /**
+   * Возвращает `true`, если запрос может быть выполнен. Для `true` вызывающая сторона обязана сообщить результат.
+   */
+  tryAcquire (): boolean {
+    const state = this.state
+    if (state === CIRCUIT_BREAKER_STATES.closed) {
+      return true
+    }
+    if (state === CIRCUIT_BREAKER_STATES.halfOpen && this._trials < this._options.halfOpenRequests) {
+      this._trials++
+      return true
+    }
+    return false
+  }
+
+  /**
+   * Запрос завершился успешно.
+   */
+  success (): void {
+    if (this._state === CIRCUIT_BREAKER_STATES.halfOpen) {
+      this._setState(CIRCUIT_BREAKER_STATES.closed)
+    }
+  }
+
+  /**
+   * Запрос завершился ошибкой сервера или соединения.
+   */
+  failure (): void {
+    if (this._state === CIRCUIT_BREAKER_STATES.halfOpen) {
+      this._setState(CIRCUIT_BREAKER_STATES.open)
+    }
+    else if (this._state === CIRCUIT_BREAKER_STATES.closed) {
+      const now = Date.now()
+      this._prune(now)
+      this._failures.push(now)
+      if (this._failures.length >= this._options.failureThreshold) {
+        this._setState(CIRCUIT_BREAKER_STATES.open)
+      }
+    }
+  }
+
+  /**
+   * Запрос завершился без результата, который можно отнести к успеху или ошибке, например был прерван пользователем.
+   * Освобождает пробный слот состояния `half-open`.
+   */
+  release (): void {
+    if (this._state === CIRCUIT_BREAKER_STATES.halfOpen && this._trials > 0) {
+      this._trials--
+    }
+  }
+
+  /**
+   * Принудительно замыкает цепь и сбрасывает счетчик ошибок.
+   */
+  reset (): void {
+    this._setState(CIRCUIT_BREAKER_STATES.closed)
+    this._failures = []
+  }
+
+  snapshot (): TCircuitBreakerSnapshot {
+    const state = this.state
+    return Object.freeze({ key: this._key, state, failures: this.failures, openedAt: this._openedAt })
+  }
+}
+
+/**
+ * Именованные {@link CircuitBreaker}, которые могут быть общими для разных конечных точек.
+ */
+class NamedCircuitBreaker {
+  protected readonly _breakers = new Map<string, CircuitBreaker>()
+  protected readonly _listeners = new Set<TCircuitBreakerListener>()
+  protected readonly _onChange: TCircuitBreakerListener = (key: string, state: TCircuitBreakerState) => {
+    for (const listener of this._listeners) {
+      try {
+        listener(key, state)
+      } catch (e) {
+        console.error(e)
+      }
+    }
+  }
+
+  /**
+   * Возвращает или создает новый {@link CircuitBreaker}. Параметры применяются только при создании, для существующего
+   * экземпляра `options` игнорируются с предупреждением, если они отличаются.
+   *
+   * @param key     Уникальное имя.
+   * @param options Параметры.
+   */
+  getOrCreate (key: string, options?: undefined | null | TCircuitBreakerOptions): CircuitBreaker {
+    let breaker = this._breakers.get(key)
+    if (!breaker) {
+      breaker = new CircuitBreaker(key, options, this._onChange)
+      this._breakers.set(key, breaker)
+    }
+    else if (options && !circuitBreakerOptionsIsEquals(breaker.options, normalizeCircuitBreakerOptions(options))) {
+      console.warn(`[ApiRouter.CircuitBreaker] Выключатель 'key:${safeToJson(key)}' уже создан с другими параметрами, новые параметры проигнорированы`)
+    }
+    return breaker
+  }
+
+  /**
+   * Возвращает {@link CircuitBreaker}, если он существует.
+   *
+   * @param key Уникальное имя.
+   */
+  tryGet (key: string): null | CircuitBreaker {
+    return this._breakers.get(key) ?? null
+  }
+
+  keys (): IterableIterator<string> {
+    return this._breakers.keys()
+  }
+
+  /**
+   * Снимки состояний всех зарегистрированных {@link CircuitBreaker}.
+   */
+  snapshots (): TCircuitBreakerSnapshot[] {
+    return [...this._breakers.values()].map((item) => item.snapshot())
+  }
+
+  /**
+   * Сбрасывает {@link CircuitBreaker} с ключом `key` или все экземпляры, если ключ не передан.
+   *
+   * @param key Уникальное имя.
+   */
+  reset (key?: undefined | null | string): void {
+    if (key === undefined || key === null) {
+      for (const item of this._breakers.values()) {
+        item.reset()
+      }
+    }
+    else {
+      this._breakers.get(key)?.reset()
+    }
+  }
+
+  /**
+   * Подписывает обработчик на изменение состояния любого {@link CircuitBreaker}.
+   */
+  on (listener: TCircuitBreakerListener): void {
+    this._listeners.add(listener)
+  }
+
+  off (listener: TCircuitBreakerListener): void {
+    this._listeners.delete(listener)
+  }
+}
+
+export {
+  CIRCUIT_BREAKER_STATES,
+  type TCircuitBreakerState,
+  type TCircuitBreakerOptions,
+  type TCircuitBreakerNormalizedOptions,
+  type TCircuitBreakerSnapshot,
+  type TCircuitBreakerListener,
+  normalizeCircuitBreakerOptions,
+  CircuitBreaker,
+  NamedCircuitBreaker
+}
@@ -0,0 +1,90 @@
+import { test, expect } from 'vitest'
+import {
+  parseCacheControl,
+  isCacheableResponse,
+  createHttpCacheEntry,
+  refreshHttpCacheEntry,
+  httpCacheVaryMatches,
+  httpCacheFreshness,
+  httpCacheEntryToResponse,
+  LruCacheStorage
+} from './HttpCache.js'
+
+function _response (cacheControl: null | string, status = 200): Response {
+  const headers = new Headers({ 'content-type': 'application/json', etag: '"v1"' })
+  if (cacheControl) {
+    headers.set('cache-control', cacheControl)
+  }
+  return new Response(status === 304 ? null : '{"value":1}', { status, headers })
+}
+
+test('parseCacheControl', () => {
+  expect(parseCacheControl('public, max-age=60, stale-while-revalidate="30"')).toStrictEqual({
+    noStore: false,
+    noCache: false,
+    maxAge: 60,
+    staleWhileRevalidate: 30
+  })
+  expect(parseCacheControl('No-Store')).toMatchObject({ noStore: true, maxAge: null })
+  expect(parseCacheControl(null)).toMatchObject({ noStore: false, noCache: false })
+
+  expect(isCacheableResponse(_response('max-age=60'))).toBe(true)
+  expect(isCacheableResponse(_response('no-store'))).toBe(false)
+  expect(isCacheableResponse(_response(null, 404))).toBe(false)
+})
+
+test('HttpCache entry', async () => {
+  const response = _response('max-age=1, stale-while-revalidate=2')
+  const entry = createHttpCacheEntry(response, await response.arrayBuffer(), 0, null, 1000)
+  expect(entry.etag).toBe('"v1"')
+  expect(entry.maxAge).toBe(1000)
+  expect(httpCacheFreshness(entry, 1999)).toBe('fresh')
+  expect(httpCacheFreshness(entry, 2000)).toBe('stale')
+  expect(httpCacheFreshness(entry, 4000)).toBe('expired')
+
+  // Ответ 304 обновляет время свежести, директива no-cache требует проверки при каждом запросе
+  const refreshed = refreshHttpCacheEntry(entry, _response('no-cache', 304), 0, 5000)
+  expect(refreshed.storedAt).toBe(5000)
+  expect(httpCacheFreshness(refreshed, 5000)).toBe('expired')
+
+  // Тело можно прочитать из записи несколько раз
+  expect(await httpCacheEntryToResponse(refreshed).json()).toStrictEqual({ value: 1 })
+  expect(await httpCacheEntryToResponse(refreshed).json()).toStrictEqual({ value: 1 })
+
+  // Запись с Vary используется только для запроса с такими же значениями заголовков
+  expect(entry.vary).toBeNull()
+  expect(httpCacheVaryMatches(entry, new Headers({ authorization: 'a' }))).toBe(true)
+  const varied = new Response('{}', { headers: { vary: 'Authorization, Accept' } })
+  const variedEntry = createHttpCacheEntry(varied, await varied.arrayBuffer(), 0, new Headers({ authorization: 'a' }))
+  expect(variedEntry.vary).toStrictEqual([['authorization', 'a'], ['accept', null]])
+  expect(httpCacheVaryMatches(variedEntry, new Headers({ authorization: 'a' }))).toBe(true)
+  expect(httpCacheVaryMatches(variedEntry, new Headers({ authorization: 'b' }))).toBe(false)
+  expect(httpCacheVaryMatches(variedEntry, new Headers({ authorization: 'a', accept: 'text/plain' }))).toBe(false)
+  expect(refreshHttpCacheEntry(variedEntry, _response(null, 304), 0).vary).toBe(variedEntry.vary)
+})
+
+test('LruCacheStorage', async () => {
+  const response = _response(null)
+  const entry = createHttpCacheEntry(response, await response.arrayBuffer(), 0)
+
+  // Вытесняется давно неиспользуемая запись
+  const byCount = new LruCacheStorage({ maxEntries: 2 })
+  byCount.set('a', entry)
+  byCount.set('b', entry)
+  byCount.get('a')
+  byCount.set('c', entry)
+  expect(byCount.get('b')).toBeNull()
+  expect(byCount.get('a')).toBe(entry)
+  expect(byCount.size).toBe(2)
+
+  const bySize = new LruCacheStorage({ maxBytes: entry.size * 2 })
+  bySize.set('a', entry)
+  bySize.set('b', entry)
+  bySize.set('c', entry)
+  expect(bySize.get('a')).toBeNull()
+  expect(bySize.bytes).toBe(entry.size * 2)
+  bySize.delete('b')
+  expect(bySize.bytes).toBe(entry.size)
+  bySize.clear()
+  expect(bySize.size).toBe(0)
+})
@@ -0,0 +1,306 @@
+import { type TPositiveInteger, isPositiveInteger } from '../types.js'
+import { type THttpCacheEntry, HttpCacheStorageLike } from '../interfaces/HttpCacheStorageLike.js'
+
+/**
+ * Разобранные директивы заголовка ответа `Cache-Control`. Время указывается в секундах.
+ */
+interface TCacheControl {
+  readonly noStore: boolean
+  readonly noCache: boolean
+  readonly maxAge: null | number
+  readonly staleWhileRevalidate: null | number
+}
+
+/**
+ * Состояние записи кеша:
+ *
+ *  + `fresh`   - Запись может быть возвращена без обращения к серверу.
+ *  + `stale`   - Запись может быть возвращена, но требует фоновой проверки `stale-while-revalidate`.
+ *  + `expired` - Запись требует проверки перед использованием.
+ */
+type THttpCacheFreshness = 'fresh' | 'stale' | 'expired'
+
+const _reCacheControlDirective = /^\s*([a-z-]+)\s*(?:=\s*"?(\d+)"?)?\s*$/i
+
+/**
+ * Разбирает заголовок `Cache-Control`. Неизвестные директивы игнорируются.
+ *
+ * @param value Значение заголовка.
+ */
+function parseCacheControl (value: undefined | null | string): TCacheControl {
+  let noStore = false
+  let noCache = false
+  let maxAge: null | number = null
+  let staleWhileRevalidate: null | number = null
+  for (const item of (value ?? '').split(',')) {
+    const match = _reCacheControlDirective.exec(item)
+    if (!match) {
+      continue
+    }
+    const name = match[1]!.toLowerCase()
+    const seconds = match[2] ? Number.parseInt(match[2], 10) : null
+    if (name === 'no-store') {
+      noStore = true
+    }
+    else if (name === 'no-cache') {
+      noCache = true
+    }
+    else if (name === 'max-age' && seconds !== null) {
+      maxAge = seconds
+    }
+    else if (name === 'stale-while-revalidate' && seconds !== null) {
+      staleWhileRevalidate = seconds
+    }
+  }
+  return Object.freeze({ noStore, noCache, maxAge, staleWhileRevalidate })
+}
+
+function _cacheTimes (response: Response, defaultMaxAge: number): { maxAge: number, staleWhileRevalidate: number } {
+  const cc = parseCacheControl(response.headers.get('cache-control'))
+  return {
+    maxAge: cc.noCache ? 0 : (cc.maxAge === null ? defaultMaxAge : cc.maxAge * 1000),
+    staleWhileRevalidate: (cc.staleWhileRevalidate ?? 0) * 1000
+  }
+}
+
+/**
+ * Можно ли сохранить ответ в кеш.
+ *
+ * Сохраняются только ответы со статусом `200` без директивы `no-store` и заголовка `Vary: *`.
+ */
+function isCacheableResponse (response: Response): boolean {
+  return response.status === 200 &&
+    !parseCacheControl(response.headers.get('cache-control')).noStore &&
+    response.headers.get('vary')?.trim() !== '*'
+}
+
+/**
+ * Заголовки запроса, из которых читаются значения для {@link THttpCacheEntry.vary}.
+ */
+type THttpCacheRequestHeaders = { get (name: string): null | string }
+
+function _varyEntries (response: Response, requestHeaders: undefined | null | THttpCacheRequestHeaders): THttpCacheEntry['vary'] {
+  const names = (response.headers.get('vary') ?? '').split(',').map((name) => name.trim().toLowerCase()).filter((name) => !!name)
+  if (names.length === 0) {
+    return null
+  }
+  return Object.freeze(names.map((name) => Object.freeze([name, requestHeaders?.get(name) ?? null] as const)))
+}
+
+/**
+ * Можно ли использовать запись для запроса с заголовками `requestHeaders`. Значения заголовков запроса,
+ * перечисленных в `Vary` сохраненного ответа, должны совпадать.
+ *
+ * @param entry          Запись.
+ * @param requestHeaders Заголовки текущего запроса.
+ */
+function httpCacheVaryMatches (entry: THttpCacheEntry, requestHeaders: undefined | null | THttpCacheRequestHeaders): boolean {
+  return !entry.vary || entry.vary.every(([name, value]) => (requestHeaders?.get(name) ?? null) === value)
+}
+
+/**
+ * Создает запись кеша из ответа и прочитанного тела.
+ *
+ * @param response       Ответ сервера.
+ * @param body           Тело ответа.
+ * @param defaultMaxAge  Время свежести в `ms` для ответов без директивы `max-age`.
+ * @param requestHeaders Заголовки запроса для значений {@link THttpCacheEntry.vary}.
+ * @param now            Текущее время в `ms`.
+ */
+function createHttpCacheEntry (
+  response: Response,
+  body: ArrayBuffer,
+  defaultMaxAge: number,
+  requestHeaders?: undefined | null | THttpCacheRequestHeaders,
+  now?: undefined | null | number
+): THttpCacheEntry {
+  const headers: [string, string][] = []
+  let size = body.byteLength
+  for (const [name, value] of response.headers) {
+    headers.push([name, value])
+    size += name.length + value.length
+  }
+  return Object.freeze({
+    status: response.status,
+    statusText: response.statusText,
+    headers: Object.freeze(headers),
+    body,
+    etag: response.headers.get('etag'),
+    lastModified: response.headers.get('last-modified'),
+    storedAt: now ?? Date.now(),
+    ..._cacheTimes(response, defaultMaxAge),
+    vary: _varyEntries(response, requestHeaders),
+    size
+  })
+}
+
+/**
+ * Обновляет время свежести записи по ответу `304 Not Modified`.
+ *
+ * @param entry         Существующая запись.
+ * @param response      Ответ `304`.
+ * @param defaultMaxAge Время свежести в `ms` для ответов без директивы `max-age`.
+ * @param now           Текущее время в `ms`.
+ */
+function refreshHttpCacheEntry (entry: THttpCacheEntry, response: Response, defaultMaxAge: number, now?: undefined | null | number): THttpCacheEntry {
+  return Object.freeze({
+    ...entry,
+    etag: response.headers.get('etag') ?? entry.etag,
+    lastModified: response.headers.get('last-modified') ?? entry.lastModified,
+    storedAt: now ?? Date.now(),
+    ..._cacheTimes(response, defaultMaxAge)
+  })
+}
+
+/**
+ * Возвращает состояние записи кеша {@link THttpCacheFreshness}.
+ *
+ * @param entry Запись.
+ * @param now   Текущее время в `ms`.
+ */
+function httpCacheFreshness (entry: THttpCacheEntry, now?: undefined | null | number): THttpCacheFreshness {
+  const age = (now ?? Date.now()) - entry.storedAt
+  return age < entry.maxAge
+    ? 'fresh'
+    : age < (entry.maxAge + entry.staleWhileRevalidate) ? 'stale' : 'expired'
+}
+
+/**
+ * Создает новый `Response` из записи кеша. Тело копируется и может быть прочитано независимо от других ответов.
+ */
+function httpCacheEntryToResponse (entry: THttpCacheEntry): Response {
+  return new Response(entry.body.slice(0), {
+    status: entry.status,
+    statusText: entry.statusText,
+    headers: entry.headers as [string, string][]
+  })
+}
+
+/**
+ * Неограниченное хранилище кеша в памяти.
+ */
+class MemoryCacheStorage extends HttpCacheStorageLike {
+  protected readonly _items = new Map<string, THttpCacheEntry>()
+
+  get size (): number {
+    return this._items.size
+  }
+
+  get (key: string): null | THttpCacheEntry {
+    return this._items.get(key) ?? null
+  }
+
+  set (key: string, entry: THttpCacheEntry): void {
+    this._items.set(key, entry)
+  }
+
+  delete (key: string): void {
+    this._items.delete(key)
+  }
+
+  clear (): void {
+    this._items.clear()
+  }
+}
+
+/**
+ * Параметры {@link LruCacheStorage}.
+ */
+interface TLruCacheStorageOptions {
+  /**
+   * Максимальное количество записей. По умолчанию `1000`.
+   */
+  maxEntries?: undefined | null | number
+  /**
+   * Максимальный суммарный размер записей {@link THttpCacheEntry.size} в байтах. По умолчанию не ограничен.
+   */
+  maxBytes?: undefined | null | number
+}
+
+/**
+ * Хранилище кеша в памяти с вытеснением давно неиспользуемых записей по количеству или размеру.
+ *
+ * Запись, размер которой превышает `maxBytes`, не сохраняется.
+ */
+class LruCacheStorage extends MemoryCacheStorage {
+  protected readonly _maxEntries: TPositiveInteger
+  protected readonly _maxBytes: null | TPositiveInteger
+  protected _bytes = 0
+
+  constructor(options?: undefined | null | TLruCacheStorageOptions) {
+    super()
+    this._maxEntries = isPositiveInteger(options?.maxEntries) ? options.maxEntries : (1000 as TPositiveInteger)
+    this._maxBytes = isPositiveInteger(options?.maxBytes) ? options.maxBytes : null
+  }
+
+  get maxEntries (): TPositiveInteger {
+    return this._maxEntries
+  }
+
+  get maxBytes (): null | TPositiveInteger {
+    return this._maxBytes
+  }
+
+  /**
+   * Суммарный размер записей в байтах.
+   */
+  get bytes (): number {
+    return this._bytes
+  }
+
+  override get (key: string): null | THttpCacheEntry {
+    const entry = this._items.get(key)
+    if (!entry) {
+      return null
+    }
+    // Перемещаем запись в конец Map, начало Map - кандидаты на вытеснение
+    this._items.delete(key)
+    this._items.set(key, entry)
+    return entry
+  }
+
+  override set (key: string, entry: THttpCacheEntry): void {
+    this.delete(key)
+    if (this._maxBytes && entry.size > this._maxBytes) {
+      return
+    }
+    this._items.set(key, entry)
+    this._bytes += entry.size
+    for (const [k, item] of this._items) {
+      if (this._items.size <= this._maxEntries && (!this._maxBytes || this._bytes <= this._maxBytes)) {
+        break
+      }
+      this._items.delete(k)
+      this._bytes -= item.size
+    }
+  }
+
+  override delete (key: string): void {
+    const entry = this._items.get(key)
+    if (entry) {
+      this._items.delete(key)
+      this._bytes -= entry.size
+    }
+  }
+
+  override clear (): void {
+    this._items.clear()
+    this._bytes = 0
+  }
+}
+
+export {
+  type TCacheControl,
+  type THttpCacheFreshness,
+  type THttpCacheRequestHeaders,
+  parseCacheControl,
+  isCacheableResponse,
+  httpCacheVaryMatches,
+  createHttpCacheEntry,
+  refreshHttpCacheEntry,
+  httpCacheFreshness,
+  httpCacheEntryToResponse,
+  MemoryCacheStorage,
+  type TLruCacheStorageOptions,
+  LruCacheStorage
+}
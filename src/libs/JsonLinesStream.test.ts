@@ -0,0 +1,136 @@
+import { test, expect } from 'vitest'
+import { errorDetails, StatusError, TimeoutError, UnpackError } from '../errors.js'
+import type { TEndpointHttpConfig } from '../configs/EndpointHttpConfig.js'
+import type { HttpContext } from '../contexts/HttpContext.js'
+import type { THttpStreamHold } from '../contexts/Context.js'
+import { Middleware } from '../interfaces/MiddlewareLike.js'
+import { MockRequestMiddleware } from '../middlewares/MockRequestMiddleware.js'
+import { Environment } from '../Environment.js'
+import { Endpoints } from '../Endpoints.js'
+import { readJsonLines } from './JsonLinesStream.js'
+
+function streamOf (chunks: string[], keepOpen?: boolean): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream<Uint8Array>({
+    start (controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk))
+      }
+      if (!keepOpen) {
+        controller.close()
+      }
+    }
+  })
+}
+
+async function collect (iterable: AsyncIterable<any>): Promise<{ items: any[], error: any }> {
+  const items: any[] = []
+  try {
+    for await (const item of iterable) {
+      items.push(item)
+    }
+  } catch (e) {
+    return { items, error: e }
+  }
+  return { items, error: null }
+}
+
+test('JsonLinesStream', async () => {
+  // Строки разбиты между фрагментами, последняя строка без '\n'
+  let finished = 0
+  const ok = await collect(readJsonLines(streamOf(['{"a":', '1}\n\n', '\x1e[2]\n{"b"', ':3}']), { onFinally: () => ++finished }))
+  expect(ok).toStrictEqual({ items: [{ a: 1 }, [2], { b: 3 }], error: null })
+  expect(finished).toBe(1)
+
+  const broken = await collect(readJsonLines(streamOf(['{"a":1}\n', '\n{broken\n{"b":2}\n'])))
+  expect(broken.items).toStrictEqual([{ a: 1 }])
+  expect(broken.error).toBeInstanceOf(UnpackError)
+  expect(broken.error.detail.data).toStrictEqual({ line: 3 })
+
+  // Прерывание сигналом завершает ожидающее чтение открытого потока
+  const controller = new AbortController()
+  const reason = new Error('stop')
+  const iterator = readJsonLines(streamOf(['{"a":1}\n'], true), { signal: controller.signal })
+  expect(await iterator.next()).toStrictEqual({ done: false, value: { a: 1 } })
+  const pending = iterator.next()
+  controller.abort(reason)
+  await expect(pending).rejects.toBe(reason)
+})
+
+test('JsonLinesStream: NdjsonStreamMiddleware', async () => {
+  const mock = new MockRequestMiddleware()
+  mock.routes
+    .on('GET', '/api/logs', () => ({ body: streamOf(['{"id":1}\n{"id":2}\n']), headers: { 'content-type': 'application/x-ndjson' } }))
+    .on('GET', '/api/tail', () => ({ body: streamOf(['{"id":1}\n'], true), headers: { 'content-type': 'application/x-ndjson' } }))
+  const env = new Environment({
+    middlewares: [mock],
+    executorKindMap: new Map([['http', mock.kind]])
+  })
+
+  class EndpointsImpl extends Endpoints<'LOGS' | 'TAIL'> {
+    readonly LOGS: TEndpointHttpConfig = { path: 'logs' }
+    // Поток не закрывается сервером и будет прерван по timeout после получения результата
+    readonly TAIL: TEndpointHttpConfig = { path: 'tail', timeout: 50 }
+
+    constructor() {
+      super(env, { path: 'http://localhost/api', postprocessor: 'NdjsonStreamMiddleware' })
+    }
+  }
+
+  const endpoints = new EndpointsImpl()
+
+  const logs = await endpoints.exec('LOGS', { method: 'GET' })
+  expect(logs.ok).toBe(true)
+  expect(await collect(logs.value)).toStrictEqual({ items: [{ id: 1 }, { id: 2 }], error: null })
+
+  const tail = await endpoints.exec('TAIL', { method: 'GET' })
+  expect(tail.ok).toBe(true)
+  const result = await collect(tail.value)
+  expect(result.items).toStrictEqual([{ id: 1 }])
+  expect(result.error).toBeInstanceOf(TimeoutError)
+})
+
+test('JsonLinesStream: stream hold is reset on retry', async () => {
+  const holds: (null | THttpStreamHold)[] = []
+  // Удерживает прерывание только неудачной попытки, успешная попытка возвращает прочитанное значение
+  class FlakyStreamMiddleware extends Middleware<Response, number> {
+    static get kind (): 'FlakyStreamMiddleware' { return 'FlakyStreamMiddleware' }
+    get kind (): string { return 'FlakyStreamMiddleware' }
+
+    override process (ctx: HttpContext<any, any>, response: Response): number {
+      if (!response.ok) {
+        holds.push(ctx.holdAbortSignal())
+        throw new StatusError(errorDetails.StatusError(response.status, ctx.url.toString()))
+      }
+      return response.status
+    }
+  }
+
+  const mock = new MockRequestMiddleware()
+  mock.routes
+    .on('GET', '/api/flaky', { status: 503 }, { times: 1 })
+    .on('GET', '/api/flaky', { status: 200 })
+  const env = new Environment({
+    middlewares: [mock, new FlakyStreamMiddleware()],
+    executorKindMap: new Map([['http', mock.kind]])
+  })
+
+  class EndpointsImpl extends Endpoints<'FLAKY'> {
+    readonly FLAKY: TEndpointHttpConfig = { path: 'flaky', timeout: 50, retries: 2, retryDelay: 10, retryPolicy: { statuses: [503] } }
+
+    constructor() {
+      super(env, { path: 'http://localhost/api', postprocessor: 'FlakyStreamMiddleware' })
+    }
+  }
+
+  const endpoints = new EndpointsImpl()
+  const controller = new AbortController()
+  const result = await endpoints.exec('FLAKY', { method: 'GET', abortSignal: controller.signal })
+  expect(result.ok).toBe(true)
+  expect(result.value).toBe(200)
+  expect(holds.length).toBe(1)
+  // Удержание прошлой попытки не оставляет прерывание активным после результата без потока
+  controller.abort()
+  await new Promise((resolve) => setTimeout(resolve, 80))
+  expect(holds[0]!.signal.aborted).toBe(false)
+})
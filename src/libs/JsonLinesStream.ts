@@ -0,0 +1,111 @@
+import { errorDetails, UnpackError } from '../errors.js'
+import { uselessFunctionStub_ } from '../types.js'
+
+/**
+ * Разбирает одну строку `NDJSON`. Пустые строки и строки из пробелов возвращают `undefined`, ведущий разделитель
+ * записей `\x1e` потоков `application/json-seq` игнорируется.
+ *
+ * @param line       Строка без завершающего `\n`.
+ * @param lineNumber Номер строки начиная с `1` для сообщения об ошибке.
+ * @throws UnpackError Если строка не является допустимым `JSON`. Номер строки доступен в `detail.data.line`.
+ */
+function parseJsonLine (line: string, lineNumber: number): any {
+  const value = line.replace(/^\x1e/, '').trim() // eslint-disable-line no-control-regex
+  if (!value) {
+    return undefined
+  }
+  try {
+    return JSON.parse(value)
+  } catch (e) {
+    const detail = errorDetails.UnpackError(`Строка ${lineNumber} NDJSON не является допустимым JSON.`, e)
+    detail.data = { line: lineNumber }
+    throw new UnpackError(detail)
+  }
+}
+
+/**
+ * Опции {@link readJsonLines()}.
+ */
+interface TReadJsonLinesOptions {
+  /**
+   * Сигнал, который прерывает чтение потока. Итератор завершится ошибкой `signal.reason`.
+   */
+  signal?: undefined | null | AbortSignal
+  /**
+   * Вызывается один раз после завершения чтения: по окончании потока, ошибке или досрочном выходе из цикла.
+   */
+  onFinally?: undefined | null | (() => any)
+}
+
+/**
+ * Читает поток `NDJSON` (`application/x-ndjson`, `application/jsonl`, `application/json-seq`) и возвращает значения
+ * строк по мере поступления фрагментов. Пустые строки пропускаются.
+ *
+ * Досрочный выход из цикла `for await` отменяет поток.
+ *
+ * @param stream  Поток тела ответа, например `Response.body`.
+ * @param options Опции {@link TReadJsonLinesOptions}.
+ * @throws UnpackError Если строка не является допустимым `JSON` или чтение потока завершилось ошибкой.
+ */
+async function* readJsonLines (stream: ReadableStream<Uint8Array>, options?: undefined | null | TReadJsonLinesOptions): AsyncGenerator<any, void, undefined> {
+  const signal = options?.signal ?? null
+  const reader = stream.getReader()
+  const decoder = new TextDecoder()
+  // Отмена потока завершает ожидающий read() и цикл увидит прерванный сигнал
+  const onAbort = () => { reader.cancel(signal!.reason).catch(uselessFunctionStub_) }
+  signal?.addEventListener('abort', onAbort, { once: true })
+  let done = false
+  let buffer = ''
+  let lineNumber = 0
+  try {
+    while (!done) {
+      if (signal?.aborted) {
+        throw signal.reason
+      }
+      let chunk: ReadableStreamReadResult<Uint8Array>
+      try {
+        chunk = await reader.read()
+      } catch (e) {
+        if (signal?.aborted) {
+          throw signal.reason
+        }
+        throw new UnpackError(errorDetails.UnpackError('Чтение потока NDJSON завершилось ошибкой.', e))
+      }
+      if (signal?.aborted) {
+        throw signal.reason
+      }
+      if (chunk.done) {
+        done = true
+        buffer += decoder.decode()
+      }
+      else {
+        buffer += decoder.decode(chunk.value, { stream: true })
+      }
+      let i: number
+      while ((i = buffer.indexOf('\n')) !== -1) {
+        const value = parseJsonLine(buffer.slice(0, i), ++lineNumber)
+        buffer = buffer.slice(i + 1)
+        if (value !== undefined) {
+          yield value
+        }
+      }
+    }
+    // Последняя строка может не иметь завершающего '\n'
+    const value = parseJsonLine(buffer, ++lineNumber)
+    if (value !== undefined) {
+      yield value
+    }
+  } finally {
+    signal?.removeEventListener('abort', onAbort)
+    if (!done) {
+      reader.cancel().catch(uselessFunctionStub_)
+    }
+    options?.onFinally?.()
+  }
+}
+
+export {
+  parseJsonLine,
+  type TReadJsonLinesOptions,
+  readJsonLines
+}
@@ -1,9 +1,35 @@
 class RegistryBase<TKey, TValue> {
   protected readonly _items = new Map<TKey, TValue>()
+  protected readonly _parent: null | RegistryBase<TKey, TValue>
   protected _frozen = false
 
+  /**
+   * @param parent Родительский реестр. Элементы родителя доступны для поиска, но новые элементы добавляются только в
+   *               текущий реестр и могут перекрывать элементы родителя.
+   */
+  constructor(parent?: undefined | null | RegistryBase<TKey, TValue>) {
+    this._parent = parent ?? null
+  }
+
+  /**
+   * Ключи текущего реестра и всех родителей.
+   */
   get keys (): MapIterator<TKey> {
-    return this._items.keys()
+    if (!this._parent) {
+      return this._items.keys()
+    }
+    const keys = new Map<TKey, null>()
+    for (const key of this._parent.keys) {
+      keys.set(key, null)
+    }
+    for (const key of this._items.keys()) {
+      keys.set(key, null)
+    }
+    return keys.keys()
+  }
+
+  get parent (): null | RegistryBase<TKey, TValue> {
+    return this._parent
   }
 
   get frozen (): boolean {
@@ -17,9 +43,30 @@ class RegistryBase<TKey, TValue> {
     this._frozen = true
   }
 
+  /**
+   * Ищет элемент в текущем реестре, затем в родителях.
+   */
+  protected _get (key: TKey): undefined | TValue {
+    return this._items.get(key) ?? this._parent?._get(key)
+  }
+
   has (key: TKey): boolean {
+    return this._items.has(key) || (this._parent?.has(key) ?? false)
+  }
+
+  /**
+   * Зарегистрирован ли элемент в текущем реестре без учета родителей.
+   */
+  hasOwn (key: TKey): boolean {
     return this._items.has(key)
   }
+
+  /**
+   * Создает дочерний реестр того же типа, который наследует элементы текущего реестра.
+   */
+  fork (): this {
+    return new (this.constructor as new (parent: RegistryBase<TKey, TValue>) => this)(this)
+  }
 }
 
 export {
@@ -0,0 +1,111 @@
+import { test, expect } from 'vitest'
+import { ConfigureError, StatusError, UnpackError } from '../errors.js'
+import type { TEndpointHttpConfig } from '../configs/EndpointHttpConfig.js'
+import { MockRequestMiddleware } from '../middlewares/MockRequestMiddleware.js'
+import { Environment } from '../Environment.js'
+import { Endpoints } from '../Endpoints.js'
+import {
+  isMediaTypePattern,
+  matchMediaType,
+  JsonResponseDecoder,
+  TextResponseDecoder,
+  NdjsonResponseDecoder,
+  ResponseDecoderRegistry
+} from './ResponseDecoder.js'
+
+test('ResponseDecoder', async () => {
+  expect(isMediaTypePattern('application/json')).toBe(true)
+  expect(isMediaTypePattern('*/*+json')).toBe(true)
+  expect(isMediaTypePattern('Text/Plain')).toBe(false)
+  expect(isMediaTypePattern('*/json')).toBe(false)
+
+  expect(matchMediaType('application/problem+json', 'application/problem+json')).toBe(4)
+  expect(matchMediaType('application/*+json', 'application/problem+json')).toBe(3)
+  expect(matchMediaType('*/*+json', 'application/problem+json')).toBe(2)
+  expect(matchMediaType('application/*', 'application/problem+json')).toBe(1)
+  expect(matchMediaType('*/*', 'application/problem+json')).toBe(0)
+  expect(matchMediaType('text/*', 'application/problem+json')).toBe(-1)
+
+  const json = new JsonResponseDecoder()
+  const text = new TextResponseDecoder()
+  const registry = new ResponseDecoderRegistry()
+  registry.register('*/*+json', json)
+  registry.register('application/*', text)
+  // Наиболее специфичный шаблон выигрывает независимо от порядка регистрации
+  expect(registry.find('Application/Problem+JSON; charset=utf-8')).toBe(json)
+  expect(registry.find('application/xml')).toBe(text)
+  expect(registry.find('image/png')).toBeNull()
+  expect(registry.find(null)).toBeNull()
+  expect(() => registry.register('application/*', json)).toThrow(ConfigureError)
+  expect(() => registry.register('application', json)).toThrow(ConfigureError)
+
+  const ndjson = new NdjsonResponseDecoder()
+  expect(await ndjson.decode(new Response('{"a":1}\n\n[2]\n'))).toStrictEqual([{ a: 1 }, [2]])
+  let error: any = null
+  try {
+    await ndjson.decode(new Response('{"a":1}\n{broken\n'))
+  } catch (e) {
+    error = e
+  }
+  expect(error).toBeInstanceOf(UnpackError)
+  expect(error.detail.data).toStrictEqual({ line: 2 })
+})
+
+test('ResponseDecoder: DecodeResponseMiddleware', async () => {
+  const mock = new MockRequestMiddleware()
+  mock.routes
+    .on('GET', '/api/json', { json: { a: 1 } })
+    .on('GET', '/api/problem', { body: '{"b":2}', headers: { 'content-type': 'application/problem+json' } })
+    .on('GET', '/api/text', { body: 'plain', headers: { 'content-type': 'text/plain;charset=utf-8' } })
+    .on('GET', '/api/empty', { status: 204 })
+    .on('GET', '/api/unknown', { body: 'raw', headers: { 'content-type': 'application/x-custom' } })
+    .on('GET', '/api/fail', { status: 400, json: { reason: 'bad' } })
+  const env = new Environment({
+    middlewares: [mock],
+    executorKindMap: new Map([['http', mock.kind]])
+  })
+
+  class EndpointsImpl extends Endpoints<'JSON' | 'PROBLEM' | 'TEXT' | 'EMPTY' | 'UNKNOWN' | 'FAIL' | 'STRICT'> {
+    readonly JSON: TEndpointHttpConfig = { path: 'json' }
+    readonly PROBLEM: TEndpointHttpConfig = { path: 'problem' }
+    readonly TEXT: TEndpointHttpConfig = { path: 'text' }
+    readonly EMPTY: TEndpointHttpConfig = { path: 'empty' }
+    readonly UNKNOWN: TEndpointHttpConfig = { path: 'unknown' }
+    readonly FAIL: TEndpointHttpConfig = { path: 'fail' }
+    // Ответ text/plain не входит в список ожидаемых типов
+    readonly STRICT: TEndpointHttpConfig = { path: 'text', responseTypes: ['application/json', '*/*+json'] }
+
+    constructor() {
+      super(env, { path: 'http://localhost/api', postprocessor: 'DecodeResponseMiddleware' })
+    }
+  }
+
+  const endpoints = new EndpointsImpl()
+
+  expect((await endpoints.exec('JSON', { method: 'GET' })).value).toStrictEqual({ a: 1 })
+  expect((await endpoints.exec('PROBLEM', { method: 'GET' })).value).toStrictEqual({ b: 2 })
+  expect((await endpoints.exec('TEXT', { method: 'GET' })).value).toBe('plain')
+  expect((await endpoints.exec('EMPTY', { method: 'GET' })).value).toBeNull()
+
+  const unknown = await endpoints.exec('UNKNOWN', { method: 'GET' })
+  expect(unknown.error).toBeInstanceOf(UnpackError)
+  expect(unknown.error!.detail.data).toStrictEqual({ contentType: 'application/x-custom', responseTypes: null })
+
+  // Тело ответа с ошибкой декодируется в postprocessor без errorprocessor
+  const fail = await endpoints.exec('FAIL', { method: 'GET' })
+  expect(fail.error).toBeInstanceOf(StatusError)
+  expect(fail.error!.detail.data).toStrictEqual({ reason: 'bad' })
+
+  const strict = await endpoints.exec('STRICT', { method: 'GET' })
+  expect(strict.error).toBeInstanceOf(UnpackError)
+  expect(strict.error!.detail.data).toStrictEqual({ contentType: 'text/plain;charset=utf-8', responseTypes: ['application/json', '*/*+json'] })
+
+  // Декодеры по умолчанию можно переопределить
+  const custom = new Environment({
+    middlewares: [mock],
+    executorKindMap: new Map([['http', mock.kind]]),
+    decoders: { 'text/*': false, 'application/x-custom': new TextResponseDecoder() }
+  })
+  expect(custom.decoderRegistry.find('text/plain')).toBeNull()
+  expect(custom.decoderRegistry.find('application/x-custom')).toBeInstanceOf(TextResponseDecoder)
+})
@@ -0,0 +1,200 @@
+import { isNonemptyString, safeToJson } from '../utils.js'
+import { errorDetails, ConfigureError } from '../errors.js'
+import { ResponseDecoderLike } from '../interfaces/ResponseDecoderLike.js'
+import { RegistryBase } from './RegistryBase.js'
+import { mediaTypeOf } from './BodySerializer.js'
+import { parseJsonLine } from './JsonLinesStream.js'
+
+const _rePattern = /^(?:\*\/\*(?:\+[a-z0-9!#$&^_.-]+)?|[a-z0-9!#$&^_.-]+\/(?:\*(?:\+[a-z0-9!#$&^_.-]+)?|[a-z0-9!#$&^_.+-]+))$/
+
+/**
+ * Является ли строка допустимым шаблоном медиа типа в нижнем регистре:
+ *
+ *  + `type/subtype` - точное совпадение.
+ *  + `type/*+suffix` или `*\/*+suffix` - медиа типы с суффиксом, например `application/problem+json`.
+ *  + `type/*` - любой подтип.
+ *  + `*\/*` - любой медиа тип.
+ */
+function isMediaTypePattern (pattern: any): pattern is string {
+  return isNonemptyString(pattern) && _rePattern.test(pattern)
+}
+
+/**
+ * Возвращает специфичность совпадения шаблона с медиа типом или `-1`, если медиа тип не соответствует шаблону.
+ * Точное совпадение имеет наибольшую специфичность, шаблон `*\/*` - наименьшую.
+ *
+ * @param pattern   Шаблон {@link isMediaTypePattern()}.
+ * @param mediaType Медиа тип в нижнем регистре без параметров.
+ */
+function matchMediaType (pattern: string, mediaType: string): number {
+  if (pattern === mediaType) {
+    return 4
+  }
+  if (pattern === '*/*') {
+    return 0
+  }
+  const i = mediaType.indexOf('/')
+  if (i === -1) {
+    return -1
+  }
+  const type = mediaType.slice(0, i)
+  const [patternType, patternSubtype] = pattern.split('/') as [string, string]
+  if (patternType !== '*' && patternType !== type) {
+    return -1
+  }
+  if (patternSubtype === '*') {
+    return patternType === '*' ? 0 : 1
+  }
+  if (patternSubtype.startsWith('*+')) {
+    return mediaType.endsWith(patternSubtype.slice(1)) ? (patternType === '*' ? 2 : 3) : -1
+  }
+  return -1
+}
+
+/**
+ * Декодер `JSON`.
+ */
+class JsonResponseDecoder extends ResponseDecoderLike {
+  get kind (): 'json' { return 'json' }
+
+  decode (response: Response): Promise<any> {
+    return response.json()
+  }
+}
+
+/**
+ * Декодер текста.
+ */
+class TextResponseDecoder extends ResponseDecoderLike {
+  get kind (): 'text' { return 'text' }
+
+  decode (response: Response): Promise<string> {
+    return response.text()
+  }
+}
+
+/**
+ * Декодер `XML`. Возвращает текст документа, так как `DOMParser` доступен не во всех окружениях.
+ */
+class XmlResponseDecoder extends ResponseDecoderLike {
+  get kind (): 'xml' { return 'xml' }
+
+  decode (response: Response): Promise<string> {
+    return response.text()
+  }
+}
+
+/**
+ * Декодер `multipart/form-data` и `application/x-www-form-urlencoded` в {@link FormData}.
+ */
+class FormDataResponseDecoder extends ResponseDecoderLike {
+  get kind (): 'formData' { return 'formData' }
+
+  decode (response: Response): Promise<FormData> {
+    return response.formData()
+  }
+}
+
+/**
+ * Декодер `NDJSON`. Возвращает массив значений непустых строк.
+ *
+ * Тело ответа читается полностью, для чтения по мере поступления используйте `NdjsonStreamMiddleware`.
+ */
+class NdjsonResponseDecoder extends ResponseDecoderLike {
+  get kind (): 'ndjson' { return 'ndjson' }
+
+  async decode (response: Response): Promise<any[]> {
+    const lines = (await response.text()).split('\n')
+    const items: any[] = []
+    for (let i = 0; i < lines.length; ++i) {
+      const value = parseJsonLine(lines[i]!, i + 1)
+      if (value !== undefined) {
+        items.push(value)
+      }
+    }
+    return items
+  }
+}
+
+/**
+ * Декодер в {@link ArrayBuffer}.
+ */
+class ArrayBufferResponseDecoder extends ResponseDecoderLike {
+  get kind (): 'arrayBuffer' { return 'arrayBuffer' }
+
+  decode (response: Response): Promise<ArrayBuffer> {
+    return response.arrayBuffer()
+  }
+}
+
+/**
+ * Декодер в {@link Blob}.
+ */
+class BlobResponseDecoder extends ResponseDecoderLike {
+  get kind (): 'blob' { return 'blob' }
+
+  decode (response: Response): Promise<Blob> {
+    return response.blob()
+  }
+}
+
+/**
+ * Реестр декодеров тела ответа {@link ResponseDecoderLike}. Ключом является шаблон медиа типа
+ * {@link isMediaTypePattern()}.
+ */
+class ResponseDecoderRegistry extends RegistryBase<string, ResponseDecoderLike> {
+  /**
+   * Регистрирует декодер для шаблона медиа типа.
+   *
+   * @param pattern Шаблон медиа типа в нижнем регистре.
+   * @param decoder Декодер.
+   */
+  register (pattern: string, decoder: ResponseDecoderLike): void {
+    if (this._frozen) {
+      throw new ConfigureError(errorDetails.ConfigureError(`ResponseDecoderRegistry заморожен и не может зарегистрировать новый декодер ${safeToJson(pattern)}.`))
+    }
+    if (!isMediaTypePattern(pattern)) {
+      throw new ConfigureError(errorDetails.ConfigureError(`Ключом декодера должен быть шаблон медиа типа в нижнем регистре, получено: ${safeToJson(pattern)}.`))
+    }
+    if (!(decoder instanceof ResponseDecoderLike)) {
+      throw new ConfigureError(errorDetails.ConfigureError(`Аргументом 'decoder' должен быть допустимый 'ResponseDecoderLike', получено: ${safeToJson(decoder)}`))
+    }
+    if (this._items.has(pattern)) {
+      throw new ConfigureError(errorDetails.ConfigureError(`Декодер "${pattern}" уже зарегистрирован.`))
+    }
+    this._items.set(pattern, decoder)
+  }
+
+  /**
+   * Возвращает декодер с наиболее специфичным шаблоном для значения заголовка `Content-Type` или `null`.
+   */
+  find (contentType: undefined | null | string): null | ResponseDecoderLike {
+    if (!isNonemptyString(contentType)) {
+      return null
+    }
+    const mediaType = mediaTypeOf(contentType)
+    let found: null | ResponseDecoderLike = null
+    let score = -1
+    for (const pattern of this.keys) {
+      const value = matchMediaType(pattern, mediaType)
+      if (value > score) {
+        score = value
+        found = this._get(pattern)!
+      }
+    }
+    return found
+  }
+}
+
+export {
+  isMediaTypePattern,
+  matchMediaType,
+  JsonResponseDecoder,
+  TextResponseDecoder,
+  XmlResponseDecoder,
+  FormDataResponseDecoder,
+  NdjsonResponseDecoder,
+  ArrayBufferResponseDecoder,
+  BlobResponseDecoder,
+  ResponseDecoderRegistry
+}
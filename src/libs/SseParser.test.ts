@@ -0,0 +1,101 @@
+import { test, expect } from 'vitest'
+import { AbortError, StatusError } from '../errors.js'
+import type { ApiRouterError } from '../errors.js'
+import type { TEndpointSseConfig } from '../configs/EndpointSseConfig.js'
+import { MockRequestMiddleware } from '../middlewares/MockRequestMiddleware.js'
+import { Environment } from '../Environment.js'
+import { Endpoints } from '../Endpoints.js'
+import { type TSseEvent, SseParser } from './SseParser.js'
+
+test('SseParser', () => {
+  const parser = new SseParser()
+  // Строки разорваны между фрагментами, '\r\n' разорван между фрагментами
+  expect(parser.push('\uFEFF: comment\nevent: tick\nda')).toStrictEqual([])
+  expect(parser.push('ta: 1\ndata:2\r')).toStrictEqual([])
+  expect(parser.push('\nid: 7\nretry: 50\n\n')).toStrictEqual([
+    { type: 'tick', data: '1\n2', lastEventId: '7', retry: 50 }
+  ])
+  // Идентификатор сохраняется, событие без data не доставляется, недопустимый retry игнорируется
+  expect(parser.push('event: empty\n\nretry: x\ndata\n\n')).toStrictEqual([
+    { type: 'message', data: '', lastEventId: '7', retry: null }
+  ])
+  expect(parser.retry).toBe(50)
+  // Незавершенное событие сбрасывается при разрыве соединения
+  parser.push('data: lost\n')
+  parser.reset()
+  expect(parser.push('data: next\n\n')).toStrictEqual([{ type: 'message', data: 'next', lastEventId: '7', retry: null }])
+  expect(new SseParser('5').lastEventId).toBe('5')
+})
+
+test('SseParser: SseContext', async () => {
+  const mock = new MockRequestMiddleware()
+  const eventStream = { 'content-type': 'text/event-stream' }
+  mock.routes
+    .on('GET', '/api/events', { body: 'retry: 10\nid: 1\ndata: a\n\n', headers: eventStream }, { times: 1 })
+    // Переподключение с Last-Event-ID, поток остается открытым
+    .on('GET', '/api/events', ({ headers }) => ({
+      body: new ReadableStream({
+        start (controller) {
+          const lastEventId = new Map(headers).get('last-event-id')
+          controller.enqueue(new TextEncoder().encode(`event: tick\nid: 2\ndata: ${lastEventId}\n\n`))
+        }
+      }),
+      headers: eventStream
+    }))
+    .on('GET', '/api/fail', { status: 500 })
+  const env = new Environment({
+    middlewares: [mock],
+    executorKindMap: new Map([['http', mock.kind], ['sse', mock.kind]])
+  })
+
+  const events: TSseEvent[] = []
+  let resolve: (error: ApiRouterError) => void
+  const closed = new Promise<ApiRouterError>((ok) => resolve = ok)
+  const controller = new AbortController()
+
+  class EndpointsImpl extends Endpoints<'EVENTS' | 'FAIL'> {
+    readonly EVENTS: TEndpointSseConfig = { kind: 'sse', path: 'events', handler: 'onEvent' }
+    readonly FAIL: TEndpointSseConfig = { kind: 'sse', path: 'fail', handler: (_ok, _value, error) => resolveFail(error!) }
+
+    constructor() {
+      super(env, { path: 'http://localhost/api' }, true)
+    }
+
+    onEvent (ok: boolean, event: null | TSseEvent, error?: null | ApiRouterError): void {
+      if (ok) {
+        events.push(event!)
+        if (events.length === 2) {
+          controller.abort()
+        }
+      }
+      else {
+        resolve(error!)
+      }
+    }
+  }
+
+  let resolveFail: (error: ApiRouterError) => void
+  const failed = new Promise<ApiRouterError>((ok) => resolveFail = ok)
+
+  const endpoints = new EndpointsImpl()
+  expect(endpoints.exec('EVENTS', { method: 'GET', abortSignal: controller.signal })).toBeUndefined()
+  expect(await closed).toBeInstanceOf(AbortError)
+  expect(events).toStrictEqual([
+    { type: 'message', data: 'a', lastEventId: '1', retry: 10 },
+    { type: 'tick', data: '1', lastEventId: '2', retry: null }
+  ])
+  expect(new Map(mock.routes.callsOf('/api/events')[0]!.headers).get('accept')).toBe('text/event-stream')
+
+  // Статус ошибки завершает поток без переподключения
+  endpoints.exec('FAIL', { method: 'GET' })
+  expect(await failed).toBeInstanceOf(StatusError)
+  expect(mock.routes.callsOf('/api/fail').length).toBe(1)
+
+  // Конфигурация без обработчика недопустима
+  expect(env.url({ kind: 'sse', path: 'http://localhost/api/events' }).ok).toBe(false)
+  // Очередь и выключатель не используются и не создаются
+  const queued = { kind: 'sse', path: 'http://localhost/api/events', handler: () => null, queueKey: 'sse', circuitBreaker: { key: 'sse' } } as const
+  expect(env.url(queued).ok).toBe(true)
+  expect(env.namedQueue.tryGet('sse')).toBeNull()
+  expect(env.circuitBreakers.tryGet('sse')).toBeNull()
+})
@@ -0,0 +1,169 @@
+/**
+ * Событие потока `text/event-stream`.
+ */
+interface TSseEvent {
+  /**
+   * Тип события из поля `event` или `'message'` по умолчанию.
+   */
+  readonly type: string
+  /**
+   * Строки полей `data`, объединенные через `\n`.
+   */
+  readonly data: string
+  /**
+   * Последний идентификатор события из поля `id`. Сохраняется между событиями, пока сервер его не изменит.
+   */
+  readonly lastEventId: string
+  /**
+   * Значение поля `retry`, полученное вместе с этим событием, или `null`.
+   */
+  readonly retry: null | number
+}
+
+const _reRetry = /^\d+$/
+
+/**
+ * Инкрементальный разборщик потока `text/event-stream` по правилам
+ * [HTML Living Standard](https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation).
+ *
+ * Фрагменты передаются в {@link push()} по мере поступления, строки могут быть разорваны между фрагментами. Поле `retry`
+ * без последующего события доступно в {@link retry}.
+ *
+ * @example
+ * ```ts
+ * const parser = new SseParser()
+ * parser.push('event: tick\ndata: 1\n\n') // [{ type: 'tick', data: '1', lastEventId: '', retry: null }]
+ * ```
+ */
+class SseParser {
+  protected _buffer = ''
+  protected _started = false
+  protected _pendingCR = false
+  protected _type = ''
+  protected _data: string[] = []
+  protected _lastEventId = ''
+  protected _retry: null | number = null
+  protected _eventRetry: null | number = null
+
+  /**
+   * @param lastEventId Идентификатор последнего события, полученный до переподключения.
+   */
+  constructor(lastEventId?: undefined | null | string) {
+    this._lastEventId = lastEventId ?? ''
+  }
+
+  /**
+   * Идентификатор последнего события для заголовка `Last-Event-ID`.
+   */
+  get lastEventId (): string {
+    return this._lastEventId
+  }
+
+  /**
+   * Последнее значение поля `retry` или `null`, если сервер его не передавал.
+   */
+  get retry (): null | number {
+    return this._retry
+  }
+
+  protected _processField (field: string, value: string): void {
+    switch (field) {
+      case 'event':
+        this._type = value
+        break
+      case 'data':
+        this._data.push(value)
+        break
+      case 'id':
+        // Идентификатор с символом NULL игнорируется
+        if (!value.includes('\0')) {
+          this._lastEventId = value
+        }
+        break
+      case 'retry':
+        if (_reRetry.test(value)) {
+          this._eventRetry = this._retry = Number.parseInt(value, 10)
+        }
+        break
+      default:
+        break
+    }
+  }
+
+  protected _dispatch (events: TSseEvent[]): void {
+    if (this._data.length > 0) {
+      events.push(Object.freeze({
+        type: this._type || 'message',
+        data: this._data.join('\n'),
+        lastEventId: this._lastEventId,
+        retry: this._eventRetry
+      }))
+      this._eventRetry = null
+    }
+    this._type = ''
+    this._data = []
+  }
+
+  protected _processLine (line: string, events: TSseEvent[]): void {
+    if (!line) {
+      this._dispatch(events)
+      return
+    }
+    // Комментарий
+    if (line.startsWith(':')) {
+      return
+    }
+    const i = line.indexOf(':')
+    if (i === -1) {
+      this._processField(line, '')
+    }
+    else {
+      const value = line.slice(i + 1)
+      this._processField(line.slice(0, i), value.startsWith(' ') ? value.slice(1) : value)
+    }
+  }
+
+  /**
+   * Добавляет фрагмент потока и возвращает события, завершенные пустой строкой.
+   *
+   * @param chunk Декодированный фрагмент `UTF-8`.
+   */
+  push (chunk: string): TSseEvent[] {
+    const events: TSseEvent[] = []
+    if (!this._started && chunk) {
+      this._started = true
+      if (chunk.startsWith('\uFEFF')) {
+        chunk = chunk.slice(1)
+      }
+    }
+    // '\r' в конце предыдущего фрагмента уже завершил строку и следующий '\n' относится к нему
+    if (this._pendingCR && chunk.startsWith('\n')) {
+      chunk = chunk.slice(1)
+    }
+    this._pendingCR = chunk.endsWith('\r')
+    const lines = (this._buffer + chunk).split(/\r\n|\r|\n/)
+    this._buffer = lines.pop()!
+    for (const line of lines) {
+      this._processLine(line, events)
+    }
+    return events
+  }
+
+  /**
+   * Сбрасывает незавершенное событие. Вызывается при разрыве соединения: событие без завершающей пустой строки
+   * не доставляется.
+   */
+  reset (): void {
+    this._buffer = ''
+    this._started = false
+    this._pendingCR = false
+    this._type = ''
+    this._data = []
+    this._eventRetry = null
+  }
+}
+
+export {
+  type TSseEvent,
+  SseParser
+}
@@ -0,0 +1,112 @@
+import { safeToJson } from '../utils.js'
+import { errorDetails, StatusError, UnpackError } from '../errors.js'
+import type { HttpContext } from '../contexts/HttpContext.js'
+import { Middleware } from '../interfaces/MiddlewareLike.js'
+import type { ResponseDecoderLike } from '../interfaces/ResponseDecoderLike.js'
+import { mediaTypeOf } from '../libs/BodySerializer.js'
+import { matchMediaType } from '../libs/ResponseDecoder.js'
+
+/**
+ * Декодирует тело ответа декодером {@link ResponseDecoderLike}, который выбирается в реестре
+ * {@link IEnvironment.decoderRegistry} по заголовку `Content-Type`.
+ *
+ * Если конфигурация определяет `responseTypes`, медиа тип ответа должен соответствовать одному из шаблонов, иначе
+ * будет вызвана {@link UnpackError}. Ответы со статусом `204 | 205` возвращают `null`.
+ *
+ * Для ответа с ошибочным статусом вызывается {@link StatusError}, в `detail.data` которой передается декодированное
+ * тело ответа, если для него есть декодер. Установленный как `errorprocessor`, этот же обработчик декодирует тело для
+ * {@link StatusError} других `postprocessor`.
+ */
+class DecodeResponseMiddleware extends Middleware<Response, any> {
+  static get kind (): 'DecodeResponseMiddleware' { return 'DecodeResponseMiddleware' }
+  get kind (): string { return 'DecodeResponseMiddleware' }
+
+  protected async _throwResponseStatusError (ctx: HttpContext<any, any>, response: Response): Promise<never> {
+    const detail = errorDetails.StatusError(response.status, ctx.url.toString())
+    const body = await this._tryDecodeErrorBody(ctx, response)
+    if (body !== undefined) {
+      detail.data = body
+    }
+    throw new StatusError(detail)
+  }
+
+  /**
+   * Возвратит декодированное тело ответа с ошибкой или `undefined`, если декодера нет или тело не удалось прочитать.
+   */
+  protected async _tryDecodeErrorBody (ctx: HttpContext<any, any>, response: Response): Promise<any> {
+    if (response.bodyUsed) {
+      return undefined
+    }
+    const contentType = response.headers.get('content-type')
+    const decoder = ctx.config.env.decoderRegistry.find(contentType)
+    if (!decoder) {
+      return undefined
+    }
+    try {
+      return await decoder.decode(response, contentType!)
+    } catch (_) {
+      return undefined
+    }
+  }
+
+  protected _throwResponseTypeError (ctx: HttpContext<any, any>, contentType: null | string, message: string): never {
+    const detail = errorDetails.UnpackError(message)
+    detail.url = ctx.url.toString()
+    detail.data = { contentType, responseTypes: ctx.config.responseTypes }
+    throw new UnpackError(detail)
+  }
+
+  protected _findDecoder (ctx: HttpContext<any, any>, response: Response): { decoder: ResponseDecoderLike, contentType: string } {
+    const contentType = response.headers.get('content-type')
+    const mediaType = contentType ? mediaTypeOf(contentType) : ''
+    const responseTypes = ctx.config.responseTypes
+    if (responseTypes && !responseTypes.some((pattern) => matchMediaType(pattern, mediaType) !== -1)) {
+      this._throwResponseTypeError(ctx, contentType, `Ожидался один из ${safeToJson(responseTypes)}, получен 'Content-Type: ${safeToJson(contentType)}'.`)
+    }
+    const decoder = ctx.config.env.decoderRegistry.find(contentType)
+    if (!decoder) {
+      this._throwResponseTypeError(ctx, contentType, `Декодер для 'Content-Type: ${safeToJson(contentType)}' не зарегистрирован.`)
+    }
+    return { decoder, contentType: contentType! }
+  }
+
+  protected async _decode (ctx: HttpContext<any, any>, response: Response, decoder: ResponseDecoderLike, contentType: string): Promise<any> {
+    try {
+      return await decoder.decode(response, contentType)
+    } catch (e) {
+      if (e instanceof UnpackError) {
+        e.detail.url ??= ctx.url.toString()
+        throw e
+      }
+      const detail = errorDetails.UnpackError(`Декодер ${safeToJson(decoder.kind)} завершился ошибкой.`, e)
+      detail.url = ctx.url.toString()
+      throw new UnpackError(detail)
+    }
+  }
+
+  override async process (ctx: HttpContext<any, any>, response: Response): Promise<any> {
+    if (!response.ok) {
+      await this._throwResponseStatusError(ctx, response)
+    }
+    if (response.status === 204 || response.status === 205) {
+      return null
+    }
+    const { decoder, contentType } = this._findDecoder(ctx, response)
+    return this._decode(ctx, response, decoder, contentType)
+  }
+
+  override async processError (ctx: HttpContext<any, any>, response: any, error: any): Promise<any> {
+    if ((error instanceof StatusError) && (response instanceof Response)) {
+      const body = await this._tryDecodeErrorBody(ctx, response)
+      if (body !== undefined) {
+        error.detail.data = body
+        throw error
+      }
+    }
+    return ctx.passthrough()
+  }
+}
+
+export {
+  DecodeResponseMiddleware
+}
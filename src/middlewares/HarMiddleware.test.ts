@@ -0,0 +1,86 @@
+import { test, expect } from 'vitest'
+import type { TResponse } from '../types.js'
+import { ConnectionError } from '../errors.js'
+import type { TEndpointHttpConfig } from '../configs/EndpointHttpConfig.js'
+import { Environment } from '../Environment.js'
+import { Endpoints } from '../Endpoints.js'
+import { MockRequestMiddleware } from './MockRequestMiddleware.js'
+import { type THar, HarRecorder, HarRecordMiddleware, HarReplayMiddleware } from './HarMiddleware.js'
+
+class EndpointsImpl extends Endpoints<'ITEMS' | 'IMAGE'> {
+  readonly ITEMS: TEndpointHttpConfig = {
+    path: 'items',
+    postprocessor: 'JsonResponseMiddleware',
+    headers: { authorization: 'secret' }
+  }
+
+  readonly IMAGE: TEndpointHttpConfig = {
+    path: 'image',
+    postprocessor: 'HeadersResponseMiddleware'
+  }
+
+  constructor(env: Environment) {
+    super(env, { path: 'http://localhost/api' })
+  }
+
+  find<T> (query: Record<string, string>): Promise<TResponse<T>> {
+    return this.exec('ITEMS', { method: 'GET', path: { path: null, query, hash: null } })
+  }
+
+  create<T> (data: Record<string, any>): Promise<TResponse<T>> {
+    return this.exec('ITEMS', { method: 'POST', data })
+  }
+
+  image (): Promise<TResponse<Headers>> {
+    return this.exec('IMAGE', { method: 'GET' })
+  }
+}
+
+test('HarRecordMiddleware + HarReplayMiddleware', async () => {
+  // Запись выполняется поверх MockRequestMiddleware, чтобы тест не зависел от сервера
+  const mock = new MockRequestMiddleware()
+  let counter = 0
+  mock.routes
+    .on('GET', '/api/items', ({ url }) => ({ json: { url, counter: ++counter } }))
+    .on('POST', '/api/items', ({ body }) => ({ status: 201, json: JSON.parse(body as string) }))
+    .on('GET', '/api/image', { body: new Uint8Array([0, 255, 1]), headers: { 'content-type': 'image/png' } })
+  const recorder = new HarRecorder(['authorization'])
+  const recordEnv = new Environment({
+    middlewares: [new HarRecordMiddleware(recorder, mock)],
+    executorKindMap: new Map([['http', 'harRecord']])
+  })
+  const recordEndpoints = new EndpointsImpl(recordEnv)
+  expect((await recordEndpoints.find({ a: '1', b: '2' })).ok).toBe(true)
+  expect((await recordEndpoints.find({ a: '1', b: '2' })).ok).toBe(true)
+  expect((await recordEndpoints.create({ name: 'item' })).value).toStrictEqual({ name: 'item' })
+  expect((await recordEndpoints.image()).ok).toBe(true)
+
+  // Документ сериализуется в HAR 1.2, заголовок authorization не сохраняется
+  const har = JSON.parse(JSON.stringify(recorder)) as THar
+  expect(har.log.version).toBe('1.2')
+  expect(har.log.entries.length).toBe(4)
+  expect(har.log.entries[0]!.request.headers.some((h) => h.name === 'authorization')).toBe(false)
+  expect(har.log.entries[0]!.request.queryString).toStrictEqual([{ name: 'a', value: '1' }, { name: 'b', value: '2' }])
+  expect(har.log.entries[2]!.request.postData!.text).toBe('{"name":"item"}')
+  expect(har.log.entries[3]!.response.content.encoding).toBe('base64')
+
+  const replay = new HarReplayMiddleware(har, { body: true })
+  const replayEnv = new Environment({
+    middlewares: [replay],
+    executorKindMap: new Map([['http', 'harReplay']])
+  })
+  const endpoints = new EndpointsImpl(replayEnv)
+
+  // Порядок query параметров не важен, повторяющиеся запросы получают записи по порядку
+  expect((await endpoints.find({ b: '2', a: '1' })).value).toMatchObject({ counter: 1 })
+  expect((await endpoints.find({ a: '1', b: '2' })).value).toMatchObject({ counter: 2 })
+  expect((await endpoints.find({ a: '1', b: '2' })).error).toBeInstanceOf(ConnectionError)
+  // Тело запроса участвует в сравнении
+  expect((await endpoints.create({ name: 'other' })).error).toBeInstanceOf(ConnectionError)
+  expect((await endpoints.create({ name: 'item' })).value).toStrictEqual({ name: 'item' })
+  const { value: headers } = await endpoints.image()
+  expect(headers!.get('content-type')).toBe('image/png')
+
+  replay.reset()
+  expect((await endpoints.find({ a: '1', b: '2' })).value).toMatchObject({ counter: 1 })
+})
@@ -0,0 +1,427 @@
+import { isArray, isFunction, isString, safeToJson } from '../utils.js'
+import { errorDetails, ConnectionError } from '../errors.js'
+import type { HttpContext } from '../contexts/HttpContext.js'
+import { type MiddlewareLike, Middleware } from '../interfaces/MiddlewareLike.js'
+import { HttpRequestMiddleware, setHttpRequestBody } from './HttpRequestMiddleware.js'
+
+/**
+ * Пара имя/значение HAR.
+ */
+interface THarNameValue {
+  name: string
+  value: string
+}
+
+/**
+ * Запрос HAR 1.2.
+ */
+interface THarRequest {
+  method: string
+  url: string
+  httpVersion: string
+  cookies: THarNameValue[]
+  headers: THarNameValue[]
+  queryString: THarNameValue[]
+  postData?: {
+    mimeType: string
+    text: string
+  }
+  headersSize: number
+  bodySize: number
+}
+
+/**
+ * Ответ HAR 1.2.
+ */
+interface THarResponse {
+  status: number
+  statusText: string
+  httpVersion: string
+  cookies: THarNameValue[]
+  headers: THarNameValue[]
+  content: {
+    size: number
+    mimeType: string
+    text?: string
+    encoding?: string
+  }
+  redirectURL: string
+  headersSize: number
+  bodySize: number
+}
+
+/**
+ * Запись HAR 1.2.
+ */
+interface THarEntry {
+  startedDateTime: string
+  time: number
+  request: THarRequest
+  response: THarResponse
+  cache: Record<string, any>
+  timings: {
+    send: number
+    wait: number
+    receive: number
+  }
+}
+
+/**
+ * Документ [HAR 1.2](http://www.softwareishard.com/blog/har-12-spec/).
+ */
+interface THar {
+  log: {
+    version: string
+    creator: { name: string, version: string }
+    entries: THarEntry[]
+  }
+}
+
+const _reTextMimeType = /^text\/|[/+](json|xml|javascript|x-www-form-urlencoded)\b/i
+
+/**
+ * Заголовки, которые не передаются в восстановленный `Response`: тело в HAR хранится уже декодированным.
+ */
+const _replayExcludedHeaders = Object.freeze(['content-encoding', 'content-length', 'transfer-encoding'])
+
+function _normalizeHeaderNames (names: undefined | null | readonly string[]): ReadonlySet<string> {
+  return new Set(isArray(names) ? names.filter((v) => isString(v)).map((v) => v.toLowerCase()) : [])
+}
+
+function _bufferToBase64 (buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer)
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+function _base64ToBuffer (value: string): Uint8Array {
+  const binary = atob(value)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; ++i) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+function _queryString (url: URL): THarNameValue[] {
+  return [...url.searchParams].map(([name, value]) => ({ name, value }))
+}
+
+function _requestText (body: null | BodyInit): null | string {
+  if (isString(body)) {
+    return body
+  }
+  if (body instanceof URLSearchParams) {
+    return body.toString()
+  }
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    return new TextDecoder().decode(body)
+  }
+  // FormData, Blob и ReadableStream не могут быть прочитаны без изменения запроса
+  return null
+}
+
+/**
+ * Хранилище записей HAR, которое заполняет {@link HarRecordMiddleware}.
+ */
+class HarRecorder {
+  protected readonly _entries: THarEntry[] = []
+  protected readonly _ignoreHeaders: ReadonlySet<string>
+
+  /**
+   * @param ignoreHeaders Имена заголовков запроса и ответа, которые не сохраняются, например `authorization`.
+   */
+  constructor(ignoreHeaders?: undefined | null | readonly string[]) {
+    this._ignoreHeaders = _normalizeHeaderNames(ignoreHeaders)
+  }
+
+  get entries (): readonly THarEntry[] {
+    return this._entries
+  }
+
+  protected _headers (headers: Iterable<[string, string]>): THarNameValue[] {
+    const result: THarNameValue[] = []
+    for (const [name, value] of headers) {
+      if (!this._ignoreHeaders.has(name.toLowerCase())) {
+        result.push({ name, value })
+      }
+    }
+    return result
+  }
+
+  /**
+   * Добавляет запись. Тело ответа читается из копии `response.clone()` и оригинальный ответ остается доступным.
+   *
+   * @param ctx       Контекст запроса, из которого берутся метод, `URL`, заголовки и тело.
+   * @param response  Ответ сервера.
+   * @param startedAt Время начала запроса в `ms`.
+   */
+  async record (ctx: HttpContext<any, any>, response: Response, startedAt: number): Promise<THarEntry> {
+    const wait = Date.now() - startedAt
+    const body = await response.clone().arrayBuffer()
+    const time = Date.now() - startedAt
+    const url = new URL(ctx.url.toString())
+    const requestText = _requestText(ctx.requestInit.body)
+    const mimeType = response.headers.get('content-type') ?? ''
+    const isText = _reTextMimeType.test(mimeType)
+    const entry: THarEntry = {
+      startedDateTime: new Date(startedAt).toISOString(),
+      time,
+      request: {
+        method: ctx.method,
+        url: url.toString(),
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: this._headers(ctx.headers.copyEntries()),
+        queryString: _queryString(url),
+        headersSize: -1,
+        bodySize: requestText === null ? -1 : new TextEncoder().encode(requestText).byteLength
+      },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: this._headers(response.headers),
+        content: {
+          size: body.byteLength,
+          mimeType,
+          ...(isText
+            ? { text: new TextDecoder().decode(body) }
+            : { text: _bufferToBase64(body), encoding: 'base64' })
+        },
+        redirectURL: response.headers.get('location') ?? '',
+        headersSize: -1,
+        bodySize: body.byteLength
+      },
+      cache: {},
+      timings: { send: 0, wait, receive: time - wait }
+    }
+    if (requestText !== null) {
+      entry.request.postData = { mimeType: ctx.headers.get('content-type') ?? '', text: requestText }
+    }
+    this._entries.push(entry)
+    return entry
+  }
+
+  clear (): void {
+    this._entries.length = 0
+  }
+
+  /**
+   * Возвращает документ HAR 1.2, пригодный для `JSON.stringify()`.
+   */
+  toJSON (): THar {
+    return {
+      log: {
+        version: '1.2',
+        creator: { name: 'js-api-router', version: '1' },
+        entries: [...this._entries]
+      }
+    }
+  }
+}
+
+/**
+ * Обработчик запроса, который выполняет запрос вложенным `executor` и записывает запрос и ответ в {@link HarRecorder}.
+ *
+ * @example
+ * ```ts
+ * const recorder = new HarRecorder(['authorization'])
+ * const env = new Environment({ middlewares: [new HarRecordMiddleware(recorder)], executorKindMap: new Map([['http', 'harRecord']]) })
+ * // ... выполнение запросов
+ * writeFileSync('api.har', JSON.stringify(recorder))
+ * ```
+ */
+class HarRecordMiddleware extends Middleware<any, Response> {
+  static get kind (): 'harRecord' { return 'harRecord' }
+  get kind (): string { return 'harRecord' }
+
+  protected readonly _recorder: HarRecorder
+  protected readonly _executor: MiddlewareLike<any, Response>
+
+  /**
+   * @param recorder Хранилище записей. По умолчанию создается новое хранилище.
+   * @param executor Оборачиваемый обработчик запроса. По умолчанию {@link HttpRequestMiddleware}.
+   */
+  constructor(recorder?: undefined | null | HarRecorder, executor?: undefined | null | MiddlewareLike<any, Response>) {
+    super()
+    this._recorder = recorder ?? new HarRecorder()
+    this._executor = executor ?? new HttpRequestMiddleware()
+  }
+
+  get recorder (): HarRecorder {
+    return this._recorder
+  }
+
+  override async process (ctx: HttpContext<any, any>, data: any): Promise<Response> {
+    const startedAt = Date.now()
+    const response = await this._executor.process(ctx, data)
+    await this._recorder.record(ctx, response, startedAt)
+    return response
+  }
+}
+
+/**
+ * Описание запроса для сравнения с записью HAR.
+ */
+interface THarReplayRequest {
+  readonly method: string
+  readonly url: URL
+  readonly headers: readonly [string, string][]
+  readonly body: null | string
+}
+
+/**
+ * Правила сопоставления запросов с записями HAR.
+ */
+interface THarReplayOptions {
+  /**
+   * Сравнивать `query` параметры без учета порядка. По умолчанию `true`.
+   */
+  query?: undefined | null | boolean
+  /**
+   * Сравнивать текстовое тело запроса. По умолчанию `false`.
+   */
+  body?: undefined | null | boolean
+  /**
+   * Имена заголовков запроса, значения которых должны совпадать. По умолчанию заголовки не сравниваются.
+   */
+  headers?: undefined | null | readonly string[]
+  /**
+   * Имена заголовков, которые игнорируются при сравнении и не передаются в восстановленный ответ.
+   */
+  ignoreHeaders?: undefined | null | readonly string[]
+  /**
+   * Каждая запись используется один раз, повторяющиеся запросы получают записи в порядке записи. По умолчанию `true`.
+   * Если `false`, всегда используется первая подходящая запись.
+   */
+  consume?: undefined | null | boolean
+  /**
+   * Дополнительное пользовательское правило, которое вызывается после встроенных правил.
+   */
+  match?: undefined | null | ((entry: THarEntry, request: THarReplayRequest) => boolean)
+}
+
+function _sortedQuery (params: Iterable<[string, string]>): string {
+  return [...params].map(([k, v]) => `${k}=${v}`).sort().join('&')
+}
+
+/**
+ * Обработчик запроса, который возвращает ответы из записей HAR вместо обращения к серверу. Ответ проходит через те
+ * же `postprocessor`, что и реальный ответ. Если подходящей записи нет, запрос завершается ошибкой {@link ConnectionError}.
+ */
+class HarReplayMiddleware extends Middleware<any, Response> {
+  static get kind (): 'harReplay' { return 'harReplay' }
+  get kind (): string { return 'harReplay' }
+
+  protected readonly _entries: THarEntry[]
+  protected readonly _used = new Set<THarEntry>()
+  protected readonly _query: boolean
+  protected readonly _body: boolean
+  protected readonly _headers: ReadonlySet<string>
+  protected readonly _ignoreHeaders: ReadonlySet<string>
+  protected readonly _consume: boolean
+  protected readonly _match: null | ((entry: THarEntry, request: THarReplayRequest) => boolean)
+
+  /**
+   * @param har     Документ HAR или массив записей.
+   * @param options Правила сопоставления.
+   */
+  constructor(har: THar | readonly THarEntry[], options?: undefined | null | THarReplayOptions) {
+    super()
+    this._entries = Array.isArray(har) ? [...har as readonly THarEntry[]] : [...(har as THar).log.entries]
+    this._query = options?.query ?? true
+    this._body = options?.body ?? false
+    this._ignoreHeaders = _normalizeHeaderNames(options?.ignoreHeaders)
+    this._headers = new Set([..._normalizeHeaderNames(options?.headers)].filter((v) => !this._ignoreHeaders.has(v)))
+    this._consume = options?.consume ?? true
+    this._match = isFunction(options?.match) ? options.match : null
+  }
+
+  /**
+   * Сбрасывает использованные записи.
+   */
+  reset (): void {
+    this._used.clear()
+  }
+
+  protected _isMatch (entry: THarEntry, request: THarReplayRequest): boolean {
+    if (entry.request.method.toUpperCase() !== request.method) {
+      return false
+    }
+    const url = new URL(entry.request.url)
+    if (url.origin !== request.url.origin || url.pathname !== request.url.pathname) {
+      return false
+    }
+    if (this._query && _sortedQuery(url.searchParams) !== _sortedQuery(request.url.searchParams)) {
+      return false
+    }
+    if (this._body && (entry.request.postData?.text ?? null) !== request.body) {
+      return false
+    }
+    for (const name of this._headers) {
+      const recorded = entry.request.headers.find((h) => h.name.toLowerCase() === name)?.value ?? null
+      const actual = request.headers.find(([n]) => n.toLowerCase() === name)?.[1] ?? null
+      if (recorded !== actual) {
+        return false
+      }
+    }
+    return !this._match || this._match(entry, request)
+  }
+
+  protected _toResponse (entry: THarEntry): Response {
+    const headers = new Headers()
+    for (const { name, value } of entry.response.headers) {
+      const lower = name.toLowerCase()
+      if (!_replayExcludedHeaders.includes(lower) && !this._ignoreHeaders.has(lower)) {
+        headers.append(name, value)
+      }
+    }
+    const content = entry.response.content
+    const body = content.text === undefined
+      ? null
+      : content.encoding === 'base64' ? _base64ToBuffer(content.text) : content.text
+    // Статусы 204/304 не допускают тела ответа
+    const status = entry.response.status
+    return new Response((status === 204 || status === 304) ? null : body, {
+      status,
+      statusText: entry.response.statusText,
+      headers
+    })
+  }
+
+  override process (ctx: HttpContext<any, any>, data: any): Response {
+    setHttpRequestBody(ctx, data)
+    const request: THarReplayRequest = {
+      method: ctx.method,
+      url: new URL(ctx.url.toString()),
+      headers: ctx.headers.copyEntries(),
+      body: _requestText(ctx.requestInit.body)
+    }
+    const entry = this._entries.find((item) => !this._used.has(item) && this._isMatch(item, request))
+    if (!entry) {
+      throw new ConnectionError(errorDetails.ConnectionError(`HarReplayMiddleware. Запись для ${request.method} ${safeToJson(request.url.toString())} не найдена.`))
+    }
+    if (this._consume) {
+      this._used.add(entry)
+    }
+    return this._toResponse(entry)
+  }
+}
+
+export {
+  type THarNameValue,
+  type THarRequest,
+  type THarResponse,
+  type THarEntry,
+  type THar,
+  HarRecorder,
+  HarRecordMiddleware,
+  type THarReplayRequest,
+  type THarReplayOptions,
+  HarReplayMiddleware
+}
@@ -0,0 +1,24 @@
+import { errorDetails, StatusError } from '../errors.js'
+import type { HttpContext } from '../contexts/HttpContext.js'
+import { Middleware } from '../interfaces/MiddlewareLike.js'
+
+/**
+ * Обработчик ответа, который не читает тело и возвращает только заголовки {@link Response.headers}.
+ *
+ * Предназначен для запросов `HEAD` и `OPTIONS`, ответы на которые не имеют тела.
+ */
+class HeadersResponseMiddleware extends Middleware<Response, Headers> {
+  static get kind (): 'HeadersResponseMiddleware' { return 'HeadersResponseMiddleware' }
+  get kind (): 'HeadersResponseMiddleware' { return 'HeadersResponseMiddleware' }
+
+  override process (ctx: HttpContext<any, any>, response: Response): Headers {
+    if (!response.ok) {
+      throw new StatusError(errorDetails.StatusError(response.status, ctx.url.toString()))
+    }
+    return response.headers
+  }
+}
+
+export {
+  HeadersResponseMiddleware
+}
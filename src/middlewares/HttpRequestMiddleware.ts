@@ -1,6 +1,65 @@
 import { isNullish, isString } from '../utils.js'
+import { isHttpRequestMethodWithBody } from '../configs/types.js'
 import type { HttpContext } from '../contexts/HttpContext.js'
 import { Middleware } from '../interfaces/MiddlewareLike.js'
+import type { BodySerializerLike } from '../interfaces/BodySerializerLike.js'
+
+/**
+ * Возвращает сериализатор конфигурации {@link EndpointHttpConfig.serializer} или сериализатор, зарегистрированный для
+ * заголовка запроса `Content-Type`. Без заголовка используется сериализатор `application/json`.
+ */
+function _requestBodySerializer (ctx: HttpContext<any, any>): null | BodySerializerLike {
+  if (ctx.config.serializer) {
+    return ctx.config.serializer
+  }
+  const contentType = ctx.headers.get('content-type')
+  return ctx.config.env.serializerRegistry.find(contentType ?? 'application/json')
+}
+
+/**
+ * Устанавливает тело запроса {@link HttpContext.requestInit} по правилам {@link HttpRequestMiddleware}.
+ *
+ * @param ctx  Контекст запроса.
+ * @param data Входящее значение.
+ */
+function setHttpRequestBody (ctx: HttpContext<any, any>, data: any): void {
+  if (isHttpRequestMethodWithBody(ctx.method) && !isNullish(data)) {
+    // FormData - браузер самостоятельно установит заголовок content-type и границу multipart/form-data
+    // URLSearchParams - автоматически устанавливает `content-type: application/x-www-form-urlencoded`,
+    //   и ручная установка заголовка может привести к конфликту формата.
+    if ((data instanceof FormData) || (data instanceof URLSearchParams)) {
+      ctx.headers.delete('content-type')
+      ctx.requestInit.body = data
+    }
+    else if (
+      isString(data) ||
+      (data instanceof ReadableStream) ||
+      (data instanceof Blob) ||
+      ArrayBuffer.isView(data) || // ArrayBufferView
+      (data instanceof ArrayBuffer)
+    ) {
+      ctx.requestInit.body = data
+    }
+    else {
+      const serializer = _requestBodySerializer(ctx)
+      if (!serializer) {
+        ctx.requestInit.body = JSON.stringify(data)
+      }
+      else {
+        if (serializer.contentType) {
+          ctx.headers.set('content-type', serializer.contentType)
+        }
+        else {
+          ctx.headers.delete('content-type')
+        }
+        ctx.requestInit.body = serializer.serialize(data)
+      }
+    }
+  }
+  else {
+    ctx.requestInit.body = null
+  }
+}
 
 /**
  * Универсальный обработчик запроса {@link fetch()}.
@@ -11,8 +70,13 @@ import { Middleware } from '../interfaces/MiddlewareLike.js'
  *
  * Как обрабатывается тело запроса?:
  *
- *   1. Проверяется тип запроса `POST` и входящее значение, которое не должно быть равно `undefined | null`.
- *   2. Определяется допустимый тип и, если он не {@link BodyInit}, объект приводится к `json`.
+ *   1. Проверяется метод запроса `POST/PUT/PATCH/DELETE` и входящее значение, которое не должно быть равно `undefined | null`.
+ *      Для `GET/HEAD/OPTIONS` тело запроса всегда сбрасывается в `null`.
+ *   2. Определяется допустимый тип и, если он не {@link BodyInit}, значение передается сериализатору
+ *      {@link EndpointHttpConfig.serializer} или сериализатору для заголовка `Content-Type` из
+ *      {@link IEnvironment.serializerRegistry}. Сериализатор устанавливает заголовок `Content-Type`.
+ *      Без заголовка `Content-Type` используется сериализатор `application/json`, а для незарегистрированного
+ *      заголовка объект приводится к `json` без изменения заголовка.
  *   3. Для тела запроса {@link FormData} или {@link URLSearchParams} удаляется заголовок `Content-Type`.
  *   4. ... никаких других действий не производится и возвращается `Promise<Response>`.
  */
@@ -21,34 +85,12 @@ class HttpRequestMiddleware extends Middleware<any, Response> {
   get kind (): 'http' { return 'http' }
 
   override process (ctx: HttpContext<any, any>, data: any): Promise<Response> {
-    if (ctx.method === 'POST' && !isNullish(data)) {
-      // FormData - браузер самостоятельно установит заголовок content-type и границу multipart/form-data
-      // URLSearchParams - автоматически устанавливает `content-type: application/x-www-form-urlencoded`,
-      //   и ручная установка заголовка может привести к конфликту формата.
-      if ((data instanceof FormData) || (data instanceof URLSearchParams)) {
-        ctx.headers.delete('content-type')
-        ctx.requestInit.body = data
-      }
-      else if (
-        isString(data) ||
-        (data instanceof ReadableStream) ||
-        (data instanceof Blob) ||
-        ArrayBuffer.isView(data) || // ArrayBufferView
-        (data instanceof ArrayBuffer)
-      ) {
-        ctx.requestInit.body = data
-      }
-      else {
-        ctx.requestInit.body = JSON.stringify(data)
-      }
-    }
-    else {
-      ctx.requestInit.body = null
-    }
+    setHttpRequestBody(ctx, data)
     return fetch(ctx.url.toString(), ctx.requestInit.toCompatibleType())
   }
 }
 
 export {
+  setHttpRequestBody,
   HttpRequestMiddleware
 }
@@ -1,6 +1,7 @@
 import { isFunction, isNonemptyString, isObject, safeToJson } from '../utils.js'
-import { errorDetails, ConfigureError } from '../errors.js'
+import { errorDetails, ApiRouterError, ConfigureError, UnknownError } from '../errors.js'
 import { InstanceFactory } from '../interfaces/InstanceFactory.js'
+import { type ContextLike, PASSTHROUGH_MARKER } from '../interfaces/ContextLike.js'
 import { MiddlewareLike, type TMiddlewareConstructor } from '../interfaces/MiddlewareLike.js'
 import { RegistryBase } from '../libs/RegistryBase.js'
 import type { TNonemptyString } from '../types.js'
@@ -96,6 +97,42 @@ function isMiddlewareRef (value: any): value is TMiddlewareRef<any, any> {
   return isObject(value) && (MIDDLEWARE_REF_MARKER in value)
 }
 
+/**
+ * Последовательно вызывает {@link MiddlewareLike.processError()} для цепочки обработчиков ошибки и возвращает ошибку,
+ * которая должна быть передана клиенту.
+ *
+ * Каждый обработчик может:
+ *
+ *   + `return value` - значение заменяет текущее и передается следующему обработчику вместе с той же ошибкой.
+ *   + `return ctx.passthrough()` - обработчик пропускается.
+ *   + `throw ApiRouterError` - цепочка прерывается и эта ошибка возвращается клиенту.
+ *
+ * Если ни один из обработчиков не поднял исключение, возвращается оригинальная ошибка `error`. Исключения не являющиеся
+ * {@link ApiRouterError} оборачиваются в {@link UnknownError}.
+ *
+ * **Note:** Функция не зависит от конкретного типа контекста и может использоваться любой реализацией {@link ContextLike}.
+ *
+ * @param ctx   Контекст выполнения запроса.
+ * @param mw    Ссылка на обработчик или цепочку обработчиков.
+ * @param value Текущее значение, например `Response` со статусом отличным от `2xx`.
+ * @param error Текущая ошибка.
+ */
+async function middlewareProcessError (ctx: ContextLike, mw: TMiddlewareRef<any, any>, value: any, error: any): Promise<any> {
+  try {
+    for (const item of (mw.iterable ? mw.ref : [mw.ref])) {
+      const v = await item.processError(ctx, value, error)
+      if (v !== PASSTHROUGH_MARKER) {
+        value = v
+      }
+    }
+  } catch (e) {
+    return (e instanceof ApiRouterError)
+      ? e
+      : new UnknownError(errorDetails.UnknownError('Обработчик ошибки Middleware завершился неизвестной ошибкой.', e))
+  }
+  return error
+}
+
 /**
  * Итерируемая обертка с массивом ленивых ссылок {@link TMiddlewareInstanceRef}.
  */
@@ -186,8 +223,8 @@ class MiddlewareRegistry extends RegistryBase<string, TMiddlewareInstanceRef<any
   }
 
   protected _createLazyRef (key: TNonemptyString): TMiddlewareInstanceRef<any, any> {
-    const items = this._items
-    let wrapper = items.get(key)
+    const registry = this
+    let wrapper = registry._get(key)
     if (wrapper) {
       return wrapper
     }
@@ -198,7 +235,7 @@ class MiddlewareRegistry extends RegistryBase<string, TMiddlewareInstanceRef<any
     }
     wrapper = {
       get ref () {
-        const lazyRef = items.get(key)
+        const lazyRef = registry._get(key)
         if (!lazyRef) {
           throw new ConfigureError(errorDetails.ConfigureError(`Middleware ${safeToJson(key)} не зарегистрирован.`))
         }
@@ -286,6 +323,7 @@ export {
   middlewareRefFromFactory,
   middlewareRefFromIterable,
   isMiddlewareRef,
+  middlewareProcessError,
   MiddlewareIterable,
   MiddlewareRegistry
 }
@@ -0,0 +1,68 @@
+import { test, expect } from 'vitest'
+import type { TResponse } from '../types.js'
+import { ConnectionError, StatusError } from '../errors.js'
+import type { TEndpointHttpConfig } from '../configs/EndpointHttpConfig.js'
+import { Environment } from '../Environment.js'
+import { Endpoints } from '../Endpoints.js'
+import { MockRequestMiddleware } from './MockRequestMiddleware.js'
+
+test('MockRequestMiddleware', async () => {
+  const mock = new MockRequestMiddleware()
+  mock.routes
+    .on('GET', '/api/users/{id}', ({ params }) => ({ json: { id: params.id } }))
+    .on('POST', '/api/users', { status: 201, json: { created: true } }, { times: 1 })
+    .on('*', '/api/fail', { status: 503 })
+    .on('GET', '/api/slow', { json: null, body: 'slow' }, { delay: 1000 })
+
+  // Обработчик по умолчанию для kind:'http' заменяется без изменения конфигураций конечных точек
+  const env = new Environment({ middlewares: [mock], executorKindMap: new Map([['http', mock.kind]]) })
+
+  class EndpointsImpl extends Endpoints<'USERS' | 'FAIL' | 'SLOW'> {
+    readonly USERS: TEndpointHttpConfig = { path: 'users', postprocessor: 'JsonResponseMiddleware' }
+    readonly FAIL: TEndpointHttpConfig = { path: 'fail', postprocessor: 'JsonResponseMiddleware' }
+    readonly SLOW: TEndpointHttpConfig = { path: 'slow', postprocessor: 'TextResponseMiddleware' }
+
+    constructor() {
+      super(env, { path: 'http://localhost/api' })
+    }
+
+    getUser (id: number): Promise<TResponse<{ id: string }>> {
+      return this.exec('USERS', { method: 'GET', path: String(id), requestId: 'user' })
+    }
+
+    createUser (data: Record<string, any>): Promise<TResponse<any>> {
+      return this.exec('USERS', { method: 'POST', data })
+    }
+
+    fail (): Promise<TResponse<any>> {
+      return this.exec('FAIL', { method: 'DELETE' })
+    }
+
+    slow (abortSignal: AbortSignal): Promise<TResponse<string>> {
+      return this.exec('SLOW', { method: 'GET', abortSignal })
+    }
+  }
+
+  const endpoints = new EndpointsImpl()
+
+  expect((await endpoints.getUser(7)).value).toStrictEqual({ id: '7' })
+  expect((await endpoints.createUser({ name: 'Alex' })).value).toStrictEqual({ created: true })
+  // Маршрут с times:1 удален после первого ответа
+  expect((await endpoints.createUser({ name: 'Bob' })).error).toBeInstanceOf(ConnectionError)
+  expect((await endpoints.fail()).error).toBeInstanceOf(StatusError)
+
+  // Задержка прерывается AbortSignal запроса
+  const controller = new AbortController()
+  const promise = endpoints.slow(controller.signal)
+  controller.abort()
+  expect((await promise).ok).toBe(false)
+
+  // Вызовы фиксируются вместе с телом запроса
+  expect(mock.routes.calls.map((item) => item.route)).toStrictEqual(['/api/users/{id}', '/api/users', null, '/api/fail'])
+  const [user] = mock.routes.callsOf('/api/users/{id}', 'GET')
+  expect(user!.url).toBe('http://localhost/api/users/7')
+  expect(user!.requestId).toBe('user')
+  expect(mock.routes.callsOf('/api/users')[0]!.body).toBe('{"name":"Alex"}')
+  mock.routes.resetCalls()
+  expect(mock.routes.calls.length).toBe(0)
+})
@@ -0,0 +1,311 @@
+import { isFunction, isNonemptyString, safeToJson } from '../utils.js'
+import { errorDetails, ConfigureError, ConnectionError } from '../errors.js'
+import { type THttpRequestMethod, isHttpRequestMethod } from '../configs/types.js'
+import type { HttpContext } from '../contexts/HttpContext.js'
+import { Middleware } from '../interfaces/MiddlewareLike.js'
+import { setHttpRequestBody } from './HttpRequestMiddleware.js'
+
+/**
+ * Зафиксированный вызов {@link MockRequestMiddleware}.
+ */
+interface TMockCall {
+  readonly method: THttpRequestMethod
+  /**
+   * Полный `URL` запроса.
+   */
+  readonly url: string
+  /**
+   * Шаблон совпавшего маршрута или `null`, если маршрут не найден.
+   */
+  readonly route: null | string
+  /**
+   * Значения заполнителей шаблона маршрута.
+   */
+  readonly params: Readonly<Record<string, string>>
+  readonly headers: readonly [string, string][]
+  /**
+   * Тело запроса, установленное так же, как это делает {@link HttpRequestMiddleware}.
+   */
+  readonly body: null | BodyInit
+  readonly requestId: null | number | symbol | string
+}
+
+/**
+ * Параметры ответа, из которых будет создан `Response`.
+ */
+interface TMockResponseInit {
+  status?: undefined | null | number
+  statusText?: undefined | null | string
+  headers?: undefined | null | HeadersInit
+  /**
+   * Тело ответа. Игнорируется, если установлено {@link json}.
+   */
+  body?: undefined | null | BodyInit
+  /**
+   * Значение, которое будет приведено к `json` с заголовком `Content-Type: application/json`.
+   */
+  json?: undefined | null | any
+}
+
+/**
+ * Ответ маршрута: готовый `Response`, его параметры или функция, которая их вернет. Исключение функции передается
+ * контексту как ошибка `executor`.
+ */
+type TMockReply = Response | TMockResponseInit | ((call: TMockCall) => Response | TMockResponseInit | Promise<Response | TMockResponseInit>)
+
+/**
+ * Параметры маршрута.
+ */
+interface TMockRouteOptions {
+  /**
+   * Задержка ответа в `ms`. Задержка прерывается `AbortSignal` запроса.
+   */
+  delay?: undefined | null | number
+  /**
+   * Количество ответов, после которого маршрут удаляется. По умолчанию маршрут не ограничен.
+   */
+  times?: undefined | null | number
+}
+
+interface _TMockRoute {
+  readonly method: '*' | THttpRequestMethod
+  readonly template: string
+  readonly segments: readonly string[]
+  readonly reply: TMockReply
+  readonly delay: number
+  times: number
+}
+
+const _rePlaceholder = /^\{(.+)\}$/
+
+function _splitPath (path: string): string[] {
+  return path.split('/').filter((v) => v !== '')
+}
+
+function _matchRoute (route: _TMockRoute, segments: readonly string[]): null | Record<string, string> {
+  if (route.segments.length !== segments.length) {
+    return null
+  }
+  const params: Record<string, string> = {}
+  for (let i = 0; i < segments.length; ++i) {
+    const match = _rePlaceholder.exec(route.segments[i]!)
+    if (match) {
+      params[match[1]!] = decodeURIComponent(segments[i]!)
+    }
+    else if (route.segments[i] !== segments[i]) {
+      return null
+    }
+  }
+  return params
+}
+
+function _toResponse (reply: Response | TMockResponseInit): Response {
+  if (reply instanceof Response) {
+    return reply
+  }
+  const headers = new Headers(reply.headers ?? undefined)
+  let body = reply.body ?? null
+  if (reply.json !== undefined && reply.json !== null) {
+    body = JSON.stringify(reply.json)
+    if (!headers.has('content-type')) {
+      headers.set('content-type', 'application/json')
+    }
+  }
+  return new Response(body, {
+    status: reply.status ?? 200,
+    statusText: reply.statusText ?? '',
+    headers
+  })
+}
+
+function _pause (ms: number, signal: null | AbortSignal): Promise<void> {
+  return new Promise((ok, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(id)
+      reject(signal!.reason)
+    }
+    const id = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      ok()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Таблица маршрутов {@link MockRequestMiddleware}.
+ *
+ * Шаблон маршрута сравнивается с `pathname` запроса посегментно. Сегменты вида `{id}` совпадают с любым непустым
+ * сегментом и попадают в {@link TMockCall.params}. Маршруты проверяются в порядке добавления.
+ *
+ * @example
+ * ```ts
+ * const routes = new MockRouteTable()
+ *   .on('GET', '/api/users/{id}', ({ params }) => ({ json: { id: params.id } }))
+ *   .on('POST', '/api/users', { status: 201 }, { delay: 100, times: 1 })
+ *   .on('*', '/api/fail', () => { throw new Error('network') })
+ * ```
+ */
+class MockRouteTable {
+  protected readonly _routes: _TMockRoute[] = []
+  protected readonly _calls: TMockCall[] = []
+
+  /**
+   * Зафиксированные вызовы в порядке поступления.
+   */
+  get calls (): readonly TMockCall[] {
+    return this._calls
+  }
+
+  /**
+   * Добавляет маршрут.
+   *
+   * @param method   Метод запроса или `'*'` для любого метода.
+   * @param template Шаблон пути с заполнителями вида `{id}`.
+   * @param reply    Ответ маршрута.
+   * @param options  Задержка и количество ответов.
+   */
+  on (method: '*' | THttpRequestMethod, template: string, reply: TMockReply, options?: undefined | null | TMockRouteOptions): this {
+    if (method !== '*' && !isHttpRequestMethod(method)) {
+      throw new ConfigureError(errorDetails.ConfigureError(`Недопустимый метод маршрута MockRouteTable, получено: ${safeToJson(method)}.`))
+    }
+    if (!isNonemptyString(template)) {
+      throw new ConfigureError(errorDetails.ConfigureError(`Шаблоном маршрута MockRouteTable должна быть непустая строка, получено: ${safeToJson(template)}.`))
+    }
+    this._routes.push({
+      method,
+      template,
+      segments: _splitPath(template),
+      reply,
+      delay: (options?.delay && options.delay > 0) ? options.delay : 0,
+      times: (options?.times && options.times > 0) ? options.times : Number.POSITIVE_INFINITY
+    })
+    return this
+  }
+
+  /**
+   * Возвращает вызовы, совпавшие с шаблоном маршрута.
+   *
+   * @param template Шаблон, переданный в {@link on()}.
+   * @param method   Необязательный фильтр по методу.
+   */
+  callsOf (template: string, method?: undefined | null | THttpRequestMethod): TMockCall[] {
+    return this._calls.filter((item) => item.route === template && (!method || item.method === method))
+  }
+
+  /**
+   * Очищает список вызовов.
+   */
+  resetCalls (): void {
+    this._calls.length = 0
+  }
+
+  /**
+   * Удаляет все маршруты и вызовы.
+   */
+  clear (): void {
+    this._routes.length = 0
+    this._calls.length = 0
+  }
+
+  /**
+   * Находит маршрут, фиксирует вызов и возвращает ответ. Если маршрут не найден, вызов фиксируется и возвращается
+   * ошибка {@link ConnectionError}.
+   */
+  async dispatch (method: THttpRequestMethod, url: string, init: {
+    headers: readonly [string, string][]
+    body: null | BodyInit
+    requestId: null | number | symbol | string
+    signal: null | AbortSignal
+  }): Promise<Response> {
+    const segments = _splitPath(new URL(url).pathname)
+    let route: null | _TMockRoute = null
+    let params: null | Record<string, string> = null
+    for (const item of this._routes) {
+      if (item.method === '*' || item.method === method) {
+        params = _matchRoute(item, segments)
+        if (params) {
+          route = item
+          break
+        }
+      }
+    }
+    const call: TMockCall = Object.freeze({
+      method,
+      url,
+      route: route?.template ?? null,
+      params: Object.freeze(params ?? {}),
+      headers: init.headers,
+      body: init.body,
+      requestId: init.requestId
+    })
+    this._calls.push(call)
+    if (!route) {
+      throw new ConnectionError(errorDetails.ConnectionError(`MockRouteTable. Маршрут для ${method} ${safeToJson(url)} не найден.`))
+    }
+    if (--route.times <= 0) {
+      this._routes.splice(this._routes.indexOf(route), 1)
+    }
+    if (route.delay) {
+      await _pause(route.delay, init.signal)
+    }
+    const reply = isFunction<(call: TMockCall) => any>(route.reply) ? await route.reply(call) : route.reply
+    return _toResponse(reply)
+  }
+}
+
+/**
+ * Обработчик запроса, который вместо {@link fetch()} возвращает ответы {@link MockRouteTable}.
+ *
+ * Тело запроса устанавливается так же, как это делает {@link HttpRequestMiddleware}. Для замены обработчика по
+ * умолчанию зарегистрируйте экземпляр и укажите его в `executorKindMap`.
+ *
+ * @example
+ * ```ts
+ * const mock = new MockRequestMiddleware()
+ * mock.routes.on('GET', '/api/users/{id}', ({ params }) => ({ json: { id: params.id } }))
+ * const env = new Environment({ middlewares: [mock], executorKindMap: new Map([['http', mock.kind]]) })
+ * ```
+ */
+class MockRequestMiddleware extends Middleware<any, Response> {
+  static get kind (): 'mock' { return 'mock' }
+  get kind (): string { return 'mock' }
+
+  protected readonly _routes: MockRouteTable
+
+  /**
+   * @param routes Таблица маршрутов. По умолчанию создается пустая таблица.
+   */
+  constructor(routes?: undefined | null | MockRouteTable) {
+    super()
+    this._routes = routes ?? new MockRouteTable()
+  }
+
+  get routes (): MockRouteTable {
+    return this._routes
+  }
+
+  override process (ctx: HttpContext<any, any>, data: any): Promise<Response> {
+    setHttpRequestBody(ctx, data)
+    const init = ctx.requestInit
+    return this._routes.dispatch(ctx.method, ctx.url.toString(), {
+      headers: ctx.headers.copyEntries(),
+      body: init.body ?? null,
+      requestId: ctx.requestId,
+      signal: init.signal ?? null
+    })
+  }
+}
+
+export {
+  type TMockCall,
+  type TMockResponseInit,
+  type TMockReply,
+  type TMockRouteOptions,
+  MockRouteTable,
+  MockRequestMiddleware
+}
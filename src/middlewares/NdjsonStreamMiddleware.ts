@@ -0,0 +1,44 @@
+import { errorDetails, StatusError } from '../errors.js'
+import type { HttpContext } from '../contexts/HttpContext.js'
+import { Middleware } from '../interfaces/MiddlewareLike.js'
+import { readJsonLines } from '../libs/JsonLinesStream.js'
+
+/**
+ * Возвращает {@link AsyncIterable} значений строк `NDJSON` из `Response.body` без чтения всего тела ответа.
+ *
+ * Прерывание по `timeout` и пользовательскому `abortSignal` остается активным, пока поток не будет прочитан до конца
+ * или цикл не будет прерван. Если значение не будет прочитано, прерывание снимется только по `timeout` или
+ * пользовательскому `abortSignal`, которым потребитель должен отказаться от потока. Ошибки разбора строк вызываются итератором как {@link UnpackError} с номером строки в
+ * `detail.data.line`.
+ *
+ * **Warning:** Поток может быть прочитан только один раз и не должен использоваться с общими запросами `dedupe`.
+ *
+ * @example
+ * ```ts
+ * const { value } = await endpoints.exec('LOGS', { method: 'GET' })
+ * for await (const record of value) {
+ *   console.log(record)
+ * }
+ * ```
+ */
+class NdjsonStreamMiddleware extends Middleware<Response, AsyncIterable<any>> {
+  static get kind (): 'NdjsonStreamMiddleware' { return 'NdjsonStreamMiddleware' }
+  get kind (): string { return 'NdjsonStreamMiddleware' }
+
+  protected _throwResponseStatusError (ctx: HttpContext<any, any>, response: Response): never {
+    throw new StatusError(errorDetails.StatusError(response.status, ctx.url.toString()))
+  }
+
+  override process (ctx: HttpContext<any, any>, response: Response): AsyncIterable<any> {
+    if (!response.ok) {
+      this._throwResponseStatusError(ctx, response)
+    }
+    const stream = response.body ?? new ReadableStream<Uint8Array>({ start: (controller) => controller.close() })
+    const hold = ctx.holdAbortSignal()
+    return readJsonLines(stream, { signal: hold?.signal, onFinally: hold?.release })
+  }
+}
+
+export {
+  NdjsonStreamMiddleware
+}
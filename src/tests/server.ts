@@ -31,12 +31,16 @@ function httpCalculate (framer: MdpFramer, message: TMdpDecodedRequest<{ value1:
  *
  *  + `get /get_hello_world`
  *  + `get /api/get_json_hello_world`
+ *  + `get /api/get_counter_json`
  *  + `post /api/back_json`
  *  + `post /api/delay_and_back_json`
  *  + `post /api/throw_or_back_json`
+ *  + `post /api/retry_status_and_back_json`
  */
 function initializeBasicRoutes (_ctx: TestContext, server: SimpleHttpServer) {
   const framer = new MdpFramer()
+  const retryCounters = new Map<string, number>()
+  let getCounter = 0
 
   server.get('/get_hello_world', async (_req, res) => {
     res.headers.type.text()
@@ -47,6 +51,13 @@ function initializeBasicRoutes (_ctx: TestContext, server: SimpleHttpServer) {
     res.bodyJson({ message: 'Hello World!' })
   })
 
+  // Счетчик обращений с небольшой задержкой ответа
+  server.get('/api/get_counter_json', async (_req, res) => {
+    const count = ++getCounter
+    await asyncPause(50)
+    res.bodyJson({ count })
+  })
+
   server.post('/api/back_json', async (req, res) => {
     const message = await req.readJson() as any
     if (typeof message.delay === 'number') {
@@ -75,6 +86,23 @@ function initializeBasicRoutes (_ctx: TestContext, server: SimpleHttpServer) {
     }
   })
 
+  // Первые message.fails запросов с ключом message.key завершаются статусом message.code
+  server.post('/api/retry_status_and_back_json', async (req, res) => {
+    const message = await req.readJson() as any
+    const count = (retryCounters.get(message.key) ?? 0) + 1
+    retryCounters.set(message.key, count)
+    if (count <= message.fails) {
+      if (message.retryAfter) {
+        res.headers.set('retry-after', String(message.retryAfter))
+      }
+      res.headers.type.json()
+      res.bodyFail(message.code, JSON.stringify({ ...message, count }))
+    }
+    else {
+      res.bodyJson({ ...message, count })
+    }
+  })
+
   server.post('api/mdp', async (req, res) => {
     const buff = await req.readBody()
     const message = framer.decode(nodeBufferToArrayBuffer(buff))
@@ -126,16 +126,155 @@ function numericBoolOrNull (value: any): null | TNumericBool {
 
 /**
  * Функция получения `number > 0`.
+ *
+ * Второй параметр `previous` - предыдущая задержка или `0` для первой повторной попытки. Используется стратегией
+ * `jitter:'decorrelated'` и может игнорироваться пользовательскими функциями.
+ */
+type TFnRetryDelay = ((attempt: number, previous?: undefined | number) => TPositiveNumber) & { __TFnRetryDelay: never }
+
+/**
+ * Имя встроенной стратегии задержки повторных попыток:
+ *
+ *  + `linear`      - `base * attempt`.
+ *  + `exponential` - `base * factor ** (attempt - 1)`.
+ */
+type TRetryDelayStrategyName = 'linear' | 'exponential'
+
+/**
+ * Случайный разброс задержки, который предотвращает одновременные повторы множества клиентов:
+ *
+ *  + `full`         - `random(0, delay)`.
+ *  + `equal`        - `delay / 2 + random(0, delay / 2)`.
+ *  + `decorrelated` - `random(base, previous * 3)`, не зависит от `attempt` и `factor`.
+ *
+ * DOC https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/
  */
-type TFnRetryDelay = ((attempt: number) => TPositiveNumber) & { __TFnRetryDelay: never }
+type TRetryDelayJitter = 'full' | 'equal' | 'decorrelated'
+
+/**
+ * Параметры встроенной стратегии задержки повторных попыток.
+ */
+interface TRetryDelayStrategy {
+  /**
+   * Имя стратегии.
+   */
+  strategy: TRetryDelayStrategyName
+  /**
+   * Начальная задержка в `ms`. По умолчанию `100`.
+   */
+  base?: undefined | null | number
+  /**
+   * Максимальная задержка в `ms`. По умолчанию `30000`.
+   */
+  max?: undefined | null | number
+  /**
+   * Множитель стратегии `exponential`. По умолчанию `2`.
+   */
+  factor?: undefined | null | number
+  /**
+   * Случайный разброс задержки. По умолчанию не используется.
+   */
+  jitter?: undefined | null | TRetryDelayJitter
+}
+
+/**
+ * Пользовательский параметр задержки повторных попыток: число `ms`, функция `(attempt, previous) => delay`,
+ * имя стратегии {@link TRetryDelayStrategyName} или параметры {@link TRetryDelayStrategy}.
+ */
+type TRetryDelay = number | ((attempt: number, previous?: undefined | number) => number) | TRetryDelayStrategyName | TRetryDelayStrategy
+
+/**
+ * Создает функцию задержки для встроенной стратегии. Недопустимые параметры заменяются значениями по умолчанию.
+ *
+ * @param options Имя или параметры стратегии.
+ */
+function createRetryDelayStrategy (options: TRetryDelayStrategyName | TRetryDelayStrategy): TFnRetryDelay {
+  const { strategy, base: b, max: m, factor: f, jitter } = (typeof options === 'string') ? { strategy: options } as TRetryDelayStrategy : options
+  const base = isPositiveNumber(b) ? b : 100
+  const max = isPositiveNumber(m) ? Math.max(m, base) : Math.max(30000, base)
+  const factor = (isPositiveNumber(f) && f >= 1) ? f : 2
+  if (jitter === 'decorrelated') {
+    return ((_: number, previous?: undefined | number) => {
+      const prev = (isPositiveNumber(previous) && previous > base) ? previous : base
+      return Math.min(max, base + Math.random() * (prev * 3 - base))
+    }) as TFnRetryDelay
+  }
+  const delayOf = strategy === 'linear'
+    ? (attempt: number) => Math.min(max, base * Math.max(1, attempt))
+    : (attempt: number) => Math.min(max, base * factor ** Math.max(0, attempt - 1))
+  if (jitter === 'full') {
+    return ((attempt: number) => Math.random() * delayOf(attempt)) as TFnRetryDelay
+  }
+  if (jitter === 'equal') {
+    return ((attempt: number) => {
+      const half = delayOf(attempt) / 2
+      return half + Math.random() * half
+    }) as TFnRetryDelay
+  }
+  return delayOf as TFnRetryDelay
+}
+
+/**
+ * Является ли значение именем или параметрами встроенной стратегии {@link TRetryDelayStrategy}.
+ */
+function isRetryDelayStrategy (value: any): value is TRetryDelayStrategyName | TRetryDelayStrategy {
+  const name = (typeof value === 'string') ? value : (value !== null && typeof value === 'object') ? value.strategy : null
+  return name === 'linear' || name === 'exponential'
+}
 
 /**
  * Возвращает функцию получения `delay` или `null`.
  *
- * Пользовательская функция не может быть проверена и возвращается как есть.
+ * Пользовательская функция не может быть проверена и возвращается как есть. Встроенные стратегии
+ * {@link TRetryDelayStrategy} приводятся к функции {@link createRetryDelayStrategy()}.
  */
-function fnRetryDelayOrNull (value?: any | number | ((attempt: number) => number)): null | TFnRetryDelay {
-  return (typeof value === 'function') ? value : isPositiveNumber(value) ? ((_: any) => value) as TFnRetryDelay : null
+function fnRetryDelayOrNull (value?: any | TRetryDelay): null | TFnRetryDelay {
+  return (typeof value === 'function')
+    ? value
+    : isPositiveNumber(value)
+      ? ((_: any) => value) as TFnRetryDelay
+      : isRetryDelayStrategy(value) ? createRetryDelayStrategy(value) : null
+}
+
+/**
+ * Время в `ms`, затраченное на этапы запроса. Для повторных попыток время суммируется.
+ */
+interface TResponseTimings {
+  /**
+   * Ожидание в очереди.
+   */
+  readonly queued: number
+  /**
+   * Выполнение `executor` или чтение кеша.
+   */
+  readonly fetching: number
+  /**
+   * Выполнение `postprocessor`.
+   */
+  readonly postprocessing: number
+}
+
+/**
+ * Метаданные ответа, которые заполняет `HttpContext` и которые недоступны после преобразования `Response`.
+ */
+interface TResponseMeta {
+  /**
+   * Статус последнего полученного ответа или `null`, если ответ не был получен.
+   */
+  readonly status: null | number
+  /**
+   * Заголовки последнего полученного ответа или `null`.
+   */
+  readonly headers: null | Headers
+  /**
+   * Итоговый `URL` ответа после перенаправлений или `URL` запроса, если ответ не был получен или не имеет `URL`.
+   */
+  readonly url: string
+  /**
+   * Количество выполненных попыток. `0` - запрос не дошел до выполнения.
+   */
+  readonly attempt: number
+  readonly timings: TResponseTimings
 }
 
 /**
@@ -143,10 +282,12 @@ function fnRetryDelayOrNull (value?: any | number | ((attempt: number) => number
  *
  * Если запрос завершился ошибкой или сервер прислал ошибку, пользовательский обработчик может установить шаблонный
  * {@link IErrorLike} с собственными сообщениями.
+ *
+ * Поле `meta` устанавливается контекстом, выполнившим запрос, и отсутствует, если запрос не был инициализирован.
  */
 type TResponse<T> =
-  { ok: true, value: T, error?: undefined | null } |
-  { ok: false, value: null, error: ApiRouterError }
+  { ok: true, value: T, error?: undefined | null, meta?: undefined | null | TResponseMeta } |
+  { ok: false, value: null, error: ApiRouterError, meta?: undefined | null | TResponseMeta }
 
 /**
  * Заглушка(функция), которая ничего не возвращает.
@@ -184,7 +325,15 @@ export {
   isNumericBool,
   numericBoolOrNull,
   type TFnRetryDelay,
+  type TRetryDelayStrategyName,
+  type TRetryDelayJitter,
+  type TRetryDelayStrategy,
+  type TRetryDelay,
+  createRetryDelayStrategy,
+  isRetryDelayStrategy,
   fnRetryDelayOrNull,
+  type TResponseTimings,
+  type TResponseMeta,
   type TResponse,
   uselessFunctionStub_
 }
@@ -41,6 +41,7 @@ class WebSocketConnector<T extends TWebSocketMessageType> extends BinaryTranspor
   protected readonly _maxRetries: TPositiveInteger
   protected readonly _retryDelay: TFnRetryDelay
   protected _retries = 0
+  protected _lastRetryDelay = 0
   protected _enabled = false
   protected _url: string
   protected _protocols: undefined | string | readonly string[]
@@ -52,6 +53,7 @@ class WebSocketConnector<T extends TWebSocketMessageType> extends BinaryTranspor
 
   protected readonly _onOpen = (_e: WebSocketEventMap['open']) => {
     this._retries = 0
+    this._lastRetryDelay = 0
     this._stateEvent(BINARY_TRANSPORT_EVENT_NAMES.open)
     this._whenReadyController.resolve(true)
   }
@@ -194,7 +196,8 @@ class WebSocketConnector<T extends TWebSocketMessageType> extends BinaryTranspor
   protected _reconnect (): void {
     clearTimeout(this._reconnectTid)
     if (this._retries < this._maxRetries) {
-      this._reconnectTid = setTimeout(() => this._open(), this._retryDelay(this._retries))
+      this._lastRetryDelay = this._retryDelay(this._retries, this._lastRetryDelay)
+      this._reconnectTid = setTimeout(() => this._open(), this._lastRetryDelay)
     }
     else {
       this._close(true)
@@ -1,3 +1,8 @@
+import type {
+  TRetryDelay,
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  TRetryDelayStrategy
+} from '../types.js'
 import type { TBinaryTransportReceiveHandler, TBinaryTransportStateHandler } from '../interfaces/BinaryTransportLike.js'
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 import type { WebSocketConnector } from './WebSocketConnector.js'
@@ -41,9 +46,10 @@ interface TWebSocketConnectorOptions<B extends TWebSocketMessageType> {
    */
   retries?: undefined | null | number
   /**
-   * Интервал повторной попытки соединения при разрыве связи.
+   * Интервал повторной попытки соединения при разрыве связи. Может быть числом (`ms`), функцией
+   * `(attempt, previous) => delay` или встроенной стратегией {@link TRetryDelayStrategy}.
    */
-  retryDelay?: undefined | null | number | ((attempt: number) => number)
+  retryDelay?: undefined | null | TRetryDelay
   /**
    * Какой тип данных следует пропускать, а какой считать ошибкой.
    * Параметр можно передать списком, при этом нет смысла указывать два несовместимых типа `'arraybuffer' | 'blob'`.